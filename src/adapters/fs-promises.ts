@@ -0,0 +1,636 @@
+/**
+ * node:fs/promises 相容轉接層
+ * 將 VirtualFileSystem 包裝為 fs.promises 形狀的物件，供第三方工具直接使用
+ */
+
+import { constants } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { VirtualFileSystem } from '../core/vfs.js';
+import type { OpenFlags, TimeLike } from '../types/index.js';
+import { FileSystemError, getErrno } from '../errors/file-system-errors.js';
+import { VFSStats, VFSDirent } from './fs-stats.js';
+
+/** 路徑參數（與 fs.PathLike 相同） */
+export type PathLike = string | Buffer | URL;
+
+/** readFile 選項 */
+export interface ReadFileOptions {
+  /** 編碼（null 表示回傳 Buffer） */
+  encoding?: BufferEncoding | null;
+  /** 開啟旗標（與 open 相同，預設 r） */
+  flag?: string;
+}
+
+/** writeFile / appendFile 選項 */
+export interface WriteFileOptions {
+  /** 字串內容的編碼 */
+  encoding?: BufferEncoding | null;
+  /** 開啟旗標（w、wx、a、ax） */
+  flag?: string;
+  /** 檔案模式 */
+  mode?: number;
+}
+
+/** mkdir 選項 */
+export interface MakeDirectoryOptions {
+  /** 是否遞迴建立 */
+  recursive?: boolean;
+  /** 目錄模式 */
+  mode?: number;
+}
+
+/** readdir 選項 */
+export interface ReadDirOptions {
+  /** 名稱編碼（'buffer' 表示回傳 Buffer） */
+  encoding?: BufferEncoding | 'buffer' | null;
+  /** 是否回傳 Dirent 物件 */
+  withFileTypes?: boolean;
+  /** 是否遞迴列出 */
+  recursive?: boolean;
+}
+
+/** readlink / realpath 選項 */
+export interface PathEncodingOptions {
+  /** 回傳路徑的編碼（'buffer' 表示回傳 Buffer） */
+  encoding?: BufferEncoding | 'buffer' | null;
+}
+
+/** rm 選項 */
+export interface RmOptions {
+  /** 是否遞迴刪除 */
+  recursive?: boolean;
+  /** 路徑不存在時是否忽略 */
+  force?: boolean;
+}
+
+/** cp 選項 */
+export interface CpOptions {
+  /** 是否遞迴複製目錄 */
+  recursive?: boolean;
+  /** 目的地已存在時是否覆寫（預設 true） */
+  force?: boolean;
+  /** force 為 false 且目的地已存在時是否拋出錯誤 */
+  errorOnExist?: boolean;
+  /** 是否複製符號連結的目標 */
+  dereference?: boolean;
+  /** 是否保留時間戳記 */
+  preserveTimestamps?: boolean;
+  /** 過濾函數 */
+  filter?: (src: string, dest: string) => boolean;
+}
+
+/** Node.js 風格的系統錯誤 */
+export interface NodeFsError extends Error {
+  /** 負數 errno */
+  errno: number;
+  /** POSIX 錯誤碼 */
+  code: string;
+  /** 失敗的系統呼叫 */
+  syscall: string;
+  /** 來源路徑 */
+  path?: string;
+  /** 目的路徑 */
+  dest?: string;
+}
+
+/** fs.promises FileHandle 相容介面 */
+export interface FsFileHandle {
+  /** 檔案描述符 */
+  readonly fd: number;
+  read(buffer: Buffer, offset?: number, length?: number, position?: number | null): Promise<{ bytesRead: number; buffer: Buffer }>;
+  write(data: string | Buffer, position?: number | null): Promise<{ bytesWritten: number; buffer: string | Buffer }>;
+  readFile(options?: { encoding?: BufferEncoding | null } | BufferEncoding | null): Promise<string | Buffer>;
+  writeFile(data: string | Buffer): Promise<void>;
+  stat(): Promise<VFSStats>;
+  truncate(len?: number): Promise<void>;
+  utimes(atime: TimeLike, mtime: TimeLike): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** fs.promises 相容介面 */
+export interface FsPromisesAdapter {
+  readonly constants: typeof constants;
+  readFile(path: PathLike, options?: ReadFileOptions | BufferEncoding | null): Promise<string | Buffer>;
+  writeFile(path: PathLike, data: string | Uint8Array, options?: WriteFileOptions | BufferEncoding | null): Promise<void>;
+  appendFile(path: PathLike, data: string | Uint8Array, options?: WriteFileOptions | BufferEncoding | null): Promise<void>;
+  mkdir(path: PathLike, options?: MakeDirectoryOptions | number): Promise<string | undefined>;
+  mkdtemp(prefix: string): Promise<string>;
+  readdir(path: PathLike, options?: ReadDirOptions | BufferEncoding | 'buffer' | null): Promise<string[] | Buffer[] | VFSDirent<string | Buffer>[]>;
+  stat(path: PathLike): Promise<VFSStats>;
+  lstat(path: PathLike): Promise<VFSStats>;
+  access(path: PathLike, mode?: number): Promise<void>;
+  chmod(path: PathLike, mode: number | string): Promise<void>;
+  chown(path: PathLike, uid: number, gid: number): Promise<void>;
+  lchown(path: PathLike, uid: number, gid: number): Promise<void>;
+  utimes(path: PathLike, atime: TimeLike, mtime: TimeLike): Promise<void>;
+  lutimes(path: PathLike, atime: TimeLike, mtime: TimeLike): Promise<void>;
+  rename(oldPath: PathLike, newPath: PathLike): Promise<void>;
+  copyFile(src: PathLike, dest: PathLike, mode?: number): Promise<void>;
+  cp(src: PathLike, dest: PathLike, options?: CpOptions): Promise<void>;
+  truncate(path: PathLike, len?: number): Promise<void>;
+  unlink(path: PathLike): Promise<void>;
+  rmdir(path: PathLike): Promise<void>;
+  rm(path: PathLike, options?: RmOptions): Promise<void>;
+  link(existingPath: PathLike, newPath: PathLike): Promise<void>;
+  symlink(target: PathLike, path: PathLike, type?: string | null): Promise<void>;
+  readlink(path: PathLike, options?: PathEncodingOptions | BufferEncoding | 'buffer' | null): Promise<string | Buffer>;
+  realpath(path: PathLike, options?: PathEncodingOptions | BufferEncoding | 'buffer' | null): Promise<string | Buffer>;
+  open(path: PathLike, flags?: OpenFlags, mode?: number): Promise<FsFileHandle>;
+}
+
+/** POSIX 錯誤碼說明 */
+const POSIX_DESCRIPTIONS: Record<string, string> = {
+  ENOENT: 'no such file or directory',
+  EACCES: 'permission denied',
+  EPERM: 'operation not permitted',
+  ENOTEMPTY: 'directory not empty',
+  EEXIST: 'file already exists',
+  EINVAL: 'invalid argument',
+  EISDIR: 'illegal operation on a directory',
+  ENOTDIR: 'not a directory',
+  ELOOP: 'too many symbolic links encountered',
+  ENAMETOOLONG: 'name too long',
+  EIO: 'i/o error',
+  EBADF: 'bad file descriptor',
+  ENOSPC: 'no space left on device',
+  EFBIG: 'file too large',
+  ENODATA: 'no data available',
+  E2BIG: 'argument list too long',
+  EAGAIN: 'resource temporarily unavailable',
+  EDEADLK: 'resource deadlock avoided',
+  EBUSY: 'resource busy or locked',
+};
+
+/** mkdtemp 使用的字元 */
+const TEMP_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/** 建立 Node.js 風格的系統錯誤 */
+function createNodeError(code: string, syscall: string, path?: string, dest?: string, cause?: Error): NodeFsError {
+  let message = `${code}: ${POSIX_DESCRIPTIONS[code] ?? 'unknown error'}, ${syscall}`;
+
+  if (path !== undefined) {
+    message += ` '${path}'`;
+  }
+
+  if (dest !== undefined) {
+    message += ` -> '${dest}'`;
+  }
+
+  const error = new Error(message, cause ? { cause } : undefined) as NodeFsError;
+  error.errno = getErrno(code);
+  error.code = code;
+  error.syscall = syscall;
+
+  if (path !== undefined) {
+    error.path = path;
+  }
+
+  if (dest !== undefined) {
+    error.dest = dest;
+  }
+
+  return error;
+}
+
+/** 將 VFS 錯誤轉換為 Node.js 風格錯誤 */
+function toNodeError(error: unknown, syscall: string, path?: string, dest?: string): unknown {
+  if (error instanceof FileSystemError) {
+    return createNodeError(error.posixCode, syscall, path, dest, error);
+  }
+
+  return error;
+}
+
+/** 轉換路徑參數為字串 */
+function toPath(input: PathLike): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+
+  if (Buffer.isBuffer(input)) {
+    return input.toString('utf-8');
+  }
+
+  return fileURLToPath(input);
+}
+
+/** 取得選項中的編碼 */
+function getEncoding<T extends string>(options: { encoding?: T | null } | T | null | undefined): T | undefined {
+  if (!options) {
+    return undefined;
+  }
+
+  if (typeof options === 'string') {
+    return options;
+  }
+
+  return options.encoding ?? undefined;
+}
+
+/** 依編碼轉換回傳的路徑或名稱（與 Node.js 相同，以 UTF-8 位元組重新編碼） */
+function encodePath(value: string, encoding: BufferEncoding | 'buffer' | undefined): string | Buffer {
+  if (!encoding || encoding === 'utf-8' || encoding === 'utf8') {
+    return value;
+  }
+
+  const bytes = Buffer.from(value, 'utf-8');
+  return encoding === 'buffer' ? bytes : bytes.toString(encoding);
+}
+
+/** 建立 fs.promises 相容轉接層 */
+export function createFsPromises(vfs: VirtualFileSystem): FsPromisesAdapter {
+  /** 執行 VFS 操作並轉換錯誤 */
+  const run = async <T>(syscall: string, path: string, operation: () => Promise<T>, dest?: string): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      throw toNodeError(error, syscall, path, dest);
+    }
+  };
+
+  /** 確認父目錄存在（fs 不會自動建立父目錄） */
+  const ensureParent = async (path: string, syscall: string, dest?: string): Promise<void> => {
+    const parentPath = vfs.path.dirname(dest ?? path);
+
+    if (await vfs.isDirectory(parentPath)) {
+      return;
+    }
+
+    const code = await vfs.exists(parentPath) ? 'ENOTDIR' : 'ENOENT';
+    throw createNodeError(code, syscall, path, dest);
+  };
+
+  /** 寫入內容（依旗標決定覆寫或追加） */
+  const writeWithFlag = async (
+    path: string,
+    data: string | Uint8Array,
+    options: WriteFileOptions | BufferEncoding | null | undefined,
+    defaultFlag: string
+  ): Promise<void> => {
+    const encoding = getEncoding(options) ?? 'utf-8';
+    const flag = (typeof options === 'object' && options?.flag) || defaultFlag;
+    const mode = typeof options === 'object' ? options?.mode : undefined;
+    const content = typeof data === 'string' ? Buffer.from(data, encoding) : Buffer.from(data);
+
+    await run('open', path, async () => {
+      await ensureParent(path, 'open');
+      const exists = await vfs.exists(path);
+
+      if (flag.includes('x') && exists) {
+        throw createNodeError('EEXIST', 'open', path);
+      }
+
+      if (flag.startsWith('a')) {
+        await vfs.appendFile(path, content);
+      } else {
+        await vfs.writeFile(path, content);
+      }
+
+      // 與 Node.js 相同，模式只套用於新建立的檔案
+      if (mode !== undefined && !exists) {
+        await vfs.chmod(path, mode);
+      }
+    });
+  };
+
+  /** 遞迴列出目錄項目 */
+  const listDirectory = async (
+    root: string,
+    relativeDir: string,
+    recursive: boolean,
+    results: { relativePath: string; parentPath: string; name: string; isFile: boolean; isDirectory: boolean; isSymlink: boolean }[]
+  ): Promise<void> => {
+    const dirPath = relativeDir ? vfs.path.join(root, relativeDir) : root;
+
+    for (const entry of await vfs.readDirectory(dirPath)) {
+      const relativePath = relativeDir ? `${relativeDir}${vfs.path.sep}${entry.name}` : entry.name;
+      results.push({ ...entry, relativePath, parentPath: dirPath });
+
+      if (recursive && entry.isDirectory) {
+        await listDirectory(root, relativePath, recursive, results);
+      }
+    }
+  };
+
+  /** 建立 FileHandle */
+  const createFileHandle = (fd: number, path: string): FsFileHandle => {
+    const handle: FsFileHandle = {
+      fd,
+
+      async read(buffer, offset = 0, length = buffer.length - offset, position = null) {
+        const bytesRead = await run('read', path, () => vfs.read(fd, buffer, offset, length, position));
+        return { bytesRead, buffer };
+      },
+
+      async write(data, position = null) {
+        const bytesWritten = await run('write', path, () => vfs.write(fd, data, position));
+        return { bytesWritten, buffer: data };
+      },
+
+      async readFile(options) {
+        const encoding = getEncoding(options);
+        const chunks: Buffer[] = [];
+        const chunk = Buffer.alloc(64 * 1024);
+
+        for (;;) {
+          const { bytesRead } = await handle.read(chunk);
+          if (bytesRead === 0) {
+            break;
+          }
+          chunks.push(Buffer.from(chunk.subarray(0, bytesRead)));
+        }
+
+        const content = Buffer.concat(chunks);
+        return encoding ? content.toString(encoding) : content;
+      },
+
+      async writeFile(data) {
+        await handle.write(data);
+      },
+
+      async stat() {
+        return run('fstat', path, async () => new VFSStats(await vfs.fstat(fd)));
+      },
+
+      async truncate(len = 0) {
+        await run('ftruncate', path, () => vfs.ftruncate(fd, len));
+      },
+
+      async utimes(atime, mtime) {
+        await run('futime', path, () => vfs.futimes(fd, atime, mtime));
+      },
+
+      async close() {
+        await run('close', path, () => vfs.close(fd));
+      },
+    };
+
+    return handle;
+  };
+
+  return {
+    constants,
+
+    async readFile(path, options) {
+      const filePath = toPath(path);
+      const encoding = getEncoding(options);
+      const flag = (typeof options === 'object' && options?.flag) || 'r';
+
+      if (flag === 'r') {
+        return run('open', filePath, () => vfs.readFile(filePath, encoding));
+      }
+
+      // 其他旗標與 open 相同處理（建立、截斷、獨佔與讀取權限）
+      const fd = await run('open', filePath, () => vfs.open(filePath, flag as OpenFlags));
+      const handle = createFileHandle(fd, filePath);
+
+      try {
+        return await handle.readFile(encoding);
+      } finally {
+        await handle.close();
+      }
+    },
+
+    async writeFile(path, data, options) {
+      await writeWithFlag(toPath(path), data, options, 'w');
+    },
+
+    async appendFile(path, data, options) {
+      await writeWithFlag(toPath(path), data, options, 'a');
+    },
+
+    async mkdir(path, options) {
+      const dirPath = toPath(path);
+      const recursive = typeof options === 'object' && options.recursive === true;
+      const mode = typeof options === 'number' ? options : options?.mode;
+
+      return run('mkdir', dirPath, async () => {
+        if (!recursive) {
+          if (await vfs.exists(dirPath)) {
+            throw createNodeError('EEXIST', 'mkdir', dirPath);
+          }
+          await ensureParent(dirPath, 'mkdir');
+          await vfs.createDirectory(dirPath);
+          if (mode !== undefined) {
+            await vfs.chmod(dirPath, mode);
+          }
+          return undefined;
+        }
+
+        // 與 Node.js 相同，路徑本身已是非目錄時為 EEXIST
+        if (await vfs.exists(dirPath) && !await vfs.isDirectory(dirPath)) {
+          throw createNodeError('EEXIST', 'mkdir', dirPath);
+        }
+
+        // 找出第一個需要建立的目錄
+        const absolute = vfs.path.resolve(dirPath);
+        const root = vfs.path.root(absolute);
+        const segments = absolute.slice(root.length).split(vfs.path.sep).filter(Boolean);
+        const created: string[] = [];
+
+        for (let i = 1; i <= segments.length; i++) {
+          const current = vfs.path.join(root, ...segments.slice(0, i));
+          if (created.length > 0 || !await vfs.exists(current)) {
+            created.push(current);
+          }
+        }
+
+        await vfs.createDirectory(dirPath, true);
+
+        // 模式只套用於新建立的目錄，由最深處開始以免先移除上層目錄的搜尋權限
+        if (mode !== undefined) {
+          for (const current of [...created].reverse()) {
+            await vfs.chmod(current, mode);
+          }
+        }
+
+        return created[0];
+      });
+    },
+
+    async mkdtemp(prefix) {
+      return run('mkdtemp', prefix, async () => {
+        await ensureParent(prefix, 'mkdtemp');
+
+        for (;;) {
+          let suffix = '';
+          for (let i = 0; i < 6; i++) {
+            suffix += TEMP_CHARS[Math.floor(Math.random() * TEMP_CHARS.length)];
+          }
+
+          const dirPath = `${prefix}${suffix}`;
+          if (!await vfs.exists(dirPath)) {
+            await vfs.createDirectory(dirPath);
+            return dirPath;
+          }
+        }
+      });
+    },
+
+    async readdir(path, options) {
+      const dirPath = toPath(path);
+      const encoding = getEncoding(options);
+      const withFileTypes = typeof options === 'object' && options?.withFileTypes === true;
+      const recursive = typeof options === 'object' && options?.recursive === true;
+
+      const entries: Parameters<typeof listDirectory>[3] = [];
+      await run('scandir', dirPath, () => listDirectory(dirPath, '', recursive, entries));
+
+      const encodeName = (name: string): string | Buffer => encodePath(name, encoding);
+
+      if (withFileTypes) {
+        return entries.map(entry => new VFSDirent(encodeName(entry.name), entry.parentPath, entry));
+      }
+
+      return entries.map(entry => encodeName(entry.relativePath)) as string[] | Buffer[];
+    },
+
+    async stat(path) {
+      const targetPath = toPath(path);
+      return run('stat', targetPath, async () => new VFSStats(await vfs.getStats(targetPath)));
+    },
+
+    async lstat(path) {
+      const targetPath = toPath(path);
+      return run('lstat', targetPath, async () => new VFSStats(await vfs.getLinkStats(targetPath)));
+    },
+
+    async access(path, mode = constants.F_OK) {
+      const targetPath = toPath(path);
+      await run('access', targetPath, () => vfs.access(targetPath, mode));
+    },
+
+    async chmod(path, mode) {
+      const targetPath = toPath(path);
+      const numericMode = typeof mode === 'string' ? parseInt(mode, 8) : mode;
+      await run('chmod', targetPath, () => vfs.chmod(targetPath, numericMode));
+    },
+
+    async chown(path, uid, gid) {
+      const targetPath = toPath(path);
+      await run('chown', targetPath, () => vfs.chown(targetPath, uid, gid));
+    },
+
+    async lchown(path, uid, gid) {
+      const targetPath = toPath(path);
+      await run('lchown', targetPath, () => vfs.lchown(targetPath, uid, gid));
+    },
+
+    async utimes(path, atime, mtime) {
+      const targetPath = toPath(path);
+      await run('utime', targetPath, () => vfs.utimes(targetPath, atime, mtime));
+    },
+
+    async lutimes(path, atime, mtime) {
+      const targetPath = toPath(path);
+      await run('lutime', targetPath, () => vfs.lutimes(targetPath, atime, mtime));
+    },
+
+    async rename(oldPath, newPath) {
+      const src = toPath(oldPath);
+      const dest = toPath(newPath);
+      await run('rename', src, () => vfs.rename(src, dest), dest);
+    },
+
+    async copyFile(src, dest, mode = 0) {
+      const srcPath = toPath(src);
+      const destPath = toPath(dest);
+
+      await run('copyfile', srcPath, async () => {
+        const content = await vfs.readFile(srcPath);
+        await ensureParent(srcPath, 'copyfile', destPath);
+
+        if ((mode & constants.COPYFILE_EXCL) && await vfs.exists(destPath)) {
+          throw createNodeError('EEXIST', 'copyfile', srcPath, destPath);
+        }
+
+        await vfs.writeFile(destPath, content);
+      }, destPath);
+    },
+
+    async cp(src, dest, options) {
+      const srcPath = toPath(src);
+      const destPath = toPath(dest);
+      const { force, ...rest } = options ?? {};
+      await run('cp', srcPath, () => vfs.copy(srcPath, destPath, { ...rest, overwrite: force }), destPath);
+    },
+
+    async truncate(path, len = 0) {
+      const filePath = toPath(path);
+
+      await run('open', filePath, async () => {
+        const content = await vfs.readFile(filePath) as Buffer;
+        const truncated = Buffer.alloc(len);
+        content.copy(truncated, 0, 0, Math.min(len, content.length));
+        await vfs.writeFile(filePath, truncated);
+      });
+    },
+
+    async unlink(path) {
+      const filePath = toPath(path);
+      await run('unlink', filePath, () => vfs.deleteFile(filePath));
+    },
+
+    async rmdir(path) {
+      const dirPath = toPath(path);
+      await run('rmdir', dirPath, () => vfs.deleteDirectory(dirPath));
+    },
+
+    async rm(path, options) {
+      const targetPath = toPath(path);
+
+      await run('rm', targetPath, async () => {
+        if (!await vfs.exists(targetPath)) {
+          if (options?.force) {
+            return;
+          }
+          throw createNodeError('ENOENT', 'rm', targetPath);
+        }
+
+        const stats = await vfs.getLinkStats(targetPath);
+
+        if (stats.isDirectory) {
+          if (!options?.recursive) {
+            throw createNodeError('EISDIR', 'rm', targetPath);
+          }
+          await vfs.deleteDirectory(targetPath, true);
+          return;
+        }
+
+        await vfs.deleteFile(targetPath);
+      });
+    },
+
+    async link(existingPath, newPath) {
+      const src = toPath(existingPath);
+      const dest = toPath(newPath);
+      await run('link', src, () => vfs.link(src, dest), dest);
+    },
+
+    async symlink(target, path) {
+      const targetPath = toPath(target);
+      const linkPath = toPath(path);
+
+      await run('symlink', targetPath, async () => {
+        await ensureParent(targetPath, 'symlink', linkPath);
+        await vfs.createSymlink(targetPath, linkPath);
+      }, linkPath);
+    },
+
+    async readlink(path, options) {
+      const linkPath = toPath(path);
+      return encodePath(await run('readlink', linkPath, () => vfs.readSymlink(linkPath)), getEncoding(options));
+    },
+
+    async realpath(path, options) {
+      const targetPath = toPath(path);
+      return encodePath(await run('realpath', targetPath, () => vfs.realpathNative(targetPath)), getEncoding(options));
+    },
+
+    async open(path, flags = 'r', mode) {
+      const filePath = toPath(path);
+      const fd = await run('open', filePath, () => vfs.open(filePath, flags, mode));
+      return createFileHandle(fd, filePath);
+    },
+  };
+}
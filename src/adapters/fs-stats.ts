@@ -0,0 +1,144 @@
+/**
+ * Node.js 相容的 Stats 與 Dirent 物件
+ */
+
+import { constants } from 'node:fs';
+import type { FileStats } from '../types/index.js';
+
+/** 區塊大小 */
+const BLOCK_SIZE = 4096;
+
+/** 依節點類型取得 mode 的檔案類型位元 */
+function getTypeBits(stats: Pick<FileStats, 'isFile' | 'isDirectory' | 'isSymlink'>): number {
+  if (stats.isDirectory) {
+    return constants.S_IFDIR;
+  }
+
+  if (stats.isSymlink) {
+    return constants.S_IFLNK;
+  }
+
+  return constants.S_IFREG;
+}
+
+/** Node.js 相容的 Stats */
+export class VFSStats {
+  readonly dev = 0;
+  readonly ino: number;
+  readonly mode: number;
+  readonly nlink: number;
+  readonly uid: number;
+  readonly gid: number;
+  readonly rdev = 0;
+  readonly size: number;
+  readonly blksize = BLOCK_SIZE;
+  readonly blocks: number;
+  readonly atimeMs: number;
+  readonly mtimeMs: number;
+  readonly ctimeMs: number;
+  readonly birthtimeMs: number;
+  readonly atime: Date;
+  readonly mtime: Date;
+  readonly ctime: Date;
+  readonly birthtime: Date;
+
+  /** 原始 VFS 統計資訊 */
+  private readonly stats: FileStats;
+
+  constructor(stats: FileStats) {
+    this.stats = stats;
+    this.ino = stats.ino;
+    this.mode = getTypeBits(stats) | stats.mode;
+    this.nlink = stats.nlink;
+    this.uid = stats.uid ?? 0;
+    this.gid = stats.gid ?? 0;
+    this.size = stats.size;
+    this.blocks = Math.ceil(stats.size / 512);
+    this.atime = new Date(stats.accessedTime);
+    this.mtime = new Date(stats.modifiedTime);
+    this.ctime = new Date(stats.changedTime);
+    this.birthtime = new Date(stats.createdTime);
+    this.atimeMs = stats.accessedTimeMs;
+    this.mtimeMs = stats.modifiedTimeMs;
+    this.ctimeMs = stats.changedTimeMs;
+    this.birthtimeMs = stats.createdTimeMs;
+  }
+
+  isFile(): boolean {
+    return this.stats.isFile;
+  }
+
+  isDirectory(): boolean {
+    return this.stats.isDirectory;
+  }
+
+  isSymbolicLink(): boolean {
+    return this.stats.isSymlink;
+  }
+
+  isBlockDevice(): boolean {
+    return false;
+  }
+
+  isCharacterDevice(): boolean {
+    return false;
+  }
+
+  isFIFO(): boolean {
+    return false;
+  }
+
+  isSocket(): boolean {
+    return false;
+  }
+}
+
+/** Node.js 相容的 Dirent */
+export class VFSDirent<TName extends string | Buffer = string> {
+  /** 項目名稱 */
+  readonly name: TName;
+
+  /** 所在目錄路徑 */
+  readonly parentPath: string;
+
+  /** 所在目錄路徑（Node.js 舊版欄位） */
+  readonly path: string;
+
+  /** 節點類型 */
+  private readonly kind: Pick<FileStats, 'isFile' | 'isDirectory' | 'isSymlink'>;
+
+  constructor(name: TName, parentPath: string, kind: Pick<FileStats, 'isFile' | 'isDirectory' | 'isSymlink'>) {
+    this.name = name;
+    this.parentPath = parentPath;
+    this.path = parentPath;
+    this.kind = { isFile: kind.isFile, isDirectory: kind.isDirectory, isSymlink: kind.isSymlink };
+  }
+
+  isFile(): boolean {
+    return this.kind.isFile;
+  }
+
+  isDirectory(): boolean {
+    return this.kind.isDirectory;
+  }
+
+  isSymbolicLink(): boolean {
+    return this.kind.isSymlink;
+  }
+
+  isBlockDevice(): boolean {
+    return false;
+  }
+
+  isCharacterDevice(): boolean {
+    return false;
+  }
+
+  isFIFO(): boolean {
+    return false;
+  }
+
+  isSocket(): boolean {
+    return false;
+  }
+}
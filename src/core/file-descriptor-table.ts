@@ -0,0 +1,123 @@
+/**
+ * 檔案描述符表
+ * 追蹤每個 VFS 實例中已開啟的檔案與讀寫位置
+ */
+
+import type { OpenFlags } from '../types/index.js';
+import type { VFSFile } from './vfs-file.js';
+import { BadFileDescriptorError } from '../errors/file-system-errors.js';
+
+/** 第一個可用的檔案描述符（0-2 保留給標準輸入輸出） */
+const FIRST_DESCRIPTOR = 3;
+
+/** 開啟旗標解析結果 */
+export interface OpenFlagInfo {
+  /** 可讀取 */
+  readable: boolean;
+  /** 可寫入 */
+  writable: boolean;
+  /** 不存在時建立 */
+  create: boolean;
+  /** 已存在時失敗 */
+  exclusive: boolean;
+  /** 開啟時截斷 */
+  truncate: boolean;
+  /** 寫入一律追加至結尾 */
+  append: boolean;
+}
+
+/** 旗標對照表 */
+const OPEN_FLAGS: Record<OpenFlags, OpenFlagInfo> = {
+  'r': { readable: true, writable: false, create: false, exclusive: false, truncate: false, append: false },
+  'r+': { readable: true, writable: true, create: false, exclusive: false, truncate: false, append: false },
+  'w': { readable: false, writable: true, create: true, exclusive: false, truncate: true, append: false },
+  'wx': { readable: false, writable: true, create: true, exclusive: true, truncate: true, append: false },
+  'w+': { readable: true, writable: true, create: true, exclusive: false, truncate: true, append: false },
+  'wx+': { readable: true, writable: true, create: true, exclusive: true, truncate: true, append: false },
+  'a': { readable: false, writable: true, create: true, exclusive: false, truncate: false, append: true },
+  'ax': { readable: false, writable: true, create: true, exclusive: true, truncate: false, append: true },
+  'a+': { readable: true, writable: true, create: true, exclusive: false, truncate: false, append: true },
+  'ax+': { readable: true, writable: true, create: true, exclusive: true, truncate: false, append: true },
+};
+
+/** 解析開啟旗標 */
+export function parseOpenFlags(flags: string): OpenFlagInfo {
+  const info = OPEN_FLAGS[flags as OpenFlags];
+
+  if (!info) {
+    throw new TypeError(`Invalid open flags: ${flags}`);
+  }
+
+  return info;
+}
+
+/** 已開啟的檔案描述 */
+export interface FileDescriptor {
+  /** 描述符編號 */
+  readonly fd: number;
+  /** 目前路徑（重新命名時更新） */
+  path: string;
+  /** 檔案節點 */
+  readonly node: VFSFile;
+  /** 開啟旗標 */
+  readonly flags: OpenFlagInfo;
+  /** 目前讀寫位置 */
+  position: number;
+}
+
+/** 檔案描述符表 */
+export class FileDescriptorTable {
+  /** 已開啟的描述符 */
+  private readonly descriptors: Map<number, FileDescriptor> = new Map();
+
+  /** 配置新的描述符（取最小可用編號） */
+  allocate(path: string, node: VFSFile, flags: OpenFlagInfo): number {
+    let fd = FIRST_DESCRIPTOR;
+
+    while (this.descriptors.has(fd)) {
+      fd++;
+    }
+
+    this.descriptors.set(fd, { fd, path, node, flags, position: 0 });
+    return fd;
+  }
+
+  /** 取得描述符 */
+  get(fd: number): FileDescriptor {
+    const descriptor = this.descriptors.get(fd);
+
+    if (!descriptor) {
+      throw new BadFileDescriptorError(fd);
+    }
+
+    return descriptor;
+  }
+
+  /** 釋放描述符 */
+  release(fd: number): FileDescriptor {
+    const descriptor = this.get(fd);
+    this.descriptors.delete(fd);
+    return descriptor;
+  }
+
+  /** 更新重新命名後的路徑（含子路徑） */
+  renamePath(oldPath: string, newPath: string): void {
+    const prefix = oldPath === '/' ? '/' : `${oldPath}/`;
+
+    for (const descriptor of this.descriptors.values()) {
+      if (descriptor.path === oldPath || descriptor.path.startsWith(prefix)) {
+        descriptor.path = newPath + descriptor.path.slice(oldPath.length);
+      }
+    }
+  }
+
+  /** 關閉所有描述符 */
+  clear(): void {
+    this.descriptors.clear();
+  }
+
+  /** 已開啟的描述符數量 */
+  get size(): number {
+    return this.descriptors.size;
+  }
+}
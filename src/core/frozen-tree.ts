@@ -0,0 +1,154 @@
+/**
+ * 凍結的節點樹
+ * 快照使用的不可變節點：未變更的子樹在快照之間與目前的樹共享同一個物件，
+ * 檔案內容以寫入時複製的方式共享緩衝區
+ */
+
+import type { FileStats } from '../types/index.js';
+import { VFSNodeType } from '../types/index.js';
+import type { NamePolicy } from '../path/name-policy.js';
+import { VFSFileInode, nsToDate, nsToMs } from './vfs-inode.js';
+import type { FrozenInode, FrozenInodeMap } from './vfs-inode.js';
+import type { VFSNode } from './vfs-node.js';
+import { VFSFile } from './vfs-file.js';
+import { VFSDirectory } from './vfs-directory.js';
+import type { StorageCounters } from './vfs-directory.js';
+import { VFSSymlink } from './vfs-symlink.js';
+
+/** 子樹統計（檔案以目錄項目計算，硬連結會重複計算） */
+export interface FrozenCounts {
+  /** 檔案數量 */
+  readonly fileCount: number;
+  /** 目錄數量（含自身） */
+  readonly directoryCount: number;
+  /** 檔案大小總和（位元組） */
+  readonly totalSize: number;
+}
+
+/** 凍結的節點（不可修改） */
+export interface FrozenNode {
+  /** 節點類型 */
+  readonly type: VFSNodeType;
+  /** 節點名稱 */
+  readonly name: string;
+  /** 凍結的 inode（硬連結共享同一個物件） */
+  readonly inode: FrozenInode;
+  /** 子節點（僅目錄，以比對鍵索引） */
+  readonly children?: ReadonlyMap<string, FrozenNode>;
+  /** 連結目標（僅符號連結） */
+  readonly target?: string;
+  /** 子樹統計 */
+  readonly counts: FrozenCounts;
+  /** 凍結時的儲存空間計數（僅目錄） */
+  readonly storage?: Readonly<StorageCounters>;
+}
+
+/** 依名稱取得凍結目錄的子節點 */
+export function getFrozenChild(dir: FrozenNode, name: string, namePolicy?: NamePolicy): FrozenNode | undefined {
+  return dir.children?.get(namePolicy ? namePolicy.key(name) : name);
+}
+
+/** 凍結節點的大小（與 VFSNode.size 相同） */
+export function frozenSize(node: FrozenNode): number {
+  switch (node.type) {
+    case VFSNodeType.File:
+      return node.inode.content!.length;
+    case VFSNodeType.Directory:
+      return 4096;
+    default:
+      return Buffer.byteLength(node.target!, 'utf-8');
+  }
+}
+
+/** 凍結節點的統計資訊（與 VFSNode.getStats 相同的格式） */
+export function getFrozenStats(node: FrozenNode): FileStats {
+  const { inode } = node;
+  let nlink = inode.nlink;
+
+  if (node.type === VFSNodeType.Directory) {
+    nlink = 2;
+    for (const child of node.children!.values()) {
+      if (child.type === VFSNodeType.Directory) {
+        nlink++;
+      }
+    }
+  }
+
+  return {
+    isFile: node.type === VFSNodeType.File,
+    isDirectory: node.type === VFSNodeType.Directory,
+    isSymlink: node.type === VFSNodeType.Symlink,
+    size: frozenSize(node),
+    createdTime: nsToDate(inode.createdTimeNs),
+    modifiedTime: nsToDate(inode.modifiedTimeNs),
+    accessedTime: nsToDate(inode.accessedTimeNs),
+    changedTime: nsToDate(inode.changedTimeNs),
+    createdTimeMs: nsToMs(inode.createdTimeNs),
+    modifiedTimeMs: nsToMs(inode.modifiedTimeNs),
+    accessedTimeMs: nsToMs(inode.accessedTimeNs),
+    changedTimeMs: nsToMs(inode.changedTimeNs),
+    createdTimeNs: inode.createdTimeNs,
+    modifiedTimeNs: inode.modifiedTimeNs,
+    accessedTimeNs: inode.accessedTimeNs,
+    changedTimeNs: inode.changedTimeNs,
+    mode: inode.mode,
+    uid: inode.uid,
+    gid: inode.gid,
+    ino: inode.ino,
+    nlink,
+  };
+}
+
+/**
+ * 由凍結的節點建立可修改的節點
+ * 檔案內容與凍結的狀態共享，建立的節點保留凍結狀態的快取，再次凍結時不需重建；
+ * 同一對照表內共享凍結 inode 的檔案會共享還原後的 inode。
+ * 含硬連結的目錄立即建立子樹，其餘目錄延遲到第一次存取子節點時才建立
+ */
+export function thawNode(frozen: FrozenNode, namePolicy: NamePolicy | undefined, inodes: FrozenInodeMap): VFSNode {
+  let node: VFSNode;
+
+  switch (frozen.type) {
+    case VFSNodeType.File: {
+      const shared = inodes.get(frozen.inode);
+
+      if (shared) {
+        shared.nlink++;
+        node = new VFSFile(frozen.name, shared as VFSFileInode);
+        break;
+      }
+
+      const inode = new VFSFileInode(frozen.inode.content!, frozen.inode.mode);
+      inode.restore(frozen.inode);
+      inode.contentShared = true;
+      inodes.set(frozen.inode, inode);
+      node = new VFSFile(frozen.name, inode);
+      break;
+    }
+
+    case VFSNodeType.Directory: {
+      const dir = new VFSDirectory(frozen.name, frozen.inode.mode, namePolicy);
+
+      if (frozen.storage!.links === 0) {
+        // 子樹內沒有共享的 inode，延遲建立的子節點各自使用新的對照表
+        dir.defer(frozen, child => thawNode(child, namePolicy, new Map()));
+      } else {
+        for (const child of frozen.children!.values()) {
+          dir.addChild(thawNode(child, namePolicy, inodes));
+        }
+      }
+
+      dir.inode.restore(frozen.inode);
+      node = dir;
+      break;
+    }
+
+    default:
+      node = new VFSSymlink(frozen.name, frozen.target!);
+      node.inode.restore(frozen.inode);
+  }
+
+  node.inode.frozen = frozen.inode;
+  node.frozen = frozen;
+  return node;
+}
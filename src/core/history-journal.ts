@@ -0,0 +1,199 @@
+/**
+ * 操作歷程
+ * 保存可復原與重做的操作紀錄，處理群組合併與數量、大小上限
+ */
+
+import type { HistoryEntry, HistoryOperation, HistoryOptions } from '../types/index.js';
+import type { VFSNode } from './vfs-node.js';
+import type { FrozenInode } from './vfs-inode.js';
+import type { FrozenNode } from './frozen-tree.js';
+
+/** 路徑在操作前或操作後的狀態（以內部實際路徑表示） */
+export type HistoryState =
+  | {
+      /** 內部路徑 */
+      path: string;
+      /** 整個節點的複本（null 表示不存在） */
+      node: VFSNode | null;
+      /** 與樹中其他項目共享 inode 時，其中一個項目的內部路徑（還原時重新建立硬連結） */
+      link?: string;
+    }
+  | {
+      /** 內部路徑 */
+      path: string;
+      /** 僅中繼資料（null 表示不存在） */
+      metadata: FrozenInode | null;
+    }
+  | {
+      /** 內部路徑（根目錄） */
+      path: string;
+      /** 凍結的整棵樹（與快照共享未變更的子樹） */
+      tree: FrozenNode;
+    };
+
+/** 單一操作的前後狀態 */
+export interface HistoryStep {
+  /** 操作前 */
+  before: HistoryState[];
+  /** 操作後 */
+  after: HistoryState[];
+}
+
+/** 歷程中的項目 */
+interface JournalEntry {
+  /** 對外的項目資訊 */
+  info: Omit<HistoryEntry, 'undone'>;
+  /** 依執行順序排列的操作 */
+  steps: HistoryStep[];
+  /** 保存的檔案內容大小 */
+  bytes: number;
+}
+
+/** 進行中的群組 */
+interface OpenGroup {
+  /** 群組名稱 */
+  name: string;
+  /** 巢狀層數 */
+  depth: number;
+  /** 受影響的路徑（依首次出現順序） */
+  paths: Set<string>;
+  /** 群組內的操作 */
+  steps: HistoryStep[];
+  /** 保存的檔案內容大小 */
+  bytes: number;
+}
+
+/** 歷程管理器 */
+export class HistoryJournal {
+  /** 可復原的項目（最新的在最後） */
+  private readonly undoStack: JournalEntry[] = [];
+
+  /** 可重做的項目（最近復原的在最後） */
+  private redoStack: JournalEntry[] = [];
+
+  /** 進行中的群組 */
+  private group: OpenGroup | null = null;
+
+  /** 項目計數器 */
+  private counter = 0;
+
+  /** 所有項目保存的檔案內容大小 */
+  private totalBytes = 0;
+
+  /** 上限 */
+  private readonly limits: Required<HistoryOptions>;
+
+  constructor(options: HistoryOptions = {}) {
+    this.limits = {
+      maxEntries: options.maxEntries ?? 100,
+      maxBytes: options.maxBytes ?? 64 * 1024 * 1024,
+    };
+  }
+
+  /** 是否有進行中的群組 */
+  get groupOpen(): boolean {
+    return this.group !== null;
+  }
+
+  /** 記錄一個操作；群組進行中時併入群組，否則成為新項目並清除可重做的項目 */
+  record(operation: HistoryOperation, paths: string[], step: HistoryStep, bytes: number): void {
+    if (this.group) {
+      paths.forEach(path => this.group!.paths.add(path));
+      this.group.steps.push(step);
+      this.group.bytes += bytes;
+      return;
+    }
+
+    this.push({ info: this.createInfo(operation, paths), steps: [step], bytes });
+  }
+
+  /** 開始群組（可巢狀，最外層結束時才成為單一項目） */
+  beginGroup(name: string): void {
+    if (this.group) {
+      this.group.depth++;
+      return;
+    }
+
+    this.group = { name, depth: 1, paths: new Set(), steps: [], bytes: 0 };
+  }
+
+  /** 結束群組 */
+  endGroup(): void {
+    const group = this.group;
+
+    if (!group) {
+      throw new Error('No history group is open');
+    }
+
+    if (--group.depth > 0) {
+      return;
+    }
+
+    this.group = null;
+
+    if (group.steps.length > 0) {
+      const info = { ...this.createInfo('group', [...group.paths]), name: group.name };
+      this.push({ info, steps: group.steps, bytes: group.bytes });
+    }
+  }
+
+  /** 取出要復原的項目（移至可重做） */
+  undo(): HistoryStep[] | undefined {
+    return this.move(this.undoStack, this.redoStack)?.steps;
+  }
+
+  /** 取出要重做的項目（移回可復原） */
+  redo(): HistoryStep[] | undefined {
+    return this.move(this.redoStack, this.undoStack)?.steps;
+  }
+
+  /** 依時間順序列出項目 */
+  list(): HistoryEntry[] {
+    return [
+      ...this.undoStack.map(entry => ({ ...entry.info, paths: [...entry.info.paths], undone: false })),
+      ...[...this.redoStack].reverse().map(entry => ({ ...entry.info, paths: [...entry.info.paths], undone: true })),
+    ];
+  }
+
+  /** 清除所有項目與進行中的群組 */
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack = [];
+    this.group = null;
+    this.totalBytes = 0;
+  }
+
+  /** 建立項目資訊 */
+  private createInfo(operation: HistoryOperation, paths: string[]): Omit<HistoryEntry, 'undone'> {
+    return { id: ++this.counter, operation, paths, timestamp: new Date() };
+  }
+
+  /** 加入新項目，清除可重做的項目並依上限捨棄最舊的項目 */
+  private push(entry: JournalEntry): void {
+    for (const dropped of this.redoStack) {
+      this.totalBytes -= dropped.bytes;
+    }
+    this.redoStack = [];
+
+    this.undoStack.push(entry);
+    this.totalBytes += entry.bytes;
+
+    while (
+      this.undoStack.length > 0 &&
+      (this.undoStack.length > this.limits.maxEntries || this.totalBytes > this.limits.maxBytes)
+    ) {
+      this.totalBytes -= this.undoStack.shift()!.bytes;
+    }
+  }
+
+  /** 將最上方的項目從一個堆疊移到另一個 */
+  private move(from: JournalEntry[], to: JournalEntry[]): JournalEntry | undefined {
+    const entry = from.pop();
+
+    if (entry) {
+      to.push(entry);
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * 建議式檔案鎖
+ * 管理整個檔案的 flock 鎖與位元組範圍鎖、等待佇列與死結偵測
+ */
+
+import type { LockInfo, LockOwner } from '../types/index.js';
+import type { VFSInode } from './vfs-inode.js';
+import { BadFileDescriptorError, DeadlockError, LockConflictError } from '../errors/file-system-errors.js';
+
+/** 鎖的紀錄（範圍為 [start, end)，end 為 Infinity 表示延伸至檔案結尾之後） */
+export interface LockRecord {
+  /** 鎖的種類 */
+  kind: LockInfo['kind'];
+  /** 擁有者 */
+  owner: LockOwner;
+  /** 取得鎖的檔案描述符 */
+  fd: number;
+  /** 是否為獨占鎖 */
+  exclusive: boolean;
+  /** 起始位置 */
+  start: number;
+  /** 結束位置（不含） */
+  end: number;
+}
+
+/** 等待中的鎖請求 */
+interface PendingLock {
+  /** 鎖定的 inode */
+  inode: VFSInode;
+  /** 請求的鎖 */
+  record: LockRecord;
+  /** 取得鎖 */
+  resolve: () => void;
+  /** 放棄等待 */
+  reject: (error: Error) => void;
+}
+
+/** 兩個範圍是否重疊 */
+function overlaps(a: LockRecord, b: LockRecord): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/** 兩個鎖是否衝突（同種類、不同擁有者、範圍重疊且至少一方為獨占） */
+function conflicting(a: LockRecord, b: LockRecord): boolean {
+  return a.kind === b.kind && a.owner !== b.owner && (a.exclusive || b.exclusive) && overlaps(a, b);
+}
+
+/** 鎖管理器 */
+export class LockManager {
+  /** 各 inode 持有的鎖（硬連結共享同一組鎖） */
+  private readonly held: Map<VFSInode, LockRecord[]> = new Map();
+
+  /** 等待中的請求（依請求順序） */
+  private pending: PendingLock[] = [];
+
+  /**
+   * 取得鎖；無法立即取得時，wait 為 false 拋出 LockConflictError，
+   * 等待會造成死結時拋出 DeadlockError，否則回傳取得鎖後才完成的 Promise
+   * 與 flock(2) 相同，轉換同一描述符的 flock 鎖時先釋放原本的鎖，等待期間不保留
+   */
+  acquire(inode: VFSInode, path: string, record: LockRecord, wait: boolean): Promise<void> {
+    if (record.kind === 'flock' && this.list(inode).some(held => held.kind === 'flock' && held.fd === record.fd)) {
+      this.release(inode, record);
+    }
+
+    const blockers = this.blockers(inode, record, this.pending);
+
+    if (blockers.length === 0) {
+      this.grant(inode, record);
+      return Promise.resolve();
+    }
+
+    if (!wait) {
+      throw new LockConflictError(path);
+    }
+
+    if (this.wouldDeadlock(record.owner, blockers)) {
+      throw new DeadlockError(path);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ inode, record, resolve, reject });
+    });
+  }
+
+  /** 釋放擁有者在範圍內的鎖（flock 鎖依檔案描述符釋放） */
+  release(inode: VFSInode, record: LockRecord): void {
+    const records = this.held.get(inode) ?? [];
+    this.setRecords(inode, this.subtract(records, record));
+    this.wakeWaiters();
+  }
+
+  /** 釋放檔案描述符持有的鎖，並取消其等待中的請求 */
+  releaseDescriptor(fd: number): void {
+    for (const [inode, records] of this.held) {
+      this.setRecords(inode, records.filter(r => r.fd !== fd));
+    }
+
+    this.rejectPending(p => p.record.fd === fd);
+    this.wakeWaiters();
+  }
+
+  /** 列出 inode 上持有的鎖 */
+  list(inode: VFSInode): LockRecord[] {
+    return [...(this.held.get(inode) ?? [])];
+  }
+
+  /** 釋放所有鎖並取消所有等待中的請求 */
+  clear(): void {
+    this.held.clear();
+    this.rejectPending(() => true);
+  }
+
+  /**
+   * 阻擋請求的鎖：衝突的持有鎖，以及排在前面且衝突的等待中獨占請求
+   * （後來的共享請求不會插隊到等待中的獨占請求之前，避免獨占請求一直等不到）
+   */
+  private blockers(inode: VFSInode, record: LockRecord, queued: PendingLock[]): LockRecord[] {
+    const held = (this.held.get(inode) ?? []).filter(lock => conflicting(lock, record));
+    const waiting = queued
+      .filter(request => request.inode === inode && request.record.exclusive && conflicting(request.record, record))
+      .map(request => request.record);
+
+    return [...held, ...waiting];
+  }
+
+  /** 套用鎖：flock 取代同一描述符的鎖，範圍鎖取代同一擁有者在範圍內的鎖 */
+  private grant(inode: VFSInode, record: LockRecord): void {
+    const remaining = this.subtract(this.held.get(inode) ?? [], record);
+    const merged = { ...record };
+    const result: LockRecord[] = [];
+
+    // 合併同一擁有者與描述符相鄰或重疊的同類型範圍鎖
+    for (const held of remaining) {
+      if (
+        record.kind === 'range' &&
+        held.kind === 'range' &&
+        held.owner === record.owner &&
+        held.fd === record.fd &&
+        held.exclusive === record.exclusive &&
+        held.start <= merged.end &&
+        merged.start <= held.end
+      ) {
+        merged.start = Math.min(merged.start, held.start);
+        merged.end = Math.max(merged.end, held.end);
+      } else {
+        result.push(held);
+      }
+    }
+
+    result.push(merged);
+    this.setRecords(inode, result);
+  }
+
+  /** 移除擁有者在範圍內的鎖（範圍鎖會被切分，flock 鎖依描述符整個移除） */
+  private subtract(records: LockRecord[], range: LockRecord): LockRecord[] {
+    const result: LockRecord[] = [];
+
+    for (const held of records) {
+      if (held.kind !== range.kind) {
+        result.push(held);
+      } else if (held.kind === 'flock') {
+        if (held.fd !== range.fd) {
+          result.push(held);
+        }
+      } else if (held.owner !== range.owner || !overlaps(held, range)) {
+        result.push(held);
+      } else {
+        if (held.start < range.start) {
+          result.push({ ...held, end: range.start });
+        }
+        if (range.end < held.end) {
+          result.push({ ...held, start: range.end });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** 更新 inode 持有的鎖（沒有鎖時移除項目） */
+  private setRecords(inode: VFSInode, records: LockRecord[]): void {
+    if (records.length > 0) {
+      this.held.set(inode, records);
+    } else {
+      this.held.delete(inode);
+    }
+  }
+
+  /** 依請求順序授予已不再被阻擋的等待請求（仍在等待的獨占請求會阻擋其後衝突的請求） */
+  private wakeWaiters(): void {
+    const waiting = this.pending;
+    this.pending = [];
+
+    for (const request of waiting) {
+      if (this.blockers(request.inode, request.record, this.pending).length === 0) {
+        this.grant(request.inode, request.record);
+        request.resolve();
+      } else {
+        this.pending.push(request);
+      }
+    }
+  }
+
+  /** 取消符合條件的等待請求 */
+  private rejectPending(predicate: (request: PendingLock) => boolean): void {
+    const rejected = this.pending.filter(predicate);
+    this.pending = this.pending.filter(request => !predicate(request));
+
+    for (const request of rejected) {
+      request.reject(new BadFileDescriptorError(request.record.fd));
+    }
+  }
+
+  /** 沿著等待關係（等待者 → 持有衝突鎖的擁有者）檢查是否會回到請求者 */
+  private wouldDeadlock(owner: LockOwner, blockers: LockRecord[]): boolean {
+    const visited = new Set<LockOwner>();
+    const stack = blockers.map(r => r.owner);
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+
+      if (current === owner) {
+        return true;
+      }
+      if (visited.has(current)) {
+        continue;
+      }
+      visited.add(current);
+
+      this.pending.forEach((request, index) => {
+        if (request.record.owner === current) {
+          const queued = this.pending.slice(0, index);
+          stack.push(...this.blockers(request.inode, request.record, queued).map(r => r.owner));
+        }
+      });
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * POSIX 權限判斷
+ * 依節點的 mode、uid、gid 與執行身分計算存取權限
+ */
+
+import type { VFSCredentials } from '../types/index.js';
+import { AccessMode } from '../types/index.js';
+import type { VFSNode } from './vfs-node.js';
+
+/** root 使用者 ID */
+const ROOT_UID = 0;
+
+/** sticky bit */
+export const STICKY_BIT = 0o1000;
+
+/** 任一身分的執行位元 */
+const ANY_EXECUTE = 0o111;
+
+/** 是否為 root */
+export function isRoot(credentials: VFSCredentials): boolean {
+  return credentials.uid === ROOT_UID;
+}
+
+/** 是否屬於指定群組 */
+export function inGroup(credentials: VFSCredentials, gid: number): boolean {
+  return credentials.gid === gid || (credentials.groups?.includes(gid) ?? false);
+}
+
+/** 檢查執行身分是否具有指定的存取權限 */
+export function hasPermission(node: VFSNode, credentials: VFSCredentials, access: number): boolean {
+  if (access === AccessMode.Exists) {
+    return true;
+  }
+
+  // root 不受讀寫限制，但檔案仍需至少一個執行位元才可執行
+  if (isRoot(credentials)) {
+    return !(access & AccessMode.Execute) || node.isDirectory || (node.mode & ANY_EXECUTE) !== 0;
+  }
+
+  let granted: number;
+
+  if (node.uid === credentials.uid) {
+    granted = (node.mode >> 6) & 0o7;
+  } else if (inGroup(credentials, node.gid)) {
+    granted = (node.mode >> 3) & 0o7;
+  } else {
+    granted = node.mode & 0o7;
+  }
+
+  return (granted & access) === access;
+}
+
+/** 檢查 sticky bit 目錄中的項目是否可由執行身分移除或取代 */
+export function canRemoveEntry(dir: VFSNode, entry: VFSNode, credentials: VFSCredentials): boolean {
+  if (!(dir.mode & STICKY_BIT) || isRoot(credentials)) {
+    return true;
+  }
+
+  return entry.uid === credentials.uid || dir.uid === credentials.uid;
+}
@@ -0,0 +1,71 @@
+/**
+ * VFS 目錄串流
+ * 與 fs.Dir 相同，逐一讀取目錄項目而不建立完整陣列
+ */
+
+import type { DirectoryEntry } from '../types/index.js';
+import { DirectoryClosedError } from '../errors/file-system-errors.js';
+
+/** VFS 目錄串流（由 VirtualFileSystem.opendir 建立） */
+export class VFSDir {
+  /** 開啟時傳入的目錄路徑 */
+  readonly path: string;
+
+  /** 目錄項目來源 */
+  private readonly iterator: Iterator<DirectoryEntry>;
+
+  /** 是否已關閉 */
+  private closed = false;
+
+  constructor(path: string, entries: Iterator<DirectoryEntry>) {
+    this.path = path;
+    this.iterator = entries;
+  }
+
+  /** 讀取下一個項目（沒有更多項目時回傳 null） */
+  async read(): Promise<DirectoryEntry | null> {
+    return this.readSync();
+  }
+
+  /** 讀取下一個項目（同步） */
+  readSync(): DirectoryEntry | null {
+    this.assertOpen();
+    const result = this.iterator.next();
+    return result.done ? null : result.value;
+  }
+
+  /** 關閉目錄串流 */
+  async close(): Promise<void> {
+    this.closeSync();
+  }
+
+  /** 關閉目錄串流（同步） */
+  closeSync(): void {
+    this.assertOpen();
+    this.closed = true;
+    this.iterator.return?.();
+  }
+
+  /** 以 for await 逐一讀取項目，結束或中斷時自動關閉 */
+  async *[Symbol.asyncIterator](): AsyncGenerator<DirectoryEntry> {
+    try {
+      let entry = this.readSync();
+
+      while (entry !== null) {
+        yield entry;
+        entry = this.readSync();
+      }
+    } finally {
+      if (!this.closed) {
+        this.closeSync();
+      }
+    }
+  }
+
+  /** 確認尚未關閉 */
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new DirectoryClosedError(this.path);
+    }
+  }
+}
@@ -4,19 +4,87 @@
 
 import { VFSNode } from './vfs-node.js';
 import { VFSNodeType } from '../types/index.js';
+import { VFSInode } from './vfs-inode.js';
+import type { InodeMap } from './vfs-inode.js';
+import type { NamePolicy } from '../path/name-policy.js';
+import type { FrozenNode } from './frozen-tree.js';
 
 /** 預設目錄模式 */
 const DEFAULT_DIRECTORY_MODE = 0o755;
 
+/** 子樹的儲存空間計數（含目錄自身；同一 inode 的硬連結只計一次） */
+export interface StorageCounters {
+  /** 檔案內容位元組 */
+  bytes: number;
+  /** inode 數量 */
+  inodes: number;
+  /** 與其他目錄項目共享 inode 的檔案項目數量 */
+  links: number;
+}
+
 /** VFS 目錄節點 */
 export class VFSDirectory extends VFSNode {
   readonly type = VFSNodeType.Directory;
 
-  /** 子節點 */
-  private readonly children: Map<string, VFSNode> = new Map();
+  /** 子節點（以比對鍵索引，節點保留原始名稱） */
+  private readonly childMap: Map<string, VFSNode> = new Map();
+
+  /** 尚未建立子節點的凍結狀態與還原函式（見 defer） */
+  private deferred: { frozen: FrozenNode; thaw: (child: FrozenNode) => VFSNode } | undefined;
+
+  /** 名稱規則（未設定時依原字串比對） */
+  readonly namePolicy: NamePolicy | undefined;
+
+  /** 子樹的儲存空間計數（新增或移除子節點、檔案大小變更時更新） */
+  readonly storage: StorageCounters = { bytes: 0, inodes: 1, links: 0 };
+
+  constructor(name: string, mode: number = DEFAULT_DIRECTORY_MODE, namePolicy?: NamePolicy) {
+    super(name, new VFSInode(mode));
+    this.namePolicy = namePolicy;
+  }
+
+  /** 子節點（延遲建立的子節點在第一次存取時建立） */
+  private get children(): Map<string, VFSNode> {
+    if (this.deferred) {
+      const { frozen, thaw } = this.deferred;
+      this.deferred = undefined;
+
+      // 子樹內沒有硬連結，計數已由凍結的狀態取得，直接放入子節點不需重新計算
+      for (const [key, child] of frozen.children!) {
+        const node = thaw(child);
+        node.parent = this;
+        this.childMap.set(key, node);
+      }
+    }
+
+    return this.childMap;
+  }
+
+  /**
+   * 延遲建立子節點：第一次存取子節點時才以 thaw 由凍結的狀態建立
+   * 僅用於子樹內沒有硬連結的目錄，儲存空間計數直接沿用凍結時的值
+   */
+  defer(frozen: FrozenNode, thaw: (child: FrozenNode) => VFSNode): void {
+    this.deferred = { frozen, thaw };
+    Object.assign(this.storage, frozen.storage);
+  }
 
-  constructor(name: string, mode: number = DEFAULT_DIRECTORY_MODE) {
-    super(name, mode);
+  /** 子節點的比對鍵 */
+  private keyOf(name: string): string {
+    return this.namePolicy ? this.namePolicy.key(name) : name;
+  }
+
+  /** 硬連結數量（自身、父目錄中的項目與每個子目錄的 ..） */
+  override get nlink(): number {
+    let subdirectories = 0;
+
+    for (const child of this.children.values()) {
+      if (child.isDirectory) {
+        subdirectories++;
+      }
+    }
+
+    return 2 + subdirectories;
   }
 
   /** 取得大小（子節點數量 * 4096，模擬目錄大小） */
@@ -37,34 +105,60 @@ export class VFSDirectory extends VFSNode {
   /** 取得子節點 */
   getChild(name: string): VFSNode | undefined {
     this.touch();
-    return this.children.get(name);
+    return this.children.get(this.keyOf(name));
   }
 
   /** 檢查子節點是否存在 */
   hasChild(name: string): boolean {
-    return this.children.has(name);
+    return this.children.has(this.keyOf(name));
   }
 
-  /** 新增子節點 */
+  /** 新增子節點（名稱依名稱規則轉為儲存形式） */
   addChild(node: VFSNode): void {
-    this.children.set(node.name, node);
+    if (this.namePolicy) {
+      node.rename(this.namePolicy.store(node.name));
+    }
+
+    const key = this.keyOf(node.name);
+    const replaced = this.children.get(key);
+
+    if (replaced !== node) {
+      if (replaced) {
+        this.updateStorage(replaced, -1);
+        if (replaced.parent === this) {
+          replaced.parent = undefined;
+        }
+      }
+      this.updateStorage(node, 1);
+    }
+
+    this.children.set(key, node);
+    node.parent = this;
     this.markModified();
   }
 
   /** 移除子節點 */
   removeChild(name: string): boolean {
-    const result = this.children.delete(name);
+    const key = this.keyOf(name);
+    const node = this.children.get(key);
+
+    if (!node) {
+      return false;
+    }
 
-    if (result) {
-      this.markModified();
+    this.updateStorage(node, -1);
+    this.children.delete(key);
+    if (node.parent === this) {
+      node.parent = undefined;
     }
+    this.markModified();
 
-    return result;
+    return true;
   }
 
   /** 取得所有子節點名稱 */
   getChildNames(): string[] {
-    return Array.from(this.children.keys());
+    return Array.from(this.children.values(), node => node.name);
   }
 
   /** 取得所有子節點 */
@@ -73,25 +167,154 @@ export class VFSDirectory extends VFSNode {
     return Array.from(this.children.values());
   }
 
+  /** 依序迭代子節點（不複製子節點列表，迭代期間的新增與刪除會反映在結果中） */
+  *iterateChildren(): IterableIterator<VFSNode> {
+    this.touch();
+    yield* this.children.values();
+  }
+
   /** 迭代子節點 */
   *entries(): IterableIterator<[string, VFSNode]> {
-    yield* this.children.entries();
+    for (const node of this.children.values()) {
+      yield [node.name, node];
+    }
   }
 
-  /** 深拷貝 */
-  clone(): VFSDirectory {
-    const cloned = new VFSDirectory(this.name, this.mode);
-    cloned.uid = this.uid;
-    cloned.gid = this.gid;
-    (cloned as { createdTime: Date }).createdTime = new Date(this.createdTime);
-    cloned.modifiedTime = new Date(this.modifiedTime);
-    cloned.accessedTime = new Date(this.accessedTime);
+  /** 深拷貝（子樹內的硬連結保持共享） */
+  clone(inodes: InodeMap = new Map()): VFSDirectory {
+    const cloned = new VFSDirectory(this.name, DEFAULT_DIRECTORY_MODE, this.namePolicy);
 
     // 深拷貝子節點
-    for (const [name, node] of this.children) {
-      cloned.children.set(name, node.clone());
+    for (const [key, node] of this.children) {
+      const child = node.clone(inodes);
+      child.parent = cloned;
+      cloned.children.set(key, child);
     }
 
+    // 子樹結構相同，位元組與 inode 數量沿用；共享標記依複本內的硬連結重新計算
+    cloned.storage.bytes = this.storage.bytes;
+    cloned.storage.inodes = this.storage.inodes;
+    cloned.storage.links = 0;
+    for (const child of cloned.children.values()) {
+      cloned.storage.links += linksOf(child);
+    }
+
+    this.inode.copyMetadataTo(cloned.inode);
+
     return cloned;
   }
+
+  /**
+   * 以子節點的計數更新此目錄與上層目錄
+   * 子節點內有與子節點外共享的 inode 時，已包含子節點外項目的目錄不重複計算
+   */
+  private updateStorage(node: VFSNode, sign: 1 | -1): void {
+    const { bytes, inodes } = storageOf(node);
+    const links = linksOf(node);
+    const shared = links > 0 ? sharedStorage(node) : undefined;
+
+    for (let dir: VFSDirectory | undefined = this; dir; dir = dir.parent) {
+      const overlap = shared?.get(dir);
+      dir.storage.bytes += sign * (bytes - (overlap?.bytes ?? 0));
+      dir.storage.inodes += sign * (inodes - (overlap?.inodes ?? 0));
+      dir.storage.links += sign * links;
+    }
+  }
+
+  /** 凍結目前的狀態（未變更的子樹沿用先前凍結的物件） */
+  freeze(): FrozenNode {
+    if (!this.frozen) {
+      const children = new Map<string, FrozenNode>();
+      let fileCount = 0;
+      let directoryCount = 1;
+      let totalSize = 0;
+
+      for (const [key, node] of this.children) {
+        const child = node.freeze();
+        children.set(key, child);
+        fileCount += child.counts.fileCount;
+        directoryCount += child.counts.directoryCount;
+        totalSize += child.counts.totalSize;
+      }
+
+      this.frozen = {
+        type: this.type,
+        name: this.name,
+        inode: this.inode.freeze(),
+        children,
+        counts: { fileCount, directoryCount, totalSize },
+        storage: { ...this.storage },
+      };
+    }
+
+    return this.frozen;
+  }
+}
+
+/** 節點（含子樹）使用的位元組與 inode 數量（硬連結只計一次） */
+export function storageOf(node: VFSNode): { bytes: number; inodes: number } {
+  if (node instanceof VFSDirectory) {
+    return { bytes: node.storage.bytes, inodes: node.storage.inodes };
+  }
+
+  return { bytes: node.isFile ? node.size : 0, inodes: 1 };
+}
+
+/** 節點（含子樹）中與其他項目共享 inode 的檔案項目數量 */
+function linksOf(node: VFSNode): number {
+  return node instanceof VFSDirectory ? node.storage.links : Number(node.linked);
+}
+
+/** 節點是否位於另一個節點的子樹內（含自身） */
+function isWithin(node: VFSNode, ancestor: VFSNode): boolean {
+  for (let current: VFSNode | undefined = node; current; current = current.parent) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/** 收集子樹內共享的 inode 與檔案大小（只進入含共享項目的目錄） */
+function collectLinkedInodes(node: VFSNode, inodes: Map<VFSInode, number>): void {
+  if (node instanceof VFSDirectory) {
+    if (node.storage.links > 0) {
+      for (const [, child] of node.entries()) {
+        collectLinkedInodes(child, inodes);
+      }
+    }
+  } else if (node.linked) {
+    inodes.set(node.inode, node.size);
+  }
+}
+
+/** 子樹內與子樹外項目共享的 inode，依包含子樹外項目的目錄彙整 */
+function sharedStorage(node: VFSNode): Map<VFSDirectory, { bytes: number; inodes: number }> {
+  const inodes = new Map<VFSInode, number>();
+  const shared = new Map<VFSDirectory, { bytes: number; inodes: number }>();
+  collectLinkedInodes(node, inodes);
+
+  for (const [inode, size] of inodes) {
+    const containing = new Set<VFSDirectory>();
+
+    for (const entry of inode.entries) {
+      if (isWithin(entry, node)) {
+        continue;
+      }
+
+      for (let dir = entry.parent; dir && !containing.has(dir); dir = dir.parent) {
+        containing.add(dir);
+      }
+    }
+
+    for (const dir of containing) {
+      const overlap = shared.get(dir) ?? { bytes: 0, inodes: 0 };
+      overlap.bytes += size;
+      overlap.inodes++;
+      shared.set(dir, overlap);
+    }
+  }
+
+  return shared;
 }
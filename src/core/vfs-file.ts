@@ -4,6 +4,9 @@
 
 import { VFSNode } from './vfs-node.js';
 import { VFSNodeType } from '../types/index.js';
+import { VFSFileInode } from './vfs-inode.js';
+import type { InodeMap } from './vfs-inode.js';
+import type { FrozenNode } from './frozen-tree.js';
 
 /** 預設檔案模式 */
 const DEFAULT_FILE_MODE = 0o644;
@@ -12,17 +15,37 @@ const DEFAULT_FILE_MODE = 0o644;
 export class VFSFile extends VFSNode {
   readonly type = VFSNodeType.File;
 
-  /** 檔案內容 */
-  private content: Buffer;
+  /** 檔案 inode（內容與中繼資料） */
+  declare readonly inode: VFSFileInode;
 
-  constructor(name: string, content: string | Buffer = Buffer.alloc(0), mode: number = DEFAULT_FILE_MODE) {
-    super(name, mode);
-    this.content = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  /** 傳入既有 inode 時建立共享該 inode 的目錄項目 */
+  constructor(name: string, content: string | Buffer | VFSFileInode = Buffer.alloc(0), mode: number = DEFAULT_FILE_MODE) {
+    super(name, content instanceof VFSFileInode
+      ? content
+      : new VFSFileInode(typeof content === 'string' ? Buffer.from(content, 'utf-8') : Buffer.from(content), mode));
+  }
+
+  /** 內容緩衝區（容量可能大於實際長度） */
+  private get content(): Buffer {
+    return this.inode.content;
+  }
+
+  private set content(content: Buffer) {
+    this.inode.content = content;
+  }
+
+  /** 實際內容長度 */
+  private get length(): number {
+    return this.inode.length;
+  }
+
+  private set length(length: number) {
+    this.inode.length = length;
   }
 
   /** 取得大小 */
   get size(): number {
-    return this.content.length;
+    return this.length;
   }
 
   /** 讀取內容 */
@@ -30,44 +53,112 @@ export class VFSFile extends VFSNode {
     this.touch();
 
     if (encoding) {
-      return this.content.toString(encoding);
+      return this.content.toString(encoding, 0, this.length);
+    }
+
+    return Buffer.from(this.content.subarray(0, this.length));
+  }
+
+  /** 從指定位置讀取內容到目標緩衝區，回傳讀取的位元組數 */
+  readAt(target: Buffer, offset: number, length: number, position: number): number {
+    this.touch();
+
+    if (position >= this.length) {
+      return 0;
     }
 
-    return Buffer.from(this.content);
+    const end = Math.min(position + length, this.length);
+    return this.content.copy(target, offset, position, end);
   }
 
   /** 寫入內容 */
   write(data: string | Buffer): void {
     this.content = typeof data === 'string' ? Buffer.from(data, 'utf-8') : Buffer.from(data);
+    this.length = this.content.length;
+    this.markModified();
+  }
+
+  /** 在指定位置寫入內容（超出結尾時自動延伸，空隙補零） */
+  writeAt(data: Buffer, position: number): void {
+    const end = position + data.length;
+    this.ensureCapacity(end);
+
+    if (position > this.length) {
+      this.content.fill(0, this.length, position);
+    }
+
+    data.copy(this.content, position);
+    this.length = Math.max(this.length, end);
     this.markModified();
   }
 
   /** 追加內容 */
   append(data: string | Buffer): void {
     const appendBuffer = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
-    this.content = Buffer.concat([this.content, appendBuffer]);
-    this.markModified();
+    this.writeAt(appendBuffer, this.length);
   }
 
-  /** 截斷內容 */
+  /** 截斷或延伸內容（延伸部分補零） */
   truncate(length: number = 0): void {
-    if (length >= this.content.length) {
+    if (length === this.length) {
       return;
     }
 
-    this.content = this.content.subarray(0, length);
+    if (length > this.length) {
+      this.ensureCapacity(length);
+      this.content.fill(0, this.length, length);
+    }
+
+    this.length = length;
     this.markModified();
   }
 
+  /** 建立指向同一 inode 的硬連結 */
+  createLink(name: string): VFSFile {
+    this.inode.nlink++;
+    this.markChanged();
+    return new VFSFile(name, this.inode);
+  }
+
   /** 深拷貝 */
-  clone(): VFSFile {
-    const cloned = new VFSFile(this.name, Buffer.from(this.content), this.mode);
-    cloned.uid = this.uid;
-    cloned.gid = this.gid;
-    // 時間屬性需要重新賦值（因為 readonly 是在 constructor 設定的）
-    (cloned as { createdTime: Date }).createdTime = new Date(this.createdTime);
-    cloned.modifiedTime = new Date(this.modifiedTime);
-    cloned.accessedTime = new Date(this.accessedTime);
-    return cloned;
+  clone(inodes: InodeMap = new Map()): VFSFile {
+    const shared = inodes.get(this.inode);
+
+    if (shared) {
+      shared.nlink++;
+      return new VFSFile(this.name, shared as VFSFileInode);
+    }
+
+    const inode = this.inode.clone();
+    inodes.set(this.inode, inode);
+    return new VFSFile(this.name, inode);
+  }
+
+  /** 凍結目前的狀態 */
+  freeze(): FrozenNode {
+    this.frozen ??= {
+      type: this.type,
+      name: this.name,
+      inode: this.inode.freeze(),
+      counts: { fileCount: 1, directoryCount: 0, totalSize: this.size },
+    };
+    return this.frozen;
+  }
+
+  /**
+   * 確保緩衝區可以就地寫入到指定長度
+   * 容量不足時以倍數成長（避免逐次寫入時反覆複製），與其他 inode 或快照共享時先複製
+   */
+  private ensureCapacity(required: number): void {
+    if (required <= this.content.length && !this.inode.contentShared) {
+      return;
+    }
+
+    const capacity = required > this.content.length
+      ? Math.max(required, this.content.length * 2)
+      : Math.max(required, this.length);
+    const grown = Buffer.alloc(capacity);
+    this.content.copy(grown, 0, 0, this.length);
+    this.content = grown;
   }
 }
@@ -0,0 +1,343 @@
+/**
+ * VFS inode
+ * 保存節點的中繼資料（與檔案內容），可由多個目錄項目（硬連結）共享
+ */
+
+import type { TimeLike } from '../types/index.js';
+import type { VFSNode } from './vfs-node.js';
+import type { VFSDirectory } from './vfs-directory.js';
+
+/** 下一個可用的 inode 編號 */
+let nextIno = 1;
+
+/** 每毫秒的奈秒數 */
+const NS_PER_MS = 1_000_000n;
+
+/** 每秒的奈秒數 */
+const NS_PER_SECOND = 1_000_000_000n;
+
+/** 上一次取得時間時的毫秒值 */
+let lastMs = 0;
+
+/** 同一毫秒內的序號 */
+let sequence = 0n;
+
+/** 取得目前時間（奈秒）；同一毫秒內的連續呼叫會遞增，讓先後發生的變更可以區分 */
+export function currentTimeNs(): bigint {
+  const ms = Date.now();
+
+  if (ms === lastMs) {
+    sequence++;
+  } else {
+    lastMs = ms;
+    sequence = 0n;
+  }
+
+  return BigInt(ms) * NS_PER_MS + sequence;
+}
+
+/** Date 轉奈秒 */
+export function dateToNs(date: Date): bigint {
+  return BigInt(date.getTime()) * NS_PER_MS;
+}
+
+/** 時間參數轉奈秒 */
+export function timeToNs(time: TimeLike): bigint {
+  if (time instanceof Date) {
+    return dateToNs(time);
+  }
+
+  const value = typeof time === 'string' ? Number(time) : time;
+
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`Invalid time: ${time}`);
+  }
+
+  const seconds = Math.trunc(value);
+  return BigInt(seconds) * NS_PER_SECOND + BigInt(Math.round((value - seconds) * 1e9));
+}
+
+/** 奈秒轉 Date */
+export function nsToDate(ns: bigint): Date {
+  return new Date(Number(ns / NS_PER_MS));
+}
+
+/** 奈秒轉毫秒（含小數） */
+export function nsToMs(ns: bigint): number {
+  return Number(ns) / Number(NS_PER_MS);
+}
+
+/** 凍結的 inode 狀態（不可修改，可由多個快照與目前的樹共享） */
+export interface FrozenInode {
+  /** 凍結時的 inode 編號 */
+  readonly ino: number;
+  /** 凍結時的硬連結數量 */
+  readonly nlink: number;
+  /** 檔案模式 */
+  readonly mode: number;
+  /** 使用者 ID */
+  readonly uid: number;
+  /** 群組 ID */
+  readonly gid: number;
+  /** 建立時間（奈秒） */
+  readonly createdTimeNs: bigint;
+  /** 內容修改時間（奈秒） */
+  readonly modifiedTimeNs: bigint;
+  /** 狀態變更時間（奈秒） */
+  readonly changedTimeNs: bigint;
+  /** 存取時間（奈秒） */
+  readonly accessedTimeNs: bigint;
+  /** 延伸屬性 */
+  readonly xattrs: ReadonlyMap<string, Buffer>;
+  /** 檔案內容（僅檔案，長度即為內容長度） */
+  readonly content?: Buffer;
+}
+
+/** VFS inode */
+export class VFSInode {
+  /** inode 編號 */
+  readonly ino: number;
+
+  /** 硬連結數量 */
+  nlink = 1;
+
+  /** 建立時間（奈秒） */
+  createdTimeNs: bigint;
+
+  /** 內容修改時間（奈秒） */
+  modifiedTimeNs: bigint;
+
+  /** 狀態變更時間（奈秒） */
+  changedTimeNs: bigint;
+
+  /** 存取時間（奈秒） */
+  accessedTimeNs: bigint;
+
+  /** 檔案模式 */
+  mode: number;
+
+  /** 使用者 ID */
+  uid = 0;
+
+  /** 群組 ID */
+  gid = 0;
+
+  /** 延伸屬性（名稱 → 值，依設定順序） */
+  xattrs = new Map<string, Buffer>();
+
+  /** 最近一次凍結的狀態（中繼資料或內容變更時清除；存取時間的變更不會清除） */
+  frozen: FrozenInode | undefined;
+
+  /** 使用此 inode 的目錄項目（硬連結共享同一個 inode） */
+  readonly entries = new Set<VFSNode>();
+
+  constructor(mode: number) {
+    this.ino = nextIno++;
+    this.mode = mode;
+
+    const now = currentTimeNs();
+    this.createdTimeNs = now;
+    this.modifiedTimeNs = now;
+    this.changedTimeNs = now;
+    this.accessedTimeNs = now;
+  }
+
+  /** 建立時間 */
+  get createdTime(): Date {
+    return nsToDate(this.createdTimeNs);
+  }
+
+  set createdTime(time: Date) {
+    this.createdTimeNs = dateToNs(time);
+    this.invalidate();
+  }
+
+  /** 內容修改時間 */
+  get modifiedTime(): Date {
+    return nsToDate(this.modifiedTimeNs);
+  }
+
+  set modifiedTime(time: Date) {
+    this.modifiedTimeNs = dateToNs(time);
+    this.invalidate();
+  }
+
+  /** 狀態變更時間 */
+  get changedTime(): Date {
+    return nsToDate(this.changedTimeNs);
+  }
+
+  set changedTime(time: Date) {
+    this.changedTimeNs = dateToNs(time);
+    this.invalidate();
+  }
+
+  /** 存取時間 */
+  get accessedTime(): Date {
+    return nsToDate(this.accessedTimeNs);
+  }
+
+  set accessedTime(time: Date) {
+    this.accessedTimeNs = dateToNs(time);
+  }
+
+  /** 複製中繼資料到另一個 inode（不含編號與連結數） */
+  copyMetadataTo(target: VFSInode): void {
+    target.mode = this.mode;
+    target.uid = this.uid;
+    target.gid = this.gid;
+    target.createdTimeNs = this.createdTimeNs;
+    target.modifiedTimeNs = this.modifiedTimeNs;
+    target.changedTimeNs = this.changedTimeNs;
+    target.accessedTimeNs = this.accessedTimeNs;
+    this.copyXattrsTo(target);
+  }
+
+  /** 複製延伸屬性到另一個 inode（取代原有屬性，值會另行複製） */
+  copyXattrsTo(target: VFSInode): void {
+    target.xattrs = new Map([...this.xattrs].map(([name, value]) => [name, Buffer.from(value)]));
+    target.invalidate();
+  }
+
+  /** 加入使用此 inode 的目錄項目 */
+  addEntry(entry: VFSNode): void {
+    this.entries.add(entry);
+    this.updateLinkedEntries();
+  }
+
+  /** 移除目錄項目 */
+  removeEntry(entry: VFSNode): void {
+    this.entries.delete(entry);
+    entry.setLinked(false);
+    this.updateLinkedEntries();
+  }
+
+  /** 依目錄項目數量標記各項目是否與其他項目共享此 inode */
+  private updateLinkedEntries(): void {
+    const linked = this.entries.size > 1;
+
+    for (const entry of this.entries) {
+      entry.setLinked(linked);
+    }
+  }
+
+  /** 凍結目前的狀態（未變更前重複呼叫回傳同一個物件） */
+  freeze(): FrozenInode {
+    this.frozen ??= this.freezeMetadata();
+    return this.frozen;
+  }
+
+  /** 套用凍結的中繼資料（不含編號與連結數） */
+  restore(frozen: FrozenInode): void {
+    this.mode = frozen.mode;
+    this.uid = frozen.uid;
+    this.gid = frozen.gid;
+    this.createdTimeNs = frozen.createdTimeNs;
+    this.modifiedTimeNs = frozen.modifiedTimeNs;
+    this.changedTimeNs = frozen.changedTimeNs;
+    this.accessedTimeNs = frozen.accessedTimeNs;
+    this.xattrs = new Map([...frozen.xattrs].map(([name, value]) => [name, Buffer.from(value)]));
+    this.invalidate();
+  }
+
+  /** 清除凍結的狀態，連同使用此 inode 的目錄項目及其上層目錄 */
+  invalidate(): void {
+    this.frozen = undefined;
+
+    for (const entry of this.entries) {
+      entry.invalidateFrozen();
+    }
+  }
+
+  /** 凍結中繼資料（不含檔案內容，也不快取） */
+  freezeMetadata(): FrozenInode {
+    return {
+      ino: this.ino,
+      nlink: this.nlink,
+      mode: this.mode,
+      uid: this.uid,
+      gid: this.gid,
+      createdTimeNs: this.createdTimeNs,
+      modifiedTimeNs: this.modifiedTimeNs,
+      changedTimeNs: this.changedTimeNs,
+      accessedTimeNs: this.accessedTimeNs,
+      xattrs: new Map([...this.xattrs].map(([name, value]) => [name, Buffer.from(value)])),
+    };
+  }
+}
+
+/** 檔案 inode（含內容緩衝區） */
+export class VFSFileInode extends VFSInode {
+  /** 內容緩衝區 */
+  private buffer: Buffer;
+
+  /** 實際內容長度 */
+  private contentLength: number;
+
+  /** 緩衝區是否與複本或凍結的狀態共享（寫入時複製：共享時須先複製才能就地修改） */
+  contentShared = false;
+
+  constructor(content: Buffer, mode: number) {
+    super(mode);
+    this.buffer = content;
+    this.contentLength = content.length;
+  }
+
+  /** 實際內容長度（變更時更新各目錄項目上層目錄的位元組計數，同一目錄只計一次） */
+  get length(): number {
+    return this.contentLength;
+  }
+
+  set length(length: number) {
+    const delta = length - this.contentLength;
+    this.contentLength = length;
+
+    if (delta === 0) {
+      return;
+    }
+
+    const visited = new Set<VFSDirectory>();
+
+    for (const entry of this.entries) {
+      for (let dir = entry.parent; dir && !visited.has(dir); dir = dir.parent) {
+        visited.add(dir);
+        dir.storage.bytes += delta;
+      }
+    }
+  }
+
+  /** 內容緩衝區（容量可能大於實際長度；指定新的緩衝區後不再共享） */
+  get content(): Buffer {
+    return this.buffer;
+  }
+
+  set content(content: Buffer) {
+    this.buffer = content;
+    this.contentShared = false;
+  }
+
+  /** 複製 inode（配置新編號，連結數重設為 1；內容在任一方修改前共享） */
+  clone(): VFSFileInode {
+    const cloned = new VFSFileInode(this.buffer.subarray(0, this.length), this.mode);
+    cloned.contentShared = true;
+    this.contentShared = true;
+    this.copyMetadataTo(cloned);
+    return cloned;
+  }
+
+  /** 凍結目前的狀態（內容與凍結的狀態共享，之後的就地修改會先複製） */
+  override freeze(): FrozenInode {
+    if (!this.frozen) {
+      this.frozen = { ...this.freezeMetadata(), content: this.buffer.subarray(0, this.length) };
+      this.contentShared = true;
+    }
+
+    return this.frozen;
+  }
+}
+
+/** 複製子樹時的 inode 對照表（原 inode → 複製後的 inode），用於保留硬連結共享 */
+export type InodeMap = Map<VFSInode, VFSInode>;
+
+/** 還原凍結的子樹時的 inode 對照表（凍結的 inode → 還原後的 inode），用於保留硬連結共享 */
+export type FrozenInodeMap = Map<FrozenInode, VFSInode>;
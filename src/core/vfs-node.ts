@@ -4,43 +4,119 @@
 
 import type { FileStats } from '../types/index.js';
 import { VFSNodeType } from '../types/index.js';
+import { currentTimeNs, nsToMs } from './vfs-inode.js';
+import type { InodeMap, VFSInode } from './vfs-inode.js';
+import type { VFSDirectory } from './vfs-directory.js';
+import type { FrozenNode } from './frozen-tree.js';
 
-/** VFS 節點基礎類別 */
+/** VFS 節點基礎類別（目錄項目，中繼資料保存在共享的 inode） */
 export abstract class VFSNode {
   /** 節點名稱 */
-  readonly name: string;
+  private nodeName: string;
 
   /** 節點類型 */
   abstract readonly type: VFSNodeType;
 
+  /** inode */
+  readonly inode: VFSInode;
+
+  /** 所在的目錄（尚未加入或已移除時為 undefined） */
+  parent: VFSDirectory | undefined;
+
+  /**
+   * 最近一次凍結的狀態（此項目或子樹變更時清除）
+   * 清除時會一併清除所有上層目錄，因此已凍結目錄的子樹必定都已凍結
+   */
+  frozen: FrozenNode | undefined;
+
+  /** 是否與其他目錄項目共享 inode（計入上層目錄的 storage.links） */
+  private linkedEntry = false;
+
+  constructor(name: string, inode: VFSInode) {
+    this.nodeName = name;
+    this.inode = inode;
+    inode.addEntry(this);
+  }
+
+  /** 節點名稱 */
+  get name(): string {
+    return this.nodeName;
+  }
+
+  /** 變更節點名稱（須先從父目錄移除，再以新名稱加回） */
+  rename(name: string): void {
+    if (name !== this.nodeName) {
+      this.nodeName = name;
+      this.invalidateFrozen();
+    }
+  }
+
+  /** inode 編號 */
+  get ino(): number {
+    return this.inode.ino;
+  }
+
+  /** 硬連結數量 */
+  get nlink(): number {
+    return this.inode.nlink;
+  }
+
   /** 建立時間 */
-  readonly createdTime: Date;
+  get createdTime(): Date {
+    return this.inode.createdTime;
+  }
 
-  /** 修改時間 */
-  modifiedTime: Date;
+  /** 內容修改時間 */
+  get modifiedTime(): Date {
+    return this.inode.modifiedTime;
+  }
+
+  set modifiedTime(time: Date) {
+    this.inode.modifiedTime = time;
+  }
+
+  /** 狀態變更時間（中繼資料或連結變更） */
+  get changedTime(): Date {
+    return this.inode.changedTime;
+  }
 
   /** 存取時間 */
-  accessedTime: Date;
+  get accessedTime(): Date {
+    return this.inode.accessedTime;
+  }
+
+  set accessedTime(time: Date) {
+    this.inode.accessedTime = time;
+  }
 
   /** 檔案模式 */
-  mode: number;
+  get mode(): number {
+    return this.inode.mode;
+  }
+
+  set mode(mode: number) {
+    this.inode.mode = mode;
+    this.inode.invalidate();
+  }
 
   /** 使用者 ID */
-  uid: number;
+  get uid(): number {
+    return this.inode.uid;
+  }
 
-  /** 群組 ID */
-  gid: number;
+  set uid(uid: number) {
+    this.inode.uid = uid;
+    this.inode.invalidate();
+  }
 
-  constructor(name: string, mode: number = 0o644) {
-    this.name = name;
-    this.mode = mode;
-    this.uid = 0;
-    this.gid = 0;
+  /** 群組 ID */
+  get gid(): number {
+    return this.inode.gid;
+  }
 
-    const now = new Date();
-    this.createdTime = now;
-    this.modifiedTime = now;
-    this.accessedTime = now;
+  set gid(gid: number) {
+    this.inode.gid = gid;
+    this.inode.invalidate();
   }
 
   /** 是否為檔案 */
@@ -63,6 +139,8 @@ export abstract class VFSNode {
 
   /** 取得統計資訊 */
   getStats(): FileStats {
+    const { createdTimeNs, modifiedTimeNs, changedTimeNs, accessedTimeNs } = this.inode;
+
     return {
       isFile: this.isFile,
       isDirectory: this.isDirectory,
@@ -71,24 +149,99 @@ export abstract class VFSNode {
       createdTime: this.createdTime,
       modifiedTime: this.modifiedTime,
       accessedTime: this.accessedTime,
+      changedTime: this.changedTime,
+      createdTimeMs: nsToMs(createdTimeNs),
+      modifiedTimeMs: nsToMs(modifiedTimeNs),
+      accessedTimeMs: nsToMs(accessedTimeNs),
+      changedTimeMs: nsToMs(changedTimeNs),
+      createdTimeNs,
+      modifiedTimeNs,
+      accessedTimeNs,
+      changedTimeNs,
       mode: this.mode,
       uid: this.uid,
       gid: this.gid,
+      ino: this.ino,
+      nlink: this.nlink,
     };
   }
 
-  /** 更新存取時間 */
+  /** 更新存取時間（不清除凍結的狀態，快照保留凍結當時的存取時間） */
   touch(): void {
-    this.accessedTime = new Date();
+    this.inode.accessedTimeNs = currentTimeNs();
   }
 
-  /** 更新修改時間 */
+  /** 更新內容修改時間（同時更新狀態變更時間） */
   markModified(): void {
-    const now = new Date();
-    this.modifiedTime = now;
-    this.accessedTime = now;
+    const now = currentTimeNs();
+    this.inode.modifiedTimeNs = now;
+    this.inode.changedTimeNs = now;
+    this.inode.invalidate();
+  }
+
+  /** 更新狀態變更時間（權限、擁有者、連結或名稱變更） */
+  markChanged(): void {
+    this.inode.changedTimeNs = currentTimeNs();
+    this.inode.invalidate();
+  }
+
+  /** 設定存取與修改時間（狀態變更時間更新為目前時間） */
+  setTimes(accessedTimeNs: bigint, modifiedTimeNs: bigint): void {
+    this.inode.accessedTimeNs = accessedTimeNs;
+    this.inode.modifiedTimeNs = modifiedTimeNs;
+    this.markChanged();
+  }
+
+  /** 將所有時間重設為目前時間 */
+  resetTimes(): void {
+    const now = currentTimeNs();
+    this.inode.createdTimeNs = now;
+    this.inode.modifiedTimeNs = now;
+    this.inode.changedTimeNs = now;
+    this.inode.accessedTimeNs = now;
+    this.inode.invalidate();
   }
 
-  /** 深拷貝（由子類別實作） */
-  abstract clone(): VFSNode;
+  /** 移除一個指向此 inode 的連結（須先從目錄移除） */
+  unlink(): void {
+    this.inode.nlink = Math.max(0, this.inode.nlink - 1);
+    this.markChanged();
+    this.inode.removeEntry(this);
+  }
+
+  /** 是否與其他目錄項目共享 inode */
+  get linked(): boolean {
+    return this.linkedEntry;
+  }
+
+  /** 標記是否與其他目錄項目共享 inode，並更新上層目錄的計數 */
+  setLinked(linked: boolean): void {
+    if (linked === this.linkedEntry) {
+      return;
+    }
+
+    this.linkedEntry = linked;
+    // 凍結的目錄記錄儲存空間計數，計數變更時須重新凍結
+    this.invalidateFrozen();
+
+    for (let dir = this.parent; dir; dir = dir.parent) {
+      dir.storage.links += linked ? 1 : -1;
+    }
+  }
+
+  /** 清除此項目與上層目錄的凍結狀態（遇到已清除的節點即停止） */
+  invalidateFrozen(): void {
+    let node: VFSNode | undefined = this;
+
+    while (node?.frozen) {
+      node.frozen = undefined;
+      node = node.parent;
+    }
+  }
+
+  /** 深拷貝（由子類別實作；同一對照表內共享 inode 的節點會保持共享） */
+  abstract clone(inodes?: InodeMap): VFSNode;
+
+  /** 凍結目前的狀態（由子類別實作；未變更的節點與子樹重複呼叫時回傳同一個物件） */
+  abstract freeze(): FrozenNode;
 }
@@ -0,0 +1,220 @@
+/**
+ * VFS 檔案串流
+ * 以 Node.js stream.Readable / stream.Writable 包裝檔案描述符讀寫
+ */
+
+import { Readable, Writable } from 'node:stream';
+import type { OpenFlags } from '../types/index.js';
+
+/** 預設讀取區塊大小（64 KiB） */
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024;
+
+/** 讀取串流底層 IO 操作（由 VirtualFileSystem 提供） */
+export interface ReadStreamIO {
+  /** 開啟檔案 */
+  open(flags: OpenFlags): number;
+  /** 讀取 */
+  read(fd: number, buffer: Buffer, offset: number, length: number, position: number): number;
+  /** 關閉 */
+  close(fd: number): void;
+}
+
+/** 寫入串流底層 IO 操作（由 VirtualFileSystem 提供） */
+export interface WriteStreamIO {
+  /** 開啟檔案 */
+  open(flags: OpenFlags): number;
+  /** 寫入 */
+  write(fd: number, data: Buffer, position: number | null): number;
+  /** 關閉 */
+  close(fd: number): void;
+  /** 寫入完成後的通知 */
+  finish(): void;
+}
+
+/** 讀取串流選項 */
+export interface ReadStreamOptions {
+  /** 起始位置（含） */
+  start?: number;
+  /** 結束位置（含） */
+  end?: number;
+  /** 每次讀取的區塊大小 */
+  highWaterMark?: number;
+  /** 輸出編碼 */
+  encoding?: BufferEncoding;
+}
+
+/** 寫入串流選項 */
+export interface WriteStreamOptions {
+  /** 開啟旗標（預設 w） */
+  flags?: OpenFlags;
+  /** 起始寫入位置 */
+  start?: number;
+  /** 緩衝區上限 */
+  highWaterMark?: number;
+}
+
+/** VFS 讀取串流 */
+export class VFSReadStream extends Readable {
+  /** 檔案路徑 */
+  readonly path: string;
+
+  /** 已讀取的位元組數 */
+  bytesRead = 0;
+
+  /** 檔案描述符 */
+  private fd: number | null = null;
+
+  /** 下一次讀取位置 */
+  private position: number;
+
+  /** 結束位置（含） */
+  private readonly end: number;
+
+  /** 底層 IO */
+  private readonly io: ReadStreamIO;
+
+  constructor(path: string, io: ReadStreamIO, options?: ReadStreamOptions) {
+    super({
+      highWaterMark: options?.highWaterMark ?? DEFAULT_HIGH_WATER_MARK,
+      encoding: options?.encoding,
+    });
+    this.path = path;
+    this.io = io;
+    this.position = options?.start ?? 0;
+    this.end = options?.end ?? Infinity;
+  }
+
+  override _construct(callback: (error?: Error | null) => void): void {
+    try {
+      this.fd = this.io.open('r');
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _read(size: number): void {
+    const remaining = this.end - this.position + 1;
+
+    if (remaining <= 0) {
+      this.push(null);
+      return;
+    }
+
+    try {
+      const length = Math.min(size, remaining);
+      const buffer = Buffer.alloc(length);
+      const bytesRead = this.io.read(this.fd!, buffer, 0, length, this.position);
+
+      if (bytesRead === 0) {
+        this.push(null);
+        return;
+      }
+
+      this.position += bytesRead;
+      this.bytesRead += bytesRead;
+      this.push(bytesRead < length ? buffer.subarray(0, bytesRead) : buffer);
+    } catch (error) {
+      this.destroy(error as Error);
+    }
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    try {
+      this.closeDescriptor();
+    } catch {
+      // 已關閉
+    }
+    callback(error);
+  }
+
+  /** 關閉檔案描述符 */
+  private closeDescriptor(): void {
+    if (this.fd !== null) {
+      const fd = this.fd;
+      this.fd = null;
+      this.io.close(fd);
+    }
+  }
+}
+
+/** VFS 寫入串流 */
+export class VFSWriteStream extends Writable {
+  /** 檔案路徑 */
+  readonly path: string;
+
+  /** 已寫入的位元組數 */
+  bytesWritten = 0;
+
+  /** 檔案描述符 */
+  private fd: number | null = null;
+
+  /** 下一次寫入位置（null 表示使用描述符目前位置） */
+  private position: number | null;
+
+  /** 開啟旗標 */
+  private readonly flags: OpenFlags;
+
+  /** 底層 IO */
+  private readonly io: WriteStreamIO;
+
+  constructor(path: string, io: WriteStreamIO, options?: WriteStreamOptions) {
+    super({ highWaterMark: options?.highWaterMark });
+    this.path = path;
+    this.io = io;
+    this.flags = options?.flags ?? 'w';
+    this.position = options?.start ?? null;
+  }
+
+  override _construct(callback: (error?: Error | null) => void): void {
+    try {
+      this.fd = this.io.open(this.flags);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    try {
+      const bytesWritten = this.io.write(this.fd!, chunk, this.position);
+
+      if (this.position !== null) {
+        this.position += bytesWritten;
+      }
+
+      this.bytesWritten += bytesWritten;
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _final(callback: (error?: Error | null) => void): void {
+    try {
+      this.closeDescriptor();
+      this.io.finish();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    try {
+      this.closeDescriptor();
+    } catch {
+      // 已關閉
+    }
+    callback(error);
+  }
+
+  /** 關閉檔案描述符 */
+  private closeDescriptor(): void {
+    if (this.fd !== null) {
+      const fd = this.fd;
+      this.fd = null;
+      this.io.close(fd);
+    }
+  }
+}
@@ -4,6 +4,8 @@
 
 import { VFSNode } from './vfs-node.js';
 import { VFSNodeType } from '../types/index.js';
+import { VFSInode } from './vfs-inode.js';
+import type { FrozenNode } from './frozen-tree.js';
 
 /** 預設符號連結模式 */
 const DEFAULT_SYMLINK_MODE = 0o777;
@@ -16,7 +18,7 @@ export class VFSSymlink extends VFSNode {
   private targetPath: string;
 
   constructor(name: string, target: string, mode: number = DEFAULT_SYMLINK_MODE) {
-    super(name, mode);
+    super(name, new VFSInode(mode));
     this.targetPath = target;
   }
 
@@ -38,12 +40,20 @@ export class VFSSymlink extends VFSNode {
 
   /** 深拷貝 */
   clone(): VFSSymlink {
-    const cloned = new VFSSymlink(this.name, this.targetPath, this.mode);
-    cloned.uid = this.uid;
-    cloned.gid = this.gid;
-    (cloned as { createdTime: Date }).createdTime = new Date(this.createdTime);
-    cloned.modifiedTime = new Date(this.modifiedTime);
-    cloned.accessedTime = new Date(this.accessedTime);
+    const cloned = new VFSSymlink(this.name, this.targetPath);
+    this.inode.copyMetadataTo(cloned.inode);
     return cloned;
   }
+
+  /** 凍結目前的狀態 */
+  freeze(): FrozenNode {
+    this.frozen ??= {
+      type: this.type,
+      name: this.name,
+      inode: this.inode.freeze(),
+      target: this.targetPath,
+      counts: { fileCount: 0, directoryCount: 0, totalSize: 0 },
+    };
+    return this.frozen;
+  }
 }
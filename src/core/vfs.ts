@@ -7,28 +7,71 @@ import type {
   DirectoryEntry,
   FileStats,
   GlobOptions,
+  ReadDirectoryOptions,
+  DirectorySortOrder,
+  WalkEntry,
+  WalkOptions,
+  UsageOptions,
+  DiskUsage,
+  DirectoryQuota,
+  StorageStats,
   VFSOptions,
   AtomicWriteOptions,
   DirectoryJSON,
+  ToJSONOptions,
+  XattrEntryJSON,
+  SetXattrOptions,
+  FlockOperation,
+  RangeLock,
+  LockOptions,
+  LockOwner,
+  LockInfo,
   SnapshotId,
   SnapshotInfo,
+  TransactionOptions,
+  HistoryOperation,
+  HistoryEntry,
   FileDiff,
   WatchOptions,
+  OpenFlags,
+  RenameOptions,
+  CopyOptions,
+  VFSCredentials,
+  TimeLike,
+  PathRules,
 } from '../types/index.js';
-import { DiffType } from '../types/index.js';
+import { AccessMode, DiffType, VFSNodeType } from '../types/index.js';
 import { VFSNode } from './vfs-node.js';
 import { VFSFile } from './vfs-file.js';
-import { VFSDirectory } from './vfs-directory.js';
+import { VFSDirectory, storageOf } from './vfs-directory.js';
 import { VFSSymlink } from './vfs-symlink.js';
-import {
-  normalizePath,
-  dirname,
-  basename,
-  join,
-  resolvePath,
-} from '../path/path-resolver.js';
+import { timeToNs } from './vfs-inode.js';
+import type { InodeMap, FrozenInodeMap, VFSInode, VFSFileInode } from './vfs-inode.js';
+import { thawNode, getFrozenChild, getFrozenStats } from './frozen-tree.js';
+import type { FrozenNode } from './frozen-tree.js';
+import { createNamePolicy } from '../path/name-policy.js';
+import type { NamePolicy } from '../path/name-policy.js';
+import { getPlatformProfile, resolvePathRules } from '../path/platform-profiles.js';
+import { createPathModule } from '../path/path-style.js';
+import type { PathModule } from '../path/path-style.js';
+import { fromInternalPath, toInternalParts, toInternalRoot, parseRoot as parseWin32Root } from '../path/win32-path.js';
+import { hasPermission, canRemoveEntry, isRoot, inGroup } from './permissions.js';
+import { FileDescriptorTable, parseOpenFlags } from './file-descriptor-table.js';
+import type { FileDescriptor } from './file-descriptor-table.js';
+import { LockManager } from './lock-manager.js';
+import type { LockRecord } from './lock-manager.js';
+import { HistoryJournal } from './history-journal.js';
+import type { HistoryState } from './history-journal.js';
+import { VFSReadStream, VFSWriteStream } from './vfs-streams.js';
+import { VFSDir } from './vfs-dir.js';
+import type { ReadStreamOptions, WriteStreamOptions } from './vfs-streams.js';
+import { dirname, basename, join, splitPath, isSubPath } from '../path/internal-path.js';
+import { resolvePath } from '../path/path-resolver.js';
+import type { PathResolution } from '../path/path-resolver.js';
+import { extname } from '../path/path-normalizer.js';
 import { VFSWatcher } from '../watcher/watcher.js';
 import {
+  FileSystemError,
   FileNotFoundError,
   DirectoryNotFoundError,
   DirectoryNotEmptyError,
@@ -37,14 +80,127 @@ import {
   NotASymlinkError,
   SymlinkLoopError,
   FileAlreadyExistsError,
+  InvalidPathError,
+  BadFileDescriptorError,
+  PermissionError,
+  OperationNotPermittedError,
+  NoSpaceError,
+  FileTooLargeError,
+  XattrNotFoundError,
+  XattrAlreadyExistsError,
+  XattrTooLargeError,
+  TransactionConflictError,
 } from '../errors/file-system-errors.js';
 
 /** 預設選項 */
 const DEFAULT_OPTIONS: Required<VFSOptions> = {
+  platform: 'posix',
+  pathRules: {},
+  pathStyle: 'posix',
+  win32Roots: ['C:\\'],
   caseSensitive: true,
+  unicodeNormalization: 'none',
   defaultFileMode: 0o644,
   defaultDirectoryMode: 0o755,
   maxSymlinkDepth: 40,
+  enforcePermissions: false,
+  credentials: { uid: 0, gid: 0 },
+  posixErrorCodes: false,
+  maxTotalBytes: Infinity,
+  maxInodes: Infinity,
+  maxFileSize: Infinity,
+  maxXattrSize: 65536,
+  history: false,
+};
+
+/** 只保存中繼資料的歷程操作 */
+const METADATA_OPERATIONS: ReadonlySet<HistoryOperation> = new Set(['chmod', 'chown', 'utimes', 'xattr']);
+
+/** watcher 事件類型 */
+type WatcherEventType = 'change' | 'add' | 'unlink' | 'addDir' | 'unlinkDir';
+
+/** 已保存操作前狀態、尚未記錄的歷程 */
+interface PendingRecord {
+  /** 受影響的內部路徑 */
+  paths: string[];
+  /** 是否只保存中繼資料 */
+  metadataOnly: boolean;
+  /** 操作前的狀態 */
+  before: HistoryState[];
+}
+
+/** 交易提交時的單一變更（以內部路徑表示） */
+interface TransactionChange {
+  /** 內部路徑 */
+  path: string;
+  /** 交易開始時凍結的節點（undefined 表示交易中新增） */
+  base?: FrozenNode;
+  /** 交易結束時的節點（undefined 表示交易中刪除） */
+  next?: VFSNode;
+}
+
+/** 是否為帶有延伸屬性的平面 JSON 項目 */
+function isXattrEntryJSON(value: DirectoryJSON[string]): value is XattrEntryJSON {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Buffer.isBuffer(value) &&
+    'content' in value &&
+    typeof value.xattrs === 'object' &&
+    value.xattrs !== null
+  );
+}
+
+/** 內容的位元組長度（字串以 UTF-8 計算） */
+function byteLength(content: string | Buffer): number {
+  return typeof content === 'string' ? Buffer.byteLength(content, 'utf-8') : content.length;
+}
+
+/** 依字元碼比較名稱（不受語系影響） */
+function compareCodeUnits(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** 將名稱中的數字依數值比較，其餘部分依字元碼比較 */
+function compareNatural(a: string, b: string): number {
+  const chunksA = a.match(/\d+|\D+/g) ?? [];
+  const chunksB = b.match(/\d+|\D+/g) ?? [];
+  const length = Math.min(chunksA.length, chunksB.length);
+
+  for (let i = 0; i < length; i++) {
+    const chunkA = chunksA[i];
+    const chunkB = chunksB[i];
+
+    if (chunkA === chunkB) {
+      continue;
+    }
+
+    if (/^\d/.test(chunkA) && /^\d/.test(chunkB)) {
+      // 去除前導零後，位數較少者較小
+      const digitsA = chunkA.replace(/^0+/, '');
+      const digitsB = chunkB.replace(/^0+/, '');
+
+      if (digitsA.length !== digitsB.length) {
+        return digitsA.length - digitsB.length;
+      }
+      if (digitsA !== digitsB) {
+        return compareCodeUnits(digitsA, digitsB);
+      }
+      continue;
+    }
+
+    return compareCodeUnits(chunkA, chunkB);
+  }
+
+  // 數值相同（僅前導零不同）時仍需固定順序
+  return chunksA.length - chunksB.length || compareCodeUnits(a, b);
+}
+
+/** 各排序方式的比較函數（insertion 維持建立順序） */
+const DIRECTORY_SORTERS: Record<DirectorySortOrder, ((a: string, b: string) => number) | undefined> = {
+  insertion: undefined,
+  alphabetical: compareCodeUnits,
+  natural: compareNatural,
 };
 
 /** VirtualFileSystem 類別 */
@@ -55,8 +211,8 @@ export class VirtualFileSystem {
   /** 選項 */
   private readonly options: Required<VFSOptions>;
 
-  /** 快照儲存 */
-  private readonly snapshots: Map<SnapshotId, { root: VFSDirectory; info: SnapshotInfo }> = new Map();
+  /** 快照儲存（凍結的根目錄，未變更的子樹與目前的樹及其他快照共享） */
+  private readonly snapshots: Map<SnapshotId, { root: FrozenNode; info: SnapshotInfo }> = new Map();
 
   /** 快照計數器 */
   private snapshotCounter = 0;
@@ -64,9 +220,69 @@ export class VirtualFileSystem {
   /** 監聽器列表 */
   private readonly watchers: Set<VFSWatcher> = new Set();
 
+  /** 檔案描述符表 */
+  private readonly descriptors = new FileDescriptorTable();
+
+  /** 建議式檔案鎖 */
+  private readonly locks = new LockManager();
+
+  /** 暫停通知 watcher 的巢狀層數 */
+  private notificationsSuppressed = 0;
+
+  /** 目前的執行身分 */
+  private credentials: VFSCredentials;
+
+  /** 目錄項目名稱規則（大小寫與 Unicode 正規化） */
+  private readonly namePolicy: NamePolicy | undefined;
+
+  /** 路徑驗證規則 */
+  private readonly pathRules: PathRules;
+
+  /** 目前工作目錄（內部路徑，已解析符號連結） */
+  private cwdPath: string;
+
+  /** 與此 VFS 路徑格式相符的路徑操作 */
+  private pathModule: PathModule;
+
+  /** 目錄配額（以內部實際路徑為鍵） */
+  private readonly quotas: Map<string, DirectoryQuota> = new Map();
+
+  /** 操作歷程（未啟用時為 null） */
+  private readonly journal: HistoryJournal | null;
+
+  /** 正在記錄歷程的操作巢狀層數（只記錄最外層的操作） */
+  private recordingDepth = 0;
+
   constructor(options?: VFSOptions) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
-    this.root = new VFSDirectory('', this.options.defaultDirectoryMode);
+    // 未明確指定的大小寫、正規化與路徑格式選項沿用平台預設值
+    const profile = getPlatformProfile(options?.platform ?? DEFAULT_OPTIONS.platform);
+
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      caseSensitive: profile.caseSensitive,
+      unicodeNormalization: profile.unicodeNormalization,
+      pathStyle: profile.pathStyle,
+      ...options,
+    };
+    // 未明確選擇平台時沿用將反斜線轉為正斜線的行為
+    this.pathRules = resolvePathRules(this.options.platform, {
+      ...(options?.platform ? {} : { literalBackslash: false }),
+      ...this.options.pathRules,
+    });
+    this.namePolicy = createNamePolicy(this.options);
+    this.root = new VFSDirectory('', this.options.defaultDirectoryMode, this.namePolicy);
+    this.credentials = { ...this.options.credentials };
+    this.createWin32Roots();
+    this.cwdPath = this.defaultCwd();
+    this.pathModule = createPathModule(this.options.pathStyle, this.cwd());
+    this.journal = this.options.history
+      ? new HistoryJournal(this.options.history === true ? {} : this.options.history)
+      : null;
+  }
+
+  /** 與此 VFS 路徑格式相符的路徑操作（resolve 以工作目錄為基準） */
+  get path(): PathModule {
+    return this.pathModule;
   }
 
   // ============================================================
@@ -75,49 +291,66 @@ export class VirtualFileSystem {
 
   /** 讀取檔案 */
   async readFile(filePath: string, encoding?: BufferEncoding): Promise<string | Buffer> {
-    const node = this.resolveNode(filePath, true);
+    return this.readFileSync(filePath, encoding);
+  }
 
-    if (!node) {
-      throw new FileNotFoundError(filePath);
-    }
+  /** 讀取檔案（同步） */
+  readFileSync(filePath: string, encoding?: BufferEncoding): string | Buffer {
+    return this.withSyscall('open', () => {
+      const node = this.resolveNode(filePath, true);
 
-    if (node.isDirectory) {
-      throw new NotAFileError(filePath);
-    }
+      if (!node) {
+        throw new FileNotFoundError(filePath);
+      }
 
-    if (node.isFile) {
-      return (node as VFSFile).read(encoding);
-    }
+      if (node.isDirectory) {
+        throw new NotAFileError(filePath);
+      }
 
-    throw new FileNotFoundError(filePath);
+      if (node.isFile) {
+        this.checkPermission(node, filePath, AccessMode.Read);
+        return (node as VFSFile).read(encoding);
+      }
+
+      throw new FileNotFoundError(filePath);
+    });
   }
 
   /** 寫入檔案 */
   async writeFile(filePath: string, content: string | Buffer, options?: AtomicWriteOptions): Promise<void> {
-    // 處理編碼選項
-    const finalContent = options?.encoding && typeof content === 'string'
-      ? Buffer.from(content, options.encoding)
-      : content;
-
-    // 原子寫入模式：先寫入臨時檔案，再重命名
-    if (options?.tempSuffix) {
-      const tempPath = `${filePath}${options.tempSuffix}`;
-      await this.writeFileInternal(tempPath, finalContent);
-      await this.moveFile(tempPath, filePath);
-      return;
-    }
+    this.writeFileSync(filePath, content, options);
+  }
+
+  /** 寫入檔案（同步） */
+  writeFileSync(filePath: string, content: string | Buffer, options?: AtomicWriteOptions): void {
+    this.recordHistory('write', () => [this.affectedPath(filePath, true)], () => this.withSyscall('open', () => {
+      // 處理編碼選項
+      const finalContent = options?.encoding && typeof content === 'string'
+        ? Buffer.from(content, options.encoding)
+        : content;
+
+      // 原子寫入模式：先寫入臨時檔案，再重命名
+      if (options?.tempSuffix) {
+        const tempPath = `${filePath}${options.tempSuffix}`;
+        this.writeFileInternal(tempPath, finalContent);
+        this.moveFileSync(tempPath, filePath);
+        return;
+      }
 
-    await this.writeFileInternal(filePath, finalContent);
+      this.writeFileInternal(filePath, finalContent);
+    }));
   }
 
   /** 內部寫入檔案實作 */
-  private async writeFileInternal(filePath: string, content: string | Buffer): Promise<void> {
-    const { parentPath, name } = resolvePath(filePath);
+  private writeFileInternal(filePath: string, content: string | Buffer): void {
+    const { parentPath, name } = this.parsePath(filePath);
 
-    // 確保父目錄存在
-    await this.createDirectory(parentPath, true);
+    // 確保父目錄存在（先確認容量，空間不足時不留下建立的目錄）
+    this.ensureCapacityWithParents(filePath, parentPath, byteLength(content), 1, byteLength(content));
+    this.createDirectorySync(parentPath, true);
 
     const parent = this.getDirectory(parentPath);
+    this.checkPermission(parent, parentPath, AccessMode.Execute);
     const existing = parent.getChild(name);
 
     if (existing) {
@@ -127,65 +360,90 @@ export class VirtualFileSystem {
 
       // 更新現有檔案
       if (existing.isFile) {
+        this.checkPermission(existing, filePath, AccessMode.Write);
+        this.ensureCapacity(filePath, parentPath, byteLength(content) - existing.size, 0, byteLength(content));
         (existing as VFSFile).write(content);
-        this.notifyWatchers(resolvePath(filePath).fullPath, 'change');
+        this.notifyWatchers(this.parsePath(filePath).fullPath, 'change');
         return;
       }
 
       // 如果是符號連結，跟隨連結
       const resolved = this.resolveNode(filePath, true);
       if (resolved?.isFile) {
+        this.checkPermission(resolved, filePath, AccessMode.Write);
+        this.ensureCapacity(filePath, dirname(this.resolveRealPath(filePath)), byteLength(content) - resolved.size, 0, byteLength(content));
         (resolved as VFSFile).write(content);
-        this.notifyWatchers(resolvePath(filePath).fullPath, 'change');
+        this.notifyWatchers(this.parsePath(filePath).fullPath, 'change');
         return;
       }
     }
 
     // 建立新檔案
-    const file = new VFSFile(name, content, this.options.defaultFileMode);
+    this.checkEntryPermission(parent, parentPath);
+    this.ensureCapacity(filePath, parentPath, byteLength(content), 1, byteLength(content));
+    const file = this.assignOwner(new VFSFile(name, content, this.options.defaultFileMode));
     parent.addChild(file);
 
     // 通知 watcher
-    this.notifyWatchers(resolvePath(filePath).fullPath, 'add');
+    this.notifyWatchers(this.parsePath(filePath).fullPath, 'add');
   }
 
   /** 追加檔案內容 */
   async appendFile(filePath: string, content: string | Buffer): Promise<void> {
-    const node = this.resolveNode(filePath, true);
+    this.appendFileSync(filePath, content);
+  }
 
-    if (!node) {
-      // 如果檔案不存在，建立新檔案
-      await this.writeFile(filePath, content);
-      return;
-    }
+  /** 追加檔案內容（同步） */
+  appendFileSync(filePath: string, content: string | Buffer): void {
+    this.recordHistory('append', () => [this.affectedPath(filePath, true)], () => this.withSyscall('open', () => {
+      const node = this.resolveNode(filePath, true);
 
-    if (!node.isFile) {
-      throw new NotAFileError(filePath);
-    }
+      if (!node) {
+        // 如果檔案不存在，建立新檔案
+        this.writeFileSync(filePath, content);
+        return;
+      }
+
+      if (!node.isFile) {
+        throw new NotAFileError(filePath);
+      }
 
-    (node as VFSFile).append(content);
+      this.checkPermission(node, filePath, AccessMode.Write);
+      this.ensureCapacity(filePath, dirname(this.resolveRealPath(filePath)), byteLength(content), 0, node.size + byteLength(content));
+      (node as VFSFile).append(content);
+    }));
   }
 
   /** 刪除檔案 */
   async deleteFile(filePath: string): Promise<void> {
-    const { parentPath, name, fullPath } = resolvePath(filePath);
+    this.deleteFileSync(filePath);
+  }
 
-    const parent = this.getDirectoryOrNull(parentPath);
-    if (!parent) {
-      throw new FileNotFoundError(fullPath);
-    }
+  /** 刪除檔案（同步） */
+  deleteFileSync(filePath: string): void {
+    this.recordHistory('delete', () => [this.affectedPath(filePath, false)], () => this.withSyscall('unlink', () => {
+      const { parentPath, name, fullPath } = this.parsePath(filePath);
 
-    const node = parent.getChild(name);
-    if (!node) {
-      throw new FileNotFoundError(fullPath);
-    }
+      const parent = this.getDirectoryOrNull(parentPath);
+      if (!parent) {
+        throw new FileNotFoundError(fullPath);
+      }
 
-    if (node.isDirectory) {
-      throw new NotAFileError(fullPath);
-    }
+      const node = parent.getChild(name);
+      if (!node) {
+        throw new FileNotFoundError(fullPath);
+      }
 
-    parent.removeChild(name);
-    this.notifyWatchers(fullPath, 'unlink');
+      if (node.isDirectory) {
+        throw new NotAFileError(fullPath);
+      }
+
+      this.checkEntryPermission(parent, parentPath, node);
+      const canonical = this.canonicalPath(fullPath);
+      parent.removeChild(name);
+      this.releaseNode(node);
+      this.notifyWatchers(canonical, 'unlink');
+    }));
   }
 
   // ============================================================
@@ -194,105 +452,282 @@ export class VirtualFileSystem {
 
   /** 建立目錄 */
   async createDirectory(dirPath: string, recursive = false): Promise<void> {
-    const { fullPath, segments } = resolvePath(dirPath);
-
-    if (fullPath === '/') {
-      return; // 根目錄已存在
-    }
+    this.createDirectorySync(dirPath, recursive);
+  }
 
-    let current = this.root;
-    let currentPath = '';
+  /** 建立目錄（同步） */
+  createDirectorySync(dirPath: string, recursive = false): void {
+    this.recordHistory('mkdir', () => (this.resolveNodeOrNull(dirPath) ? [] : [this.affectedPath(dirPath, true)]), () => this.withSyscall('mkdir', () => {
+      const { fullPath, segments } = this.parsePath(dirPath);
 
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      currentPath = currentPath + '/' + segment;
-      const child = current.getChild(segment);
+      if (fullPath === '/') {
+        return; // 根目錄已存在
+      }
 
-      if (child) {
-        if (child.isDirectory) {
-          current = child as VFSDirectory;
-        } else if (child.isSymlink) {
-          // 跟隨符號連結
-          const resolved = this.resolveNode(currentPath, true);
-          if (resolved?.isDirectory) {
-            current = resolved as VFSDirectory;
+      const rootDepth = this.rootSegmentCount(fullPath);
+      let current = this.root;
+      let currentPath = '';
+
+      for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const parentPath = currentPath || '/';
+        currentPath = currentPath + '/' + segment;
+        this.checkPermission(current, parentPath, AccessMode.Execute);
+        const child = current.getChild(segment);
+
+        if (child) {
+          if (child.isDirectory) {
+            current = child as VFSDirectory;
+          } else if (child.isSymlink) {
+            // 跟隨符號連結
+            const resolved = this.resolveNode(currentPath, true);
+            if (resolved?.isDirectory) {
+              current = resolved as VFSDirectory;
+            } else {
+              throw new NotADirectoryError(currentPath);
+            }
           } else {
             throw new NotADirectoryError(currentPath);
           }
         } else {
-          throw new NotADirectoryError(currentPath);
-        }
-      } else {
-        // 目錄不存在
-        if (!recursive && i < segments.length - 1) {
-          throw new DirectoryNotFoundError(currentPath);
+          // 目錄不存在（win32 的磁碟機與 UNC 根目錄不會自動建立）
+          if ((!recursive && i < segments.length - 1) || i < rootDepth) {
+            throw new DirectoryNotFoundError(this.formatPath(currentPath));
+          }
+
+          this.checkEntryPermission(current, parentPath);
+          this.ensureCapacity(this.formatPath(currentPath), parentPath, 0, 1);
+          const newDir = this.assignOwner(new VFSDirectory(segment, this.options.defaultDirectoryMode, this.namePolicy));
+          current.addChild(newDir);
+          this.notifyWatchers(currentPath, 'addDir');
+          current = newDir;
         }
+      }
+    }));
+  }
 
-        const newDir = new VFSDirectory(segment, this.options.defaultDirectoryMode);
-        current.addChild(newDir);
-        this.notifyWatchers(currentPath, 'addDir');
-        current = newDir;
+  /** 讀取目錄內容 */
+  async readDirectory(dirPath: string, options: ReadDirectoryOptions & { withFileTypes: false }): Promise<string[]>;
+  async readDirectory(dirPath: string, options?: ReadDirectoryOptions): Promise<DirectoryEntry[]>;
+  async readDirectory(dirPath: string, options?: ReadDirectoryOptions): Promise<DirectoryEntry[] | string[]> {
+    return this.readDirectorySync(dirPath, options);
+  }
+
+  /** 讀取目錄內容（同步） */
+  readDirectorySync(dirPath: string, options: ReadDirectoryOptions & { withFileTypes: false }): string[];
+  readDirectorySync(dirPath: string, options?: ReadDirectoryOptions): DirectoryEntry[];
+  readDirectorySync(dirPath: string, options: ReadDirectoryOptions = {}): DirectoryEntry[] | string[] {
+    return this.withSyscall('scandir', () => {
+      const dir = this.getDirectory(dirPath);
+      const results: { relativePath: string; entry?: DirectoryEntry }[] = [];
+
+      this.listDirectory(dir, this.canonicalPath(dirPath), '', options, new Set([dir]), results);
+
+      if (options.withFileTypes === false) {
+        return results.map(result => result.relativePath);
+      }
+
+      return results.map(result => result.entry!);
+    });
+  }
+
+  /** 列出目錄項目（遞迴時每個目錄之後接著列出其內容，略過已在走訪路徑上的目錄以避免循環） */
+  private listDirectory(
+    dir: VFSDirectory,
+    dirPath: string,
+    relativeDir: string,
+    options: ReadDirectoryOptions,
+    ancestors: Set<VFSNode>,
+    results: { relativePath: string; entry?: DirectoryEntry }[]
+  ): void {
+    this.checkPermission(dir, dirPath, AccessMode.Read);
+
+    const children = dir.getChildren();
+    const compare = DIRECTORY_SORTERS[options.sort ?? 'insertion'];
+    // 只回傳名稱且沒有過濾函數時不需要建立項目
+    const needsEntry = options.withFileTypes !== false || options.filter !== undefined;
+
+    if (compare) {
+      children.sort((a, b) => compare(a.name, b.name));
+    }
+
+    for (const node of children) {
+      const entryPath = dirPath === '/' ? `/${node.name}` : `${dirPath}/${node.name}`;
+      const relativePath = relativeDir ? `${relativeDir}${this.path.sep}${node.name}` : node.name;
+      const target = node.isSymlink && options.followSymlinks ? this.resolveNodeOrNull(entryPath) ?? node : node;
+
+      const entry = needsEntry ? this.toDirectoryEntry(node, target, entryPath) : undefined;
+
+      if (!options.filter || options.filter(entry!)) {
+        results.push({ relativePath, entry });
+      }
+
+      if (options.recursive && target.isDirectory && !ancestors.has(target)) {
+        ancestors.add(target);
+        this.listDirectory(target as VFSDirectory, entryPath, relativePath, options, ancestors, results);
+        ancestors.delete(target);
       }
     }
   }
 
-  /** 讀取目錄內容 */
-  async readDirectory(dirPath: string): Promise<DirectoryEntry[]> {
-    const dir = this.getDirectory(dirPath);
-    const normalized = normalizePath(dirPath);
-    const entries: DirectoryEntry[] = [];
+  /** 建立目錄項目（target 為跟隨符號連結後的節點，未跟隨時與 node 相同） */
+  private toDirectoryEntry(node: VFSNode, target: VFSNode, entryPath: string): DirectoryEntry {
+    return {
+      name: node.name,
+      path: this.formatPath(entryPath),
+      isFile: target.isFile,
+      isDirectory: target.isDirectory,
+      isSymlink: node.isSymlink,
+      size: target.size,
+      modifiedTime: target.modifiedTime,
+    };
+  }
 
-    for (const node of dir.getChildren()) {
-      const entryPath = normalized === '/' ? `/${node.name}` : `${normalized}/${node.name}`;
+  /** 開啟目錄串流，逐一讀取項目 */
+  async opendir(dirPath: string): Promise<VFSDir> {
+    return this.opendirSync(dirPath);
+  }
+
+  /** 開啟目錄串流（同步） */
+  opendirSync(dirPath: string): VFSDir {
+    return this.withSyscall('opendir', () => {
+      const dir = this.getDirectory(dirPath);
+      const normalized = this.canonicalPath(dirPath);
 
-      entries.push({
-        name: node.name,
-        path: entryPath,
-        isFile: node.isFile,
-        isDirectory: node.isDirectory,
-        isSymlink: node.isSymlink,
-        size: node.size,
-        modifiedTime: node.modifiedTime,
-      });
+      this.checkPermission(dir, normalized, AccessMode.Read);
+
+      return new VFSDir(dirPath, this.iterateDirectory(dir, normalized));
+    });
+  }
+
+  /** 逐一產出目錄項目 */
+  private *iterateDirectory(dir: VFSDirectory, dirPath: string): Generator<DirectoryEntry> {
+    for (const node of dir.iterateChildren()) {
+      yield this.toDirectoryEntry(node, node, dirPath === '/' ? `/${node.name}` : `${dirPath}/${node.name}`);
     }
+  }
+
+  /** 以深度優先逐一產出子樹中的項目（每個目錄之後接著產出其內容） */
+  async *walk(dirPath: string, options?: WalkOptions): AsyncGenerator<WalkEntry> {
+    yield* this.walkSync(dirPath, options);
+  }
+
+  /** 以深度優先逐一產出子樹中的項目（同步） */
+  walkSync(dirPath: string, options: WalkOptions = {}): Generator<WalkEntry> {
+    return this.withSyscall('scandir', () => {
+      const dir = this.getDirectory(dirPath);
+      const normalized = this.canonicalPath(dirPath);
+
+      this.checkPermission(dir, normalized, AccessMode.Read);
 
-    return entries;
+      return this.walkDirectory(dir, normalized, '', 0, options, new Set([dir]));
+    });
+  }
+
+  /** 走訪目錄（略過已在走訪路徑上的目錄以避免循環） */
+  private *walkDirectory(
+    dir: VFSDirectory,
+    dirPath: string,
+    relativeDir: string,
+    depth: number,
+    options: WalkOptions,
+    ancestors: Set<VFSNode>
+  ): Generator<WalkEntry> {
+    const maxDepth = options.maxDepth ?? Infinity;
+
+    for (const node of dir.iterateChildren()) {
+      const entryPath = dirPath === '/' ? `/${node.name}` : `${dirPath}/${node.name}`;
+      const relativePath = relativeDir ? `${relativeDir}${this.path.sep}${node.name}` : node.name;
+      const target = node.isSymlink && options.followSymlinks ? this.resolveNodeOrNull(entryPath) ?? node : node;
+      const entry: WalkEntry = { ...this.toDirectoryEntry(node, target, entryPath), relativePath, depth };
+
+      if (!options.filter || options.filter(entry)) {
+        yield entry;
+      }
+
+      if (!target.isDirectory || depth >= maxDepth || ancestors.has(target)) {
+        continue;
+      }
+
+      if (options.descend && !options.descend(entry)) {
+        continue;
+      }
+
+      const subdirectory = target as VFSDirectory;
+      this.withSyscall('scandir', () => this.checkPermission(subdirectory, entryPath, AccessMode.Read));
+
+      ancestors.add(subdirectory);
+      yield* this.walkDirectory(subdirectory, entryPath, relativePath, depth + 1, options, ancestors);
+      ancestors.delete(subdirectory);
+    }
   }
 
   /** 刪除目錄 */
   async deleteDirectory(dirPath: string, recursive = false): Promise<void> {
-    const { parentPath, name, fullPath, isRoot } = resolvePath(dirPath);
+    this.deleteDirectorySync(dirPath, recursive);
+  }
 
-    if (isRoot) {
-      if (!recursive) {
-        throw new DirectoryNotEmptyError('/');
+  /** 刪除目錄（同步） */
+  deleteDirectorySync(dirPath: string, recursive = false): void {
+    this.recordHistory('delete', () => [this.affectedPath(dirPath, false)], () => this.withSyscall(recursive ? 'rm' : 'rmdir', () => {
+      const { parentPath, name, fullPath, isRoot } = this.parsePath(dirPath);
+
+      if (isRoot) {
+        if (!recursive) {
+          throw new DirectoryNotEmptyError(this.formatPath(fullPath));
+        }
+        // 清空根目錄（win32 為磁碟機或 UNC 根目錄）
+        const rootDir = this.getDirectory(fullPath);
+        this.checkTreeRemoval(rootDir, fullPath);
+        this.clearRoot(rootDir);
+        return;
+      }
+
+      const parent = this.getDirectory(parentPath);
+      const node = parent.getChild(name);
+
+      if (!node) {
+        throw new DirectoryNotFoundError(fullPath);
       }
-      // 清空根目錄
-      for (const childName of this.root.getChildNames()) {
-        this.root.removeChild(childName);
+
+      if (!node.isDirectory) {
+        throw new NotADirectoryError(fullPath);
       }
-      return;
-    }
 
-    const parent = this.getDirectory(parentPath);
-    const node = parent.getChild(name);
+      const dir = node as VFSDirectory;
 
-    if (!node) {
-      throw new DirectoryNotFoundError(fullPath);
-    }
+      if (!recursive && !dir.isEmpty) {
+        throw new DirectoryNotEmptyError(fullPath);
+      }
 
-    if (!node.isDirectory) {
-      throw new NotADirectoryError(fullPath);
-    }
+      this.checkEntryPermission(parent, parentPath, dir);
+      this.checkTreeRemoval(dir, fullPath);
+      const canonical = this.canonicalPath(fullPath);
+
+      parent.removeChild(name);
+      this.releaseNode(dir);
+      this.notifyWatchers(canonical, 'unlinkDir');
+    }));
+  }
 
-    const dir = node as VFSDirectory;
+  // ============================================================
+  // 工作目錄
+  // ============================================================
 
-    if (!recursive && !dir.isEmpty) {
-      throw new DirectoryNotEmptyError(fullPath);
-    }
+  /** 取得目前工作目錄 */
+  cwd(): string {
+    return this.formatPath(this.cwdPath);
+  }
+
+  /** 變更工作目錄（跟隨符號連結；之後的相對路徑以此為基準） */
+  chdir(dirPath: string): void {
+    this.withSyscall('chdir', () => {
+      const dir = this.getDirectory(dirPath);
+      const realPath = this.resolveRealPath(dirPath);
 
-    parent.removeChild(name);
-    this.notifyWatchers(fullPath, 'unlinkDir');
+      this.checkPermission(dir, realPath, AccessMode.Execute);
+      this.setCwd(realPath);
+    });
   }
 
   // ============================================================
@@ -301,6 +736,11 @@ export class VirtualFileSystem {
 
   /** 檢查路徑是否存在 */
   async exists(targetPath: string): Promise<boolean> {
+    return this.existsSync(targetPath);
+  }
+
+  /** 檢查路徑是否存在（同步） */
+  existsSync(targetPath: string): boolean {
     try {
       const node = this.resolveNode(targetPath, false);
       return node !== null;
@@ -311,28 +751,47 @@ export class VirtualFileSystem {
 
   /** 取得檔案統計 */
   async getStats(targetPath: string): Promise<FileStats> {
-    const node = this.resolveNode(targetPath, true);
+    return this.getStatsSync(targetPath);
+  }
 
-    if (!node) {
-      throw new FileNotFoundError(targetPath);
-    }
+  /** 取得檔案統計（同步） */
+  getStatsSync(targetPath: string): FileStats {
+    return this.withSyscall('stat', () => {
+      const node = this.resolveNode(targetPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
 
-    return node.getStats();
+      return node.getStats();
+    });
   }
 
   /** 取得符號連結統計（不跟隨連結） */
   async getLinkStats(targetPath: string): Promise<FileStats> {
-    const node = this.resolveNode(targetPath, false);
+    return this.getLinkStatsSync(targetPath);
+  }
 
-    if (!node) {
-      throw new FileNotFoundError(targetPath);
-    }
+  /** 取得符號連結統計（不跟隨連結，同步） */
+  getLinkStatsSync(targetPath: string): FileStats {
+    return this.withSyscall('lstat', () => {
+      const node = this.resolveNode(targetPath, false);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
 
-    return node.getStats();
+      return node.getStats();
+    });
   }
 
   /** 檢查是否為檔案 */
   async isFile(targetPath: string): Promise<boolean> {
+    return this.isFileSync(targetPath);
+  }
+
+  /** 檢查是否為檔案（同步） */
+  isFileSync(targetPath: string): boolean {
     try {
       const node = this.resolveNode(targetPath, true);
       return node?.isFile ?? false;
@@ -343,6 +802,11 @@ export class VirtualFileSystem {
 
   /** 檢查是否為目錄 */
   async isDirectory(targetPath: string): Promise<boolean> {
+    return this.isDirectorySync(targetPath);
+  }
+
+  /** 檢查是否為目錄（同步） */
+  isDirectorySync(targetPath: string): boolean {
     try {
       const node = this.resolveNode(targetPath, true);
       return node?.isDirectory ?? false;
@@ -353,6 +817,11 @@ export class VirtualFileSystem {
 
   /** 檢查是否為符號連結 */
   async isSymlink(targetPath: string): Promise<boolean> {
+    return this.isSymlinkSync(targetPath);
+  }
+
+  /** 檢查是否為符號連結（同步） */
+  isSymlinkSync(targetPath: string): boolean {
     try {
       const node = this.resolveNode(targetPath, false);
       return node?.isSymlink ?? false;
@@ -361,553 +830,2638 @@ export class VirtualFileSystem {
     }
   }
 
-  // ============================================================
-  // 複製與移動
-  // ============================================================
-
-  /** 複製檔案 */
-  async copyFile(srcPath: string, destPath: string): Promise<void> {
-    const content = await this.readFile(srcPath);
-    await this.writeFile(destPath, content);
-  }
-
-  /** 移動檔案 */
-  async moveFile(srcPath: string, destPath: string): Promise<void> {
-    await this.copyFile(srcPath, destPath);
-    await this.deleteFile(srcPath);
+  /** 統計路徑的檔案大小與數量（含子項目明細，可依副檔名分組） */
+  async usage(targetPath: string, options?: UsageOptions): Promise<DiskUsage> {
+    return this.usageSync(targetPath, options);
   }
 
-  // ============================================================
-  // 符號連結
-  // ============================================================
-
-  /** 建立符號連結 */
-  async createSymlink(target: string, linkPath: string): Promise<void> {
-    const { parentPath, name } = resolvePath(linkPath);
-
-    // 確保父目錄存在
-    await this.createDirectory(parentPath, true);
-
-    const parent = this.getDirectory(parentPath);
+  /** 統計路徑的檔案大小與數量（同步） */
+  usageSync(targetPath: string, options: UsageOptions = {}): DiskUsage {
+    return this.withSyscall('scandir', () => {
+      const node = this.resolveNode(targetPath, false);
 
-    if (parent.hasChild(name)) {
-      throw new FileAlreadyExistsError(linkPath);
-    }
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
 
-    const symlink = new VFSSymlink(name, target);
-    parent.addChild(symlink);
+      return this.measureUsage(node, this.canonicalPath(targetPath), options.depth ?? 1, options, new Set(), new Set());
+    });
   }
 
-  /** 讀取符號連結目標 */
-  async readSymlink(linkPath: string): Promise<string> {
-    const node = this.resolveNode(linkPath, false);
-
-    if (!node) {
-      throw new FileNotFoundError(linkPath);
-    }
-
-    if (!node.isSymlink) {
-      throw new NotASymlinkError(linkPath);
+  /** 計算使用量（硬連結只計一次；跟隨符號連結時，指向走訪路徑上目錄的連結視為連結本身） */
+  private measureUsage(
+    node: VFSNode,
+    nodePath: string,
+    depth: number,
+    options: UsageOptions,
+    seen: Set<VFSInode>,
+    ancestors: Set<VFSNode>
+  ): DiskUsage {
+    const target = node.isSymlink && options.followSymlinks ? this.resolveNodeOrNull(nodePath) ?? node : node;
+    const usage: DiskUsage = { path: this.formatPath(nodePath), size: 0, fileCount: 0, directoryCount: 0, symlinkCount: 0 };
+
+    if (options.byExtension) {
+      usage.byExtension = {};
     }
 
-    return (node as VFSSymlink).target;
-  }
+    if (target.isFile) {
+      usage.fileCount = 1;
 
-  // ============================================================
-  // Glob 搜尋
-  // ============================================================
+      if (!seen.has(target.inode)) {
+        seen.add(target.inode);
+        usage.size = target.size;
+      }
 
-  /** Glob 搜尋 */
-  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
-    const cwd = options?.cwd ? normalizePath(options.cwd) : '/';
-    const maxDepth = options?.maxDepth ?? Infinity;
-    const onlyFiles = options?.onlyFiles ?? false;
-    const onlyDirectories = options?.onlyDirectories ?? false;
-    const followSymlinks = options?.followSymlinks ?? true;
-    const dot = options?.dot ?? false;
-    const absolute = options?.absolute ?? true;
-    const ignore = options?.ignore ?? [];
-
-    const results: string[] = [];
-    const regex = this.patternToRegex(pattern);
-
-    const traverse = (dir: VFSDirectory, currentPath: string, depth: number): void => {
-      if (depth > maxDepth) {
-        return;
+      if (usage.byExtension) {
+        usage.byExtension[extname(node.name)] = { size: usage.size, fileCount: 1 };
       }
 
-      for (const node of dir.getChildren()) {
-        const nodePath = currentPath === '/' ? `/${node.name}` : `${currentPath}/${node.name}`;
-        const relativePath = nodePath.slice(cwd.length + 1) || node.name;
+      return usage;
+    }
 
-        // 檢查是否為隱藏檔案
-        if (!dot && node.name.startsWith('.')) {
-          continue;
-        }
+    if (!target.isDirectory || ancestors.has(target)) {
+      usage.symlinkCount = 1;
+      return usage;
+    }
 
-        // 檢查忽略規則
-        if (this.matchesIgnore(nodePath, ignore)) {
-          continue;
-        }
+    const dir = target as VFSDirectory;
+    const children: DiskUsage[] = [];
 
-        // 處理符號連結
-        let effectiveNode = node;
-        if (node.isSymlink && followSymlinks) {
-          const resolved = this.resolveNode(nodePath, true);
-          if (resolved) {
-            effectiveNode = resolved;
-          } else {
-            continue; // 斷開的符號連結
-          }
-        }
+    this.checkPermission(dir, nodePath, AccessMode.Read);
+    usage.directoryCount = 1;
+    ancestors.add(dir);
 
-        // 檢查是否符合 pattern
-        if (regex.test(relativePath)) {
-          const shouldInclude =
-            (!onlyFiles && !onlyDirectories)
-            || (onlyFiles && effectiveNode.isFile)
-            || (onlyDirectories && effectiveNode.isDirectory);
+    for (const child of dir.iterateChildren()) {
+      const childUsage = this.measureUsage(child, join(nodePath, child.name), depth - 1, options, seen, ancestors);
 
-          if (shouldInclude) {
-            results.push(absolute ? nodePath : relativePath);
-          }
-        }
+      usage.size += childUsage.size;
+      usage.fileCount += childUsage.fileCount;
+      usage.directoryCount += childUsage.directoryCount;
+      usage.symlinkCount += childUsage.symlinkCount;
 
-        // 遞迴處理目錄
-        if (effectiveNode.isDirectory) {
-          traverse(effectiveNode as VFSDirectory, nodePath, depth + 1);
-        }
+      for (const [extension, stats] of Object.entries(childUsage.byExtension ?? {})) {
+        const total = (usage.byExtension![extension] ??= { size: 0, fileCount: 0 });
+        total.size += stats.size;
+        total.fileCount += stats.fileCount;
       }
-    };
 
-    const startDir = this.getDirectoryOrNull(cwd);
-    if (startDir) {
-      traverse(startDir, cwd, 0);
+      if (depth > 0) {
+        children.push(childUsage);
+      }
     }
 
-    return results.sort();
+    ancestors.delete(dir);
+
+    if (depth > 0) {
+      usage.children = children;
+    }
+
+    return usage;
   }
 
   // ============================================================
-  // 快照與回滾
+  // 儲存空間
   // ============================================================
 
-  /** 建立快照 */
-  createSnapshot(name?: string): SnapshotId {
-    const id = `snapshot-${++this.snapshotCounter}`;
-    const clonedRoot = this.root.clone();
-
-    const { fileCount, directoryCount, totalSize } = this.countNodes(this.root);
+  /** 取得儲存空間統計（依 maxTotalBytes、maxInodes 與 maxFileSize 計算） */
+  async statfs(): Promise<StorageStats> {
+    return this.statfsSync();
+  }
 
-    const info: SnapshotInfo = {
-      id,
-      name,
-      createdAt: new Date(),
-      fileCount,
-      directoryCount,
-      totalSize,
+  /** 取得儲存空間統計（同步） */
+  statfsSync(): StorageStats {
+    const { maxTotalBytes, maxInodes, maxFileSize } = this.options;
+    const used = this.root.storage;
+
+    return {
+      totalBytes: maxTotalBytes,
+      usedBytes: used.bytes,
+      freeBytes: Math.max(0, maxTotalBytes - used.bytes),
+      totalInodes: maxInodes,
+      usedInodes: used.inodes,
+      freeInodes: Math.max(0, maxInodes - used.inodes),
+      maxFileSize,
     };
+  }
 
-    this.snapshots.set(id, { root: clonedRoot, info });
+  /** 設定目錄配額（null 表示移除；配額綁定於目錄的實際路徑，目錄被移動後仍套用於原路徑） */
+  setQuota(dirPath: string, quota: DirectoryQuota | null): void {
+    this.withSyscall('quotactl', () => {
+      this.getDirectory(dirPath);
+      const realPath = this.resolveRealPath(dirPath);
 
-    return id;
+      if (quota) {
+        this.quotas.set(realPath, { ...quota });
+      } else {
+        this.quotas.delete(realPath);
+      }
+    });
   }
 
-  /** 還原快照 */
-  restoreSnapshot(id: SnapshotId): void {
+  /** 取得目錄配額 */
+  getQuota(dirPath: string): DirectoryQuota | undefined {
+    return this.withSyscall('quotactl', () => {
+      const quota = this.quotas.get(this.resolveRealPath(dirPath));
+      return quota ? { ...quota } : undefined;
+    });
+  }
+
+  // ============================================================
+  // 複製與移動
+  // ============================================================
+
+  /** 複製檔案 */
+  async copyFile(srcPath: string, destPath: string): Promise<void> {
+    this.copyFileSync(srcPath, destPath);
+  }
+
+  /** 複製檔案（同步） */
+  copyFileSync(srcPath: string, destPath: string): void {
+    this.recordHistory('copy', () => [this.affectedPath(destPath, true)], () => this.withSyscall('copyfile', () => {
+      const content = this.readFileSync(srcPath);
+      this.writeFileSync(destPath, content);
+    }, destPath));
+  }
+
+  /** 複製檔案、符號連結或目錄（與 fs.cp 相同語意，保留模式與擁有者） */
+  async copy(srcPath: string, destPath: string, options?: CopyOptions): Promise<void> {
+    this.copySync(srcPath, destPath, options);
+  }
+
+  /** 複製檔案、符號連結或目錄（同步） */
+  copySync(srcPath: string, destPath: string, options?: CopyOptions): void {
+    this.recordHistory('copy', () => [this.affectedPath(destPath, false)], () => this.withSyscall('cp', () => {
+      const src = this.parsePath(srcPath);
+      const dest = this.parsePath(destPath);
+      const node = this.resolveNode(src.fullPath, options?.dereference ?? false);
+
+      if (!node) {
+        throw new FileNotFoundError(srcPath);
+      }
+
+      const srcCanonical = this.canonicalPath(src.fullPath);
+      const destCanonical = this.canonicalPath(dest.fullPath);
+
+      if (srcCanonical === destCanonical) {
+        throw new InvalidPathError(destPath, 'Source and destination must not be the same');
+      }
+
+      if (node.isDirectory) {
+        if (!options?.recursive) {
+          throw new NotAFileError(srcPath);
+        }
+        if (isSubPath(destCanonical, srcCanonical)) {
+          throw new InvalidPathError(destPath, 'Cannot copy a directory into its own subtree');
+        }
+      }
+
+      if (options?.filter && !options.filter(src.fullPath, dest.fullPath)) {
+        return;
+      }
+
+      // 以來源大小預先檢查（不扣除將被覆寫的項目）
+      const required = storageOf(node);
+      this.ensureCapacityWithParents(destPath, dest.parentPath, required.bytes, required.inodes);
+      this.createDirectorySync(dest.parentPath, true);
+      this.ensureCapacity(destPath, dest.parentPath, required.bytes, required.inodes);
+
+      this.copyNode(node, src.fullPath, this.getDirectory(dest.parentPath), dest.name, dest.fullPath, options ?? {}, new Map());
+    }, destPath));
+  }
+
+  /** 移動檔案 */
+  async moveFile(srcPath: string, destPath: string): Promise<void> {
+    this.moveFileSync(srcPath, destPath);
+  }
+
+  /** 移動檔案（同步） */
+  moveFileSync(srcPath: string, destPath: string): void {
+    this.recordHistory('rename', () => [this.affectedPath(srcPath, false), this.affectedPath(destPath, true)], () => this.withSyscall('rename', () => {
+      this.copyFileSync(srcPath, destPath);
+      this.deleteFileSync(srcPath);
+    }, destPath));
+  }
+
+  /** 重新命名（直接重新連結節點，不跟隨符號連結，保留所有中繼資料） */
+  async rename(srcPath: string, destPath: string, options?: RenameOptions): Promise<void> {
+    this.renameSync(srcPath, destPath, options);
+  }
+
+  /** 重新命名（同步） */
+  renameSync(srcPath: string, destPath: string, options?: RenameOptions): void {
+    this.recordHistory('rename', () => [this.affectedPath(srcPath, false), this.affectedPath(destPath, false)], () => this.withSyscall('rename', () => {
+      const overwrite = options?.overwrite ?? true;
+      const src = this.parsePath(srcPath);
+      const dest = this.parsePath(destPath);
+
+      if (src.isRoot) {
+        throw new InvalidPathError(srcPath, 'Cannot rename the root directory');
+      }
+
+      const srcParent = this.getDirectoryOrNull(src.parentPath);
+      const node = srcParent?.getChild(src.name);
+
+      if (!srcParent || !node) {
+        throw new FileNotFoundError(srcPath);
+      }
+
+      this.checkEntryPermission(srcParent, src.parentPath, node);
+
+      if (dest.isRoot) {
+        throw new InvalidPathError(destPath, 'Cannot rename onto the root directory');
+      }
+
+      const srcCanonical = this.canonicalPath(src.fullPath);
+
+      if (node.isDirectory && isSubPath(this.canonicalPath(dest.fullPath), srcCanonical)) {
+        throw new InvalidPathError(destPath, 'Cannot move a directory into its own subtree');
+      }
+
+      const destParent = this.getDirectory(dest.parentPath);
+      let existing = destParent.getChild(dest.name);
+
+      if (existing === node) {
+        if (node.name === (this.namePolicy?.store(dest.name) ?? dest.name)) {
+          return;
+        }
+        // 僅變更大小寫或正規化形式
+        existing = undefined;
+      }
+
+      this.checkEntryPermission(destParent, dest.parentPath, existing);
+
+      if (existing) {
+        if (!overwrite) {
+          throw new FileAlreadyExistsError(destPath);
+        }
+
+        if (existing.isDirectory) {
+          if (!node.isDirectory) {
+            throw new NotAFileError(destPath);
+          }
+          if (!(existing as VFSDirectory).isEmpty) {
+            throw new DirectoryNotEmptyError(destPath);
+          }
+        } else if (node.isDirectory) {
+          throw new NotADirectoryError(destPath);
+        }
+
+        destParent.removeChild(dest.name);
+        this.releaseNode(existing);
+      }
+
+      srcParent.removeChild(src.name);
+      node.rename(dest.name);
+      node.markChanged();
+      destParent.addChild(node);
+
+      const destCanonical = this.canonicalPath(dest.fullPath);
+      this.descriptors.renamePath(srcCanonical, destCanonical);
+
+      // 工作目錄隨被移動的目錄一起移動
+      if (this.cwdPath === srcCanonical || this.cwdPath.startsWith(`${srcCanonical}/`)) {
+        this.setCwd(this.resolveRealPath(dest.fullPath) + this.cwdPath.slice(srcCanonical.length));
+      }
+
+      this.notifyRename(srcCanonical, destCanonical, node);
+    }, destPath));
+  }
+
+  // ============================================================
+  // 硬連結
+  // ============================================================
+
+  /** 建立硬連結（與既有檔案共享內容與中繼資料，符號連結會被跟隨） */
+  async link(existingPath: string, newPath: string): Promise<void> {
+    this.linkSync(existingPath, newPath);
+  }
+
+  /** 建立硬連結（同步） */
+  linkSync(existingPath: string, newPath: string): void {
+    this.recordHistory('link', () => [this.affectedPath(newPath, false)], () => this.withSyscall('link', () => {
+      const node = this.resolveNode(existingPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(existingPath);
+      }
+
+      if (!node.isFile) {
+        throw new OperationNotPermittedError(existingPath);
+      }
+
+      const { parentPath, name, fullPath } = this.parsePath(newPath);
+      const parent = this.getDirectory(parentPath);
+
+      if (parent.hasChild(name)) {
+        throw new FileAlreadyExistsError(newPath);
+      }
+
+      this.checkEntryPermission(parent, parentPath);
+      parent.addChild((node as VFSFile).createLink(name));
+      this.notifyWatchers(fullPath, 'add');
+    }, newPath));
+  }
+
+  // ============================================================
+  // 權限
+  // ============================================================
+
+  /** 取得目前的執行身分 */
+  getCredentials(): VFSCredentials {
+    return { ...this.credentials, groups: [...(this.credentials.groups ?? [])] };
+  }
+
+  /** 設定執行身分（之後的操作以此身分檢查權限） */
+  setCredentials(credentials: VFSCredentials): void {
+    this.credentials = { ...credentials, groups: [...(credentials.groups ?? [])] };
+  }
+
+  /** 檢查目前身分的存取權限（不論是否啟用權限檢查） */
+  async access(targetPath: string, mode: number = AccessMode.Exists): Promise<void> {
+    this.accessSync(targetPath, mode);
+  }
+
+  /** 檢查目前身分的存取權限（同步） */
+  accessSync(targetPath: string, mode: number = AccessMode.Exists): void {
+    this.withSyscall('access', () => {
+      const node = this.resolveNode(targetPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      if (!hasPermission(node, this.credentials, mode)) {
+        throw new PermissionError(targetPath);
+      }
+    });
+  }
+
+  /** 變更權限模式（跟隨符號連結，僅擁有者或 root 可變更） */
+  async chmod(targetPath: string, mode: number): Promise<void> {
+    this.chmodSync(targetPath, mode);
+  }
+
+  /** 變更權限模式（同步） */
+  chmodSync(targetPath: string, mode: number): void {
+    this.recordHistory('chmod', () => [this.affectedPath(targetPath, true)], () => this.withSyscall('chmod', () => {
+      const node = this.resolveNode(targetPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      if (this.options.enforcePermissions && !isRoot(this.credentials) && node.uid !== this.credentials.uid) {
+        throw new PermissionError(targetPath);
+      }
+
+      node.mode = mode & 0o7777;
+      node.markChanged();
+    }));
+  }
+
+  /** 變更擁有者（跟隨符號連結，-1 表示不變更） */
+  async chown(targetPath: string, uid: number, gid: number): Promise<void> {
+    this.chownSync(targetPath, uid, gid);
+  }
+
+  /** 變更擁有者（同步） */
+  chownSync(targetPath: string, uid: number, gid: number): void {
+    this.recordHistory('chown', () => [this.affectedPath(targetPath, true)], () => this.withSyscall('chown', () => {
+      const node = this.resolveNode(targetPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      this.changeOwner(node, targetPath, uid, gid);
+    }));
+  }
+
+  /** 變更符號連結本身的擁有者 */
+  async lchown(targetPath: string, uid: number, gid: number): Promise<void> {
+    this.lchownSync(targetPath, uid, gid);
+  }
+
+  /** 變更符號連結本身的擁有者（同步） */
+  lchownSync(targetPath: string, uid: number, gid: number): void {
+    this.recordHistory('chown', () => [this.affectedPath(targetPath, false)], () => this.withSyscall('lchown', () => {
+      const node = this.resolveNode(targetPath, false);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      this.changeOwner(node, targetPath, uid, gid);
+    }));
+  }
+
+  // ============================================================
+  // 時間戳記
+  // ============================================================
+
+  /** 設定存取與修改時間（跟隨符號連結，數字以秒為單位） */
+  async utimes(targetPath: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+    this.utimesSync(targetPath, atime, mtime);
+  }
+
+  /** 設定存取與修改時間（同步） */
+  utimesSync(targetPath: string, atime: TimeLike, mtime: TimeLike): void {
+    this.recordHistory('utimes', () => [this.affectedPath(targetPath, true)], () => this.withSyscall('utime', () => {
+      const node = this.resolveNode(targetPath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      this.changeTimes(node, targetPath, atime, mtime);
+    }));
+  }
+
+  /** 設定符號連結本身的存取與修改時間 */
+  async lutimes(targetPath: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+    this.lutimesSync(targetPath, atime, mtime);
+  }
+
+  /** 設定符號連結本身的存取與修改時間（同步） */
+  lutimesSync(targetPath: string, atime: TimeLike, mtime: TimeLike): void {
+    this.recordHistory('utimes', () => [this.affectedPath(targetPath, false)], () => this.withSyscall('lutime', () => {
+      const node = this.resolveNode(targetPath, false);
+
+      if (!node) {
+        throw new FileNotFoundError(targetPath);
+      }
+
+      this.changeTimes(node, targetPath, atime, mtime);
+    }));
+  }
+
+  /** 透過檔案描述符設定存取與修改時間 */
+  async futimes(fd: number, atime: TimeLike, mtime: TimeLike): Promise<void> {
+    this.futimesSync(fd, atime, mtime);
+  }
+
+  /** 透過檔案描述符設定存取與修改時間（同步） */
+  futimesSync(fd: number, atime: TimeLike, mtime: TimeLike): void {
+    this.recordHistory('utimes', () => this.descriptorPaths(fd), () => this.withSyscall('futime', () => {
+      const descriptor = this.descriptors.get(fd);
+      this.changeTimes(descriptor.node, descriptor.path, atime, mtime);
+    }));
+  }
+
+  // ============================================================
+  // 延伸屬性
+  // ============================================================
+
+  /** 設定延伸屬性（跟隨符號連結，需要寫入權限） */
+  async setxattr(targetPath: string, name: string, value: string | Buffer, options?: SetXattrOptions): Promise<void> {
+    this.setxattrSync(targetPath, name, value, options);
+  }
+
+  /** 設定延伸屬性（同步） */
+  setxattrSync(targetPath: string, name: string, value: string | Buffer, options?: SetXattrOptions): void {
+    this.recordHistory('xattr', () => [this.affectedPath(targetPath, true)], () => this.withSyscall('setxattr', () => {
+      const node = this.resolveXattrNode(targetPath, name, AccessMode.Write);
+      const data = Buffer.from(value);
+      const { maxXattrSize } = this.options;
+
+      if (data.length > maxXattrSize) {
+        throw new XattrTooLargeError(targetPath, name, maxXattrSize);
+      }
+
+      const exists = node.inode.xattrs.has(name);
+
+      if (options?.flag === 'create' && exists) {
+        throw new XattrAlreadyExistsError(targetPath, name);
+      }
+      if (options?.flag === 'replace' && !exists) {
+        throw new XattrNotFoundError(targetPath, name);
+      }
+
+      node.inode.xattrs.set(name, data);
+      node.markChanged();
+    }));
+  }
+
+  /** 讀取延伸屬性（跟隨符號連結，需要讀取權限） */
+  async getxattr(targetPath: string, name: string, encoding?: BufferEncoding): Promise<string | Buffer> {
+    return this.getxattrSync(targetPath, name, encoding);
+  }
+
+  /** 讀取延伸屬性（同步） */
+  getxattrSync(targetPath: string, name: string, encoding?: BufferEncoding): string | Buffer {
+    return this.withSyscall('getxattr', () => {
+      const node = this.resolveXattrNode(targetPath, name, AccessMode.Read);
+      const value = node.inode.xattrs.get(name);
+
+      if (!value) {
+        throw new XattrNotFoundError(targetPath, name);
+      }
+
+      return encoding ? value.toString(encoding) : Buffer.from(value);
+    });
+  }
+
+  /** 列出延伸屬性名稱（依設定順序，跟隨符號連結） */
+  async listxattr(targetPath: string): Promise<string[]> {
+    return this.listxattrSync(targetPath);
+  }
+
+  /** 列出延伸屬性名稱（同步） */
+  listxattrSync(targetPath: string): string[] {
+    return this.withSyscall('listxattr', () => {
+      return [...this.resolveXattrNode(targetPath, null, AccessMode.Exists).inode.xattrs.keys()];
+    });
+  }
+
+  /** 移除延伸屬性（跟隨符號連結，需要寫入權限） */
+  async removexattr(targetPath: string, name: string): Promise<void> {
+    this.removexattrSync(targetPath, name);
+  }
+
+  /** 移除延伸屬性（同步） */
+  removexattrSync(targetPath: string, name: string): void {
+    this.recordHistory('xattr', () => [this.affectedPath(targetPath, true)], () => this.withSyscall('removexattr', () => {
+      const node = this.resolveXattrNode(targetPath, name, AccessMode.Write);
+
+      if (!node.inode.xattrs.delete(name)) {
+        throw new XattrNotFoundError(targetPath, name);
+      }
+
+      node.markChanged();
+    }));
+  }
+
+  // ============================================================
+  // 符號連結
+  // ============================================================
+
+  /** 建立符號連結 */
+  async createSymlink(target: string, linkPath: string): Promise<void> {
+    this.createSymlinkSync(target, linkPath);
+  }
+
+  /** 建立符號連結（同步） */
+  createSymlinkSync(target: string, linkPath: string): void {
+    this.recordHistory('symlink', () => [this.affectedPath(linkPath, false)], () => this.withSyscall('symlink', () => {
+      const { parentPath, name } = this.parsePath(linkPath);
+
+      // 確保父目錄存在
+      this.createDirectorySync(parentPath, true);
+
+      const parent = this.getDirectory(parentPath);
+
+      if (parent.hasChild(name)) {
+        throw new FileAlreadyExistsError(linkPath);
+      }
+
+      this.checkEntryPermission(parent, parentPath);
+      this.ensureCapacity(linkPath, parentPath, 0, 1);
+      const symlink = this.assignOwner(new VFSSymlink(name, target));
+      parent.addChild(symlink);
+    }));
+  }
+
+  /** 讀取符號連結目標 */
+  async readSymlink(linkPath: string): Promise<string> {
+    return this.readSymlinkSync(linkPath);
+  }
+
+  /** 讀取符號連結目標（同步） */
+  readSymlinkSync(linkPath: string): string {
+    return this.withSyscall('readlink', () => {
+      const node = this.resolveNode(linkPath, false);
+
+      if (!node) {
+        throw new FileNotFoundError(linkPath);
+      }
+
+      if (!node.isSymlink) {
+        throw new NotASymlinkError(linkPath);
+      }
+
+      return (node as VFSSymlink).target;
+    });
+  }
+
+  /** 取得解析所有符號連結後的絕對路徑（保留路徑中的大小寫與正規化形式，如 fs.realpath） */
+  async realpath(targetPath: string): Promise<string> {
+    return this.realpathSync(targetPath);
+  }
+
+  /** 取得解析所有符號連結後的絕對路徑（同步） */
+  realpathSync(targetPath: string): string {
+    return this.withSyscall('realpath', () => this.formatPath(this.resolveRealPath(targetPath, false)));
+  }
+
+  /** 取得解析所有符號連結後的絕對路徑，並套用實際儲存的名稱（如 fs.realpath.native） */
+  async realpathNative(targetPath: string): Promise<string> {
+    return this.realpathNativeSync(targetPath);
+  }
+
+  /** 取得解析所有符號連結後的絕對路徑，並套用實際儲存的名稱（同步） */
+  realpathNativeSync(targetPath: string): string {
+    return this.withSyscall('realpath', () => this.formatPath(this.resolveRealPath(targetPath)));
+  }
+
+  // ============================================================
+  // 檔案描述符
+  // ============================================================
+
+  /** 開啟檔案，回傳檔案描述符 */
+  async open(filePath: string, flags: OpenFlags = 'r', mode?: number): Promise<number> {
+    return this.openSync(filePath, flags, mode);
+  }
+
+  /** 開啟檔案，回傳檔案描述符（同步） */
+  openSync(filePath: string, flags: OpenFlags = 'r', mode?: number): number {
+    // 會建立或截斷檔案的開啟記錄為寫入
+    const targets = (): string[] => {
+      const { create, truncate } = parseOpenFlags(flags);
+      return create || truncate ? [this.affectedPath(filePath, true)] : [];
+    };
+
+    return this.recordHistory('write', targets, () => this.withSyscall('open', () => {
+      const flagInfo = parseOpenFlags(flags);
+      const { parentPath, name, fullPath } = this.parsePath(filePath);
+      const node = this.resolveNode(filePath, true);
+
+      if (node) {
+        if (flagInfo.exclusive) {
+          throw new FileAlreadyExistsError(filePath);
+        }
+
+        if (!node.isFile) {
+          throw new NotAFileError(filePath);
+        }
+
+        const file = node as VFSFile;
+        this.checkPermission(file, fullPath, (flagInfo.readable ? AccessMode.Read : 0) | (flagInfo.writable ? AccessMode.Write : 0));
+
+        if (flagInfo.truncate && file.size > 0) {
+          file.truncate(0);
+          this.notifyWatchers(fullPath, 'change');
+        }
+
+        return this.descriptors.allocate(this.canonicalPath(fullPath), file, flagInfo);
+      }
+
+      if (!flagInfo.create) {
+        throw new FileNotFoundError(filePath);
+      }
+
+      // 與 open(2) 相同，不自動建立父目錄
+      const parent = this.getDirectory(parentPath);
+
+      if (parent.hasChild(name)) {
+        // 斷開的符號連結
+        throw flagInfo.exclusive ? new FileAlreadyExistsError(filePath) : new FileNotFoundError(filePath);
+      }
+
+      this.checkEntryPermission(parent, parentPath);
+      this.ensureCapacity(filePath, parentPath, 0, 1);
+      const file = this.assignOwner(new VFSFile(name, Buffer.alloc(0), mode ?? this.options.defaultFileMode));
+      parent.addChild(file);
+      this.notifyWatchers(fullPath, 'add');
+
+      return this.descriptors.allocate(this.canonicalPath(fullPath), file, flagInfo);
+    }));
+  }
+
+  /** 從檔案描述符讀取（position 為 null 時使用並推進目前位置） */
+  async read(fd: number, buffer: Buffer, offset = 0, length = buffer.length - offset, position: number | null = null): Promise<number> {
+    return this.readSync(fd, buffer, offset, length, position);
+  }
+
+  /** 從檔案描述符讀取（同步） */
+  readSync(fd: number, buffer: Buffer, offset = 0, length = buffer.length - offset, position: number | null = null): number {
+    return this.withSyscall('read', () => {
+      const descriptor = this.descriptors.get(fd);
+
+      if (!descriptor.flags.readable) {
+        throw new BadFileDescriptorError(fd);
+      }
+
+      const start = position ?? descriptor.position;
+      const bytesRead = descriptor.node.readAt(buffer, offset, length, start);
+
+      if (position === null) {
+        descriptor.position += bytesRead;
+      }
+
+      return bytesRead;
+    });
+  }
+
+  /** 寫入檔案描述符（position 為 null 時使用並推進目前位置；追加模式一律寫入結尾） */
+  async write(fd: number, data: string | Buffer, position: number | null = null): Promise<number> {
+    return this.writeSync(fd, data, position);
+  }
+
+  /** 寫入檔案描述符（同步） */
+  writeSync(fd: number, data: string | Buffer, position: number | null = null): number {
+    return this.recordHistory('write', () => this.descriptorPaths(fd), () => this.withSyscall('write', () => {
+      const descriptor = this.descriptors.get(fd);
+
+      if (!descriptor.flags.writable) {
+        throw new BadFileDescriptorError(fd);
+      }
+
+      const buffer = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+      const start = descriptor.flags.append ? descriptor.node.size : position ?? descriptor.position;
+      const size = Math.max(descriptor.node.size, start + buffer.length);
+
+      this.ensureCapacity(descriptor.path, dirname(descriptor.path), size - descriptor.node.size, 0, size);
+      descriptor.node.writeAt(buffer, start);
+
+      if (position === null || descriptor.flags.append) {
+        descriptor.position = start + buffer.length;
+      }
+
+      this.notifyWatchers(descriptor.path, 'change');
+      return buffer.length;
+    }));
+  }
+
+  /** 截斷檔案描述符對應的檔案 */
+  async ftruncate(fd: number, length = 0): Promise<void> {
+    this.ftruncateSync(fd, length);
+  }
+
+  /** 截斷檔案描述符對應的檔案（同步） */
+  ftruncateSync(fd: number, length = 0): void {
+    this.recordHistory('truncate', () => this.descriptorPaths(fd), () => this.withSyscall('ftruncate', () => {
+      const descriptor = this.descriptors.get(fd);
+
+      if (!descriptor.flags.writable) {
+        throw new BadFileDescriptorError(fd);
+      }
+
+      this.ensureCapacity(descriptor.path, dirname(descriptor.path), length - descriptor.node.size, 0, length);
+      descriptor.node.truncate(length);
+      this.notifyWatchers(descriptor.path, 'change');
+    }));
+  }
+
+  /** 取得檔案描述符對應的統計 */
+  async fstat(fd: number): Promise<FileStats> {
+    return this.fstatSync(fd);
+  }
+
+  /** 取得檔案描述符對應的統計（同步） */
+  fstatSync(fd: number): FileStats {
+    return this.withSyscall('fstat', () => {
+      return this.descriptors.get(fd).node.getStats();
+    });
+  }
+
+  /** 關閉檔案描述符 */
+  async close(fd: number): Promise<void> {
+    this.closeSync(fd);
+  }
+
+  /** 關閉檔案描述符（同步） */
+  closeSync(fd: number): void {
+    this.withSyscall('close', () => {
+      this.descriptors.release(fd);
+      this.locks.releaseDescriptor(fd);
+    });
+  }
+
+  // ============================================================
+  // 檔案鎖
+  // ============================================================
+
+  /** 對整個檔案加上或解除建議式鎖（與 flock(2) 相同，預設等待至可取得） */
+  async flock(fd: number, operation: FlockOperation, options?: LockOptions): Promise<void> {
+    await this.withSyscallAsync('flock', () => {
+      return this.applyLock(this.descriptors.get(fd), 'flock', operation, 0, Infinity, options?.owner, options?.wait ?? true);
+    });
+  }
+
+  /** 對整個檔案加上或解除建議式鎖（同步，無法立即取得時拋出 LockConflictError） */
+  flockSync(fd: number, operation: FlockOperation, options?: Omit<LockOptions, 'wait'>): void {
+    this.withSyscall('flock', () => {
+      this.applyLock(this.descriptors.get(fd), 'flock', operation, 0, Infinity, options?.owner, false);
+    });
+  }
+
+  /** 對位元組範圍加上或解除建議式鎖（與 fcntl 的 F_SETLKW 相同，預設等待至可取得） */
+  async lockRange(fd: number, lock: RangeLock, options?: LockOptions): Promise<void> {
+    await this.withSyscallAsync('fcntl', () => {
+      return this.requestRangeLock(fd, lock, options?.owner, options?.wait ?? true);
+    });
+  }
+
+  /** 對位元組範圍加上或解除建議式鎖（同步，與 F_SETLK 相同不等待） */
+  lockRangeSync(fd: number, lock: RangeLock, options?: Omit<LockOptions, 'wait'>): void {
+    this.withSyscall('fcntl', () => {
+      this.requestRangeLock(fd, lock, options?.owner, false);
+    });
+  }
+
+  /** 列出檔案目前持有的鎖（跟隨符號連結，硬連結共享同一組鎖） */
+  getLocks(filePath: string): LockInfo[] {
+    return this.withSyscall('fcntl', () => {
+      const node = this.resolveNode(filePath, true);
+
+      if (!node) {
+        throw new FileNotFoundError(filePath);
+      }
+
+      return this.locks.list(node.inode).map(record => ({
+        kind: record.kind,
+        type: record.exclusive ? 'exclusive' : 'shared',
+        start: record.start,
+        length: record.end === Infinity ? 0 : record.end - record.start,
+        fd: record.fd,
+        owner: record.owner,
+      }));
+    });
+  }
+
+  // ============================================================
+  // 串流
+  // ============================================================
+
+  /** 建立讀取串流 */
+  createReadStream(filePath: string, options?: ReadStreamOptions): VFSReadStream {
+    return new VFSReadStream(filePath, {
+      open: flags => this.openSync(filePath, flags),
+      read: (fd, buffer, offset, length, position) => this.readSync(fd, buffer, offset, length, position),
+      close: fd => this.closeSync(fd),
+    }, options);
+  }
+
+  /** 建立寫入串流（完成時才通知 watcher；開啟到關閉之間的寫入記錄為單一歷程項目） */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): VFSWriteStream {
+    let recording: PendingRecord | null = null;
+
+    return new VFSWriteStream(filePath, {
+      open: flags => {
+        recording = this.beginRecording(() => [this.affectedPath(filePath, true)]);
+        return this.withoutRecording(() => this.withoutNotifications(() => this.openSync(filePath, flags)));
+      },
+      write: (fd, data, position) =>
+        this.withoutRecording(() => this.withoutNotifications(() => this.writeSync(fd, data, position))),
+      close: fd => {
+        this.closeSync(fd);
+        if (recording) {
+          this.finishRecording('write', recording);
+          recording = null;
+        }
+      },
+      finish: () => this.notifyWatchers(this.parsePath(filePath).fullPath, 'change'),
+    }, options);
+  }
+
+  // ============================================================
+  // Glob 搜尋
+  // ============================================================
+
+  /** Glob 搜尋 */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return this.globSync(pattern, options);
+  }
+
+  /** Glob 搜尋（同步） */
+  globSync(pattern: string, options?: GlobOptions): string[] {
+    return this.withSyscall('scandir', () => {
+      const cwd = this.canonicalPath(options?.cwd ?? '.');
+      const maxDepth = options?.maxDepth ?? Infinity;
+      const onlyFiles = options?.onlyFiles ?? false;
+      const onlyDirectories = options?.onlyDirectories ?? false;
+      const followSymlinks = options?.followSymlinks ?? true;
+      const dot = options?.dot ?? false;
+      const absolute = options?.absolute ?? true;
+      const ignore = options?.ignore ?? [];
+
+      const results: string[] = [];
+      const regex = this.patternToRegex(pattern);
+      const matchForm = this.matchForm();
+
+      const traverse = (dir: VFSDirectory, currentPath: string, depth: number): void => {
+        // 略過無法列出內容的目錄
+        if (depth > maxDepth || !this.isPermitted(dir, AccessMode.Read | AccessMode.Execute)) {
+          return;
+        }
+
+        for (const node of dir.getChildren()) {
+          const nodePath = currentPath === '/' ? `/${node.name}` : `${currentPath}/${node.name}`;
+          const relativePath = nodePath.slice(cwd === '/' ? 1 : cwd.length + 1);
+
+          // 檢查是否為隱藏檔案
+          if (!dot && node.name.startsWith('.')) {
+            continue;
+          }
+
+          // 檢查忽略規則
+          if (this.matchesIgnore(nodePath, ignore)) {
+            continue;
+          }
+
+          // 處理符號連結
+          let effectiveNode = node;
+          if (node.isSymlink && followSymlinks) {
+            const resolved = this.resolveNode(nodePath, true);
+            if (resolved) {
+              effectiveNode = resolved;
+            } else {
+              continue; // 斷開的符號連結
+            }
+          }
+
+          // 檢查是否符合 pattern
+          if (regex.test(matchForm(relativePath))) {
+            const shouldInclude =
+              (!onlyFiles && !onlyDirectories)
+              || (onlyFiles && effectiveNode.isFile)
+              || (onlyDirectories && effectiveNode.isDirectory);
+
+            if (shouldInclude) {
+              results.push(absolute ? this.formatPath(nodePath) : relativePath.replaceAll('/', this.path.sep));
+            }
+          }
+
+          // 遞迴處理目錄
+          if (effectiveNode.isDirectory) {
+            traverse(effectiveNode as VFSDirectory, nodePath, depth + 1);
+          }
+        }
+      };
+
+      const startDir = this.getDirectoryOrNull(cwd);
+      if (startDir) {
+        traverse(startDir, cwd, 0);
+      }
+
+      return results.sort();
+    });
+  }
+
+  // ============================================================
+  // 快照與回滾
+  // ============================================================
+
+  /** 建立快照（只凍結上次凍結後變更的節點，其餘沿用先前凍結的物件） */
+  createSnapshot(name?: string): SnapshotId {
+    const id = `snapshot-${++this.snapshotCounter}`;
+    const frozenRoot = this.root.freeze();
+
+    const { fileCount, directoryCount, totalSize } = frozenRoot.counts;
+
+    const info: SnapshotInfo = {
+      id,
+      name,
+      createdAt: new Date(),
+      fileCount,
+      directoryCount,
+      totalSize,
+    };
+
+    this.snapshots.set(id, { root: frozenRoot, info });
+
+    return id;
+  }
+
+  /** 還原快照（只重建與快照不同的節點，未變更的節點保留原本的 inode 與已開啟的描述符） */
+  restoreSnapshot(id: SnapshotId): void {
     const snapshot = this.snapshots.get(id);
 
-    if (!snapshot) {
-      throw new Error(`Snapshot not found: ${id}`);
+    if (!snapshot) {
+      throw new Error(`Snapshot not found: ${id}`);
+    }
+
+    const record = (tree: FrozenNode): HistoryState[] => [{ path: '/', tree }];
+    const before = this.root.freeze();
+
+    this.restoreDirectory(this.root, snapshot.root, new Map());
+    this.journal?.record('restore', ['/'], { before: record(before), after: record(snapshot.root) }, 0);
+  }
+
+  /** 取得快照資訊 */
+  getSnapshotInfo(id: SnapshotId): SnapshotInfo | undefined {
+    return this.snapshots.get(id)?.info;
+  }
+
+  /** 列出所有快照 */
+  listSnapshots(): SnapshotInfo[] {
+    return Array.from(this.snapshots.values()).map(s => s.info);
+  }
+
+  /** 刪除快照 */
+  deleteSnapshot(id: SnapshotId): boolean {
+    return this.snapshots.delete(id);
+  }
+
+  /** 計算兩個快照之間的差異（未指定 toId 時與目前的樹比較；相同的子樹直接略過） */
+  diff(fromId?: SnapshotId, toId?: SnapshotId): FileDiff[] {
+    const fromRoot = fromId ? this.snapshots.get(fromId)?.root : undefined;
+    const toRoot = toId ? this.snapshots.get(toId)?.root : this.root.freeze();
+
+    if (fromId && !fromRoot) {
+      throw new Error(`Snapshot not found: ${fromId}`);
+    }
+
+    if (toId && !toRoot) {
+      throw new Error(`Snapshot not found: ${toId}`);
+    }
+
+    const diffs: FileDiff[] = [];
+    this.computeDiff(fromRoot, toRoot!, '', diffs);
+
+    for (const diff of diffs) {
+      diff.path = this.formatPath(diff.path);
+    }
+
+    return diffs;
+  }
+
+  // ============================================================
+  // 交易
+  // ============================================================
+
+  /**
+   * 在交易中執行多個操作
+   * callback 收到的 tx 是此 VFS 的獨立副本，所有變更在 callback 成功完成時一次套用並通知 watcher，
+   * callback 拋出錯誤時全部捨棄；callback 結束後不應再使用 tx。
+   * 交易以凍結的快照為基準，tx 只在存取到的目錄建立節點，提交時只比較變更過的子樹
+   */
+  async transaction<T>(callback: (tx: VirtualFileSystem) => T | Promise<T>, options?: TransactionOptions): Promise<T> {
+    const base = this.root.freeze();
+    const tx = this.fork(thawNode(base, this.namePolicy, new Map()) as VFSDirectory);
+    const result = await callback(tx);
+
+    this.commitTransaction(base, tx.root, options?.detectConflicts ?? false);
+    return result;
+  }
+
+  /** 在交易中執行多個操作（同步） */
+  transactionSync<T>(callback: (tx: VirtualFileSystem) => T, options?: TransactionOptions): T {
+    const base = this.root.freeze();
+    const tx = this.fork(thawNode(base, this.namePolicy, new Map()) as VFSDirectory);
+    const result = callback(tx);
+
+    this.commitTransaction(base, tx.root, options?.detectConflicts ?? false);
+    return result;
+  }
+
+  // ============================================================
+  // 操作歷程
+  // ============================================================
+
+  /**
+   * 復原最近一次記錄的操作（需啟用 history 選項）
+   * 沒有可復原的項目時回傳 false；群組進行中時拋出錯誤
+   */
+  undo(): boolean {
+    if (this.journal?.groupOpen) {
+      throw new Error('Cannot undo while a history group is open');
+    }
+
+    const steps = this.journal?.undo();
+
+    if (!steps) {
+      return false;
+    }
+
+    this.replayHistory([...steps].reverse().flatMap(step => [...step.before].reverse()));
+    return true;
+  }
+
+  /** 重做最近一次復原的操作；沒有可重做的項目時回傳 false */
+  redo(): boolean {
+    if (this.journal?.groupOpen) {
+      throw new Error('Cannot redo while a history group is open');
+    }
+
+    const steps = this.journal?.redo();
+
+    if (!steps) {
+      return false;
+    }
+
+    this.replayHistory(steps.flatMap(step => step.after));
+    return true;
+  }
+
+  /** 依時間順序列出歷程項目（已復原的項目排在最後，undone 為 true） */
+  history(): HistoryEntry[] {
+    return this.journal?.list() ?? [];
+  }
+
+  /** 開始群組：到對應的 endGroup 為止記錄的操作合併為單一項目，可巢狀 */
+  beginGroup(name = 'group'): void {
+    this.journal?.beginGroup(name);
+  }
+
+  /** 結束群組（沒有進行中的群組時拋出錯誤） */
+  endGroup(): void {
+    this.journal?.endGroup();
+  }
+
+  /** 清除所有歷程項目 */
+  clearHistory(): void {
+    this.journal?.clear();
+  }
+
+  // ============================================================
+  // 工具方法
+  // ============================================================
+
+  /** 從 JSON 結構載入 */
+  async fromJSON(structure: DirectoryJSON, basePath = '/'): Promise<void> {
+    this.fromJSONSync(structure, basePath);
+  }
+
+  /** 從 JSON 結構載入（同步） */
+  fromJSONSync(structure: DirectoryJSON, basePath = '/'): void {
+    // 偵測格式：如果任何 key 以 / 開頭或包含 / 且 value 是字串，視為平面路徑格式
+    const isFlatFormat = Object.entries(structure).some(
+      ([key, value]) =>
+        (key.startsWith('/') || key.includes('/') || key.includes(this.path.sep)) &&
+        (typeof value === 'string' || Buffer.isBuffer(value) || value === null || isXattrEntryJSON(value))
+    );
+
+    if (isFlatFormat) {
+      // 平面路徑格式：{ '/path/to/file.ts': 'content' }
+      this.fromFlatJSON(structure);
+    } else {
+      // 嵌套結構格式：{ 'dir': { 'file.ts': 'content' } }
+      this.fromNestedJSON(structure, basePath);
+    }
+  }
+
+  /** 從平面路徑 JSON 結構載入 */
+  private fromFlatJSON(structure: DirectoryJSON): void {
+    for (const [path, value] of Object.entries(structure)) {
+      if (value === null || value === undefined) {
+        // null/undefined 表示目錄
+        this.createDirectorySync(path, true);
+      } else if (typeof value === 'string' || Buffer.isBuffer(value)) {
+        // 字串或 Buffer 表示檔案
+        this.writeFileSync(path, value);
+      } else if (isXattrEntryJSON(value)) {
+        // 帶有延伸屬性的檔案或目錄
+        if (value.content === null) {
+          this.createDirectorySync(path, true);
+        } else {
+          this.writeFileSync(path, value.content);
+        }
+
+        for (const [name, encoded] of Object.entries(value.xattrs)) {
+          this.setxattrSync(path, name, Buffer.from(encoded, 'base64'));
+        }
+      }
+      // 忽略其他物件（平面格式不應有嵌套物件）
+    }
+  }
+
+  /** 從嵌套結構 JSON 載入 */
+  private fromNestedJSON(structure: DirectoryJSON, basePath: string): void {
+    for (const [key, value] of Object.entries(structure)) {
+      const fullPath = join(basePath, key);
+
+      if (value === null) {
+        // null 表示目錄
+        this.createDirectorySync(fullPath, true);
+      } else if (typeof value === 'string' || Buffer.isBuffer(value)) {
+        // 字串或 Buffer 表示檔案
+        this.writeFileSync(fullPath, value);
+      } else if (typeof value === 'object') {
+        // 巢狀物件表示子目錄
+        this.createDirectorySync(fullPath, true);
+        this.fromNestedJSON(value as DirectoryJSON, fullPath);
+      }
+    }
+  }
+
+  /** 輸出為 JSON 結構 */
+  toJSON(basePath = '/', options?: ToJSONOptions): DirectoryJSON {
+    if (options?.flatten) {
+      return this.toFlatJSON(basePath, options.xattrs ?? false);
+    }
+    if (options?.xattrs) {
+      throw new TypeError('Exporting extended attributes requires the flatten option');
+    }
+    return this.toNestedJSON(basePath);
+  }
+
+  /** 輸出為平面路徑 JSON 結構 */
+  private toFlatJSON(basePath: string, includeXattrs: boolean): DirectoryJSON {
+    const result: DirectoryJSON = {};
+
+    // 有延伸屬性時以 XattrEntryJSON 表示，屬性值以 base64 編碼
+    const withXattrs = (node: VFSNode, content: string | null): string | null | XattrEntryJSON => {
+      if (!includeXattrs || node.inode.xattrs.size === 0) {
+        return content;
+      }
+
+      const xattrs: Record<string, string> = {};
+      for (const [name, value] of node.inode.xattrs) {
+        xattrs[name] = value.toString('base64');
+      }
+      return { content, xattrs };
+    };
+
+    const traverse = (dir: VFSDirectory, currentPath: string): void => {
+      for (const node of dir.getChildren()) {
+        const nodePath = currentPath === '/' ? `/${node.name}` : `${currentPath}/${node.name}`;
+
+        if (node.isFile) {
+          const content = (node as VFSFile).read();
+          result[this.formatPath(nodePath)] = withXattrs(
+            node,
+            Buffer.isBuffer(content) ? content.toString('utf-8') : content
+          );
+        } else if (node.isDirectory) {
+          const entry = withXattrs(node, null);
+          if (entry !== null) {
+            result[this.formatPath(nodePath)] = entry;
+          }
+          traverse(node as VFSDirectory, nodePath);
+        } else if (node.isSymlink) {
+          result[this.formatPath(nodePath)] = `symlink:${(node as VFSSymlink).target}`;
+        }
+      }
+    };
+
+    const startDir = this.getDirectoryOrNull(basePath);
+    if (startDir) {
+      const startPath = this.canonicalPath(basePath);
+      traverse(startDir, startPath === '/' ? '' : startPath);
+    }
+
+    return result;
+  }
+
+  /** 輸出為嵌套結構 JSON */
+  private toNestedJSON(basePath: string): DirectoryJSON {
+    const result: DirectoryJSON = {};
+    const dir = this.getDirectoryOrNull(basePath);
+
+    if (!dir) {
+      return result;
+    }
+
+    for (const node of dir.getChildren()) {
+      if (node.isFile) {
+        const content = (node as VFSFile).read();
+        result[node.name] = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
+      } else if (node.isDirectory) {
+        const subPath = basePath === '/' ? `/${node.name}` : `${basePath}/${node.name}`;
+        const subContent = this.toNestedJSON(subPath);
+        result[node.name] = Object.keys(subContent).length > 0 ? subContent : null;
+      } else if (node.isSymlink) {
+        result[node.name] = `symlink:${(node as VFSSymlink).target}`;
+      }
+    }
+
+    return result;
+  }
+
+  /** 重置檔案系統 */
+  reset(): void {
+    this.clearRoot();
+    this.createWin32Roots();
+    this.setCwd(this.defaultCwd());
+    this.snapshots.clear();
+    this.snapshotCounter = 0;
+    this.descriptors.clear();
+    this.locks.clear();
+    this.quotas.clear();
+    this.journal?.clear();
+  }
+
+  /** 監聽檔案變更 */
+  watch(inputPath: string, options?: WatchOptions): VFSWatcher {
+    return this.withSyscall('watch', () => {
+      const watchPath = this.canonicalPath(inputPath);
+      const watcher = new VFSWatcher(watchPath, options, path => this.formatPath(path));
+      this.watchers.add(watcher);
+
+      // 初始化已知路徑
+      if (!options?.ignoreInitial) {
+        this.initializeWatcher(watcher, watchPath);
+      }
+
+      // 當 watcher 關閉時從列表移除
+      const originalClose = watcher.close.bind(watcher);
+      watcher.close = () => {
+        this.watchers.delete(watcher);
+        originalClose();
+      };
+
+      // 發送 ready 事件
+      setTimeout(() => watcher.emitReady(), 0);
+
+      return watcher;
+    });
+  }
+
+  /** 初始化 watcher 的已知路徑 */
+  private initializeWatcher(watcher: VFSWatcher, basePath: string): void {
+    const traverse = (dirPath: string): void => {
+      try {
+        const entries = this.readDirectorySync(dirPath);
+        for (const entry of entries) {
+          const entryPath = join(dirPath, entry.name);
+          watcher.registerPath(entryPath);
+          if (entry.isDirectory) {
+            traverse(entryPath);
+          }
+        }
+      } catch {
+        // 忽略錯誤
+      }
+    };
+
+    watcher.registerPath(basePath);
+    traverse(basePath);
+  }
+
+  /** 通知所有 watcher 檔案變更 */
+  private notifyWatchers(path: string, type: WatcherEventType): void {
+    if (this.notificationsSuppressed > 0) {
+      return;
+    }
+
+    path = this.canonicalPath(path);
+    const stats = type !== 'unlink' && type !== 'unlinkDir'
+      ? this.resolveNode(path, true)?.getStats()
+      : undefined;
+
+    for (const watcher of this.watchers) {
+      switch (type) {
+        case 'change':
+        case 'add':
+          watcher.notifyChange(path, stats);
+          break;
+        case 'unlink':
+          watcher.notifyUnlink(path, false);
+          break;
+        case 'addDir':
+          watcher.notifyAddDir(path, stats);
+          break;
+        case 'unlinkDir':
+          watcher.notifyUnlink(path, true);
+          break;
+      }
+    }
+  }
+
+  /** 通知所有 watcher 重新命名 */
+  private notifyRename(oldPath: string, newPath: string, node: VFSNode): void {
+    if (this.notificationsSuppressed > 0) {
+      return;
+    }
+
+    const stats = node.getStats();
+
+    for (const watcher of this.watchers) {
+      watcher.notifyRename(oldPath, newPath, node.isDirectory, stats);
+    }
+  }
+
+  /** 執行操作期間暫停通知 watcher */
+  private withoutNotifications<T>(operation: () => T): T {
+    this.notificationsSuppressed++;
+
+    try {
+      return operation();
+    } finally {
+      this.notificationsSuppressed--;
+    }
+  }
+
+  // ============================================================
+  // 私有方法
+  // ============================================================
+
+  /**
+   * 執行操作，並在拋出的 FileSystemError 上記錄失敗的系統呼叫與目的路徑
+   * 操作互相呼叫時以最外層（使用者呼叫的操作）為準
+   */
+  private withSyscall<T>(syscall: string, operation: () => T, dest?: string): T {
+    try {
+      return operation();
+    } catch (error) {
+      throw this.tagError(error, syscall, dest);
+    }
+  }
+
+  /** 與 withSyscall 相同，但也處理等待期間才發生的錯誤 */
+  private async withSyscallAsync<T>(syscall: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      throw this.tagError(error, syscall);
+    }
+  }
+
+  /** 在檔案系統錯誤上記錄系統呼叫（啟用 posixErrorCodes 時改用 POSIX 錯誤碼） */
+  private tagError(error: unknown, syscall: string, dest?: string): unknown {
+    if (error instanceof FileSystemError) {
+      error.setSyscall(syscall, dest);
+
+      if (this.options.posixErrorCodes) {
+        error.usePosixCode();
+      }
+    }
+
+    return error;
+  }
+
+  /**
+   * 依此 VFS 的路徑規則驗證並解析路徑（相對路徑以工作目錄為基準）
+   * win32 格式下各根目錄儲存為 /C: 與 /UNC:/server/share，根目錄之後的部分才套用路徑規則
+   */
+  private parsePath(inputPath: string): PathResolution {
+    if (!inputPath) {
+      return resolvePath(inputPath, this.pathRules);
+    }
+
+    if (this.options.pathStyle !== 'win32') {
+      const input = this.pathRules.literalBackslash ? inputPath : inputPath.replace(/\\/g, '/');
+      const absolute = input.startsWith('/') ? input : join(this.cwdPath, input);
+      return resolvePath(absolute, this.pathRules);
+    }
+
+    const { root, rest } = toInternalParts(inputPath, this.cwd());
+    const resolution = resolvePath(rest, this.pathRules);
+    const fullPath = resolution.isRoot ? root : root + resolution.fullPath;
+    const segments = [...splitPath(root), ...resolution.segments];
+
+    return {
+      fullPath,
+      parentPath: dirname(fullPath),
+      name: segments[segments.length - 1],
+      segments,
+      isRoot: resolution.isRoot,
+    };
+  }
+
+  /** 內部路徑轉為對外回傳的路徑格式 */
+  private formatPath(internalPath: string): string {
+    return this.options.pathStyle === 'win32' ? fromInternalPath(internalPath) : internalPath;
+  }
+
+  /** 路徑中屬於根目錄的段落數（win32 的磁碟機或 UNC 根目錄） */
+  private rootSegmentCount(fullPath: string): number {
+    if (this.options.pathStyle !== 'win32') {
+      return 0;
+    }
+
+    return splitPath(toInternalParts(fullPath, this.cwd()).root).length;
+  }
+
+  /** 預設工作目錄（根目錄；win32 為第一個根目錄） */
+  private defaultCwd(): string {
+    if (this.options.pathStyle !== 'win32') {
+      return '/';
+    }
+
+    return toInternalRoot(parseWin32Root(this.options.win32Roots[0]).root);
+  }
+
+  /** 設定工作目錄並更新路徑操作的基準 */
+  private setCwd(cwdPath: string): void {
+    this.cwdPath = cwdPath;
+    this.pathModule = createPathModule(this.options.pathStyle, this.cwd());
+  }
+
+  /** 建立 win32 路徑格式的磁碟機與 UNC 根目錄 */
+  private createWin32Roots(): void {
+    if (this.options.pathStyle !== 'win32') {
+      return;
+    }
+
+    for (const rootPath of this.options.win32Roots) {
+      const { root, rest } = parseWin32Root(rootPath);
+
+      if (!root || root === '\\' || rest.replace(/[\\/]/g, '')) {
+        throw new InvalidPathError(rootPath, 'Expected a drive (C:\\) or UNC share (\\\\server\\share) root');
+      }
+
+      let current = this.root;
+
+      for (const segment of splitPath(toInternalRoot(root))) {
+        let child = current.getChild(segment);
+
+        if (!child) {
+          child = new VFSDirectory(segment, this.options.defaultDirectoryMode, this.namePolicy);
+          current.addChild(child);
+        }
+
+        current = child as VFSDirectory;
+      }
+    }
+  }
+
+  /** 解析符號連結目標（相對目標以連結所在目錄為基準） */
+  private resolveLinkTarget(linkDirPath: string, target: string): string {
+    if (this.options.pathStyle === 'win32') {
+      return parseWin32Root(target).root ? target : join(linkDirPath, target.replace(/\\/g, '/'));
+    }
+
+    const normalized = this.pathRules.literalBackslash ? target : target.replace(/\\/g, '/');
+    return normalized.startsWith('/') ? normalized : join(linkDirPath, normalized);
+  }
+
+  /** 解析節點 */
+  private resolveNode(inputPath: string, followSymlinks: boolean, depth = 0): VFSNode | null {
+    if (depth > this.options.maxSymlinkDepth) {
+      throw new SymlinkLoopError(inputPath);
+    }
+
+    const { segments } = this.parsePath(inputPath);
+    let current: VFSNode = this.root;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+
+      if (!current.isDirectory) {
+        return null;
+      }
+
+      this.checkPermission(current, '/' + segments.slice(0, i).join('/'), AccessMode.Execute);
+      const child = (current as VFSDirectory).getChild(segment);
+
+      if (!child) {
+        return null;
+      }
+
+      // 處理符號連結
+      if (child.isSymlink) {
+        if (followSymlinks || i < segments.length - 1) {
+          // 需要跟隨符號連結
+          const symlink = child as VFSSymlink;
+          const targetPath = this.resolveLinkTarget(dirname('/' + segments.slice(0, i + 1).join('/')), symlink.target);
+
+          const resolved = this.resolveNode(targetPath, true, depth + 1);
+
+          if (!resolved) {
+            return null;
+          }
+
+          if (i === segments.length - 1) {
+            return followSymlinks ? resolved : child;
+          }
+
+          current = resolved;
+        } else {
+          return child;
+        }
+      } else {
+        current = child;
+      }
+    }
+
+    return current;
+  }
+
+  /** 以實際儲存的名稱表示路徑（既有項目使用其名稱，不存在的部分轉為儲存形式） */
+  private canonicalPath(inputPath: string): string {
+    const { fullPath, segments } = this.parsePath(inputPath);
+
+    if (!this.namePolicy) {
+      return fullPath;
+    }
+
+
+    const { store } = this.namePolicy;
+    const canonical: string[] = [];
+    let current: VFSNode | null = this.root;
+
+    for (let i = 0; i < segments.length; i++) {
+      const child: VFSNode | undefined = current?.isDirectory
+        ? (current as VFSDirectory).getChild(segments[i])
+        : undefined;
+
+      if (!child) {
+        canonical.push(...segments.slice(i).map(store));
+        break;
+      }
+
+      canonical.push(child.name);
+      current = child.isSymlink ? this.resolveNodeOrNull('/' + canonical.join('/')) : child;
+    }
+
+    return '/' + canonical.join('/');
+  }
+
+  /**
+   * 解析所有符號連結後的實際路徑（內部形式）
+   * storedNames 為 true 時使用實際儲存的名稱，否則保留輸入與連結目標中的寫法
+   */
+  private resolveRealPath(inputPath: string, storedNames = true): string {
+    const pending = [...this.parsePath(inputPath).segments];
+    const resolved: string[] = [];
+    let current: VFSNode = this.root;
+    let links = 0;
+
+    while (pending.length > 0) {
+      const segment = pending.shift()!;
+      const currentPath = '/' + resolved.join('/');
+
+      if (!current.isDirectory) {
+        throw new NotADirectoryError(this.formatPath(currentPath));
+      }
+
+      this.checkPermission(current, currentPath, AccessMode.Execute);
+      const child: VFSNode | undefined = (current as VFSDirectory).getChild(segment);
+
+      if (!child) {
+        throw new FileNotFoundError(this.formatPath(join(currentPath, segment)));
+      }
+
+      if (!child.isSymlink) {
+        resolved.push(storedNames ? child.name : segment);
+        current = child;
+        continue;
+      }
+
+      if (++links > this.options.maxSymlinkDepth) {
+        throw new SymlinkLoopError(inputPath);
+      }
+
+      // 以連結目標取代此段落，從根目錄重新解析
+      const target = this.resolveLinkTarget(currentPath, (child as VFSSymlink).target);
+      pending.unshift(...this.parsePath(target).segments);
+      resolved.length = 0;
+      current = this.root;
+    }
+
+    return '/' + resolved.join('/');
+  }
+
+  /** 解析節點（解析失敗時回傳 null） */
+  private resolveNodeOrNull(inputPath: string): VFSNode | null {
+    try {
+      return this.resolveNode(inputPath, true);
+    } catch {
+      return null;
+    }
+  }
+
+  /** 取得目錄節點 */
+  private getDirectory(dirPath: string): VFSDirectory {
+    const node = this.resolveNode(dirPath, true);
+
+    if (!node) {
+      throw new DirectoryNotFoundError(dirPath);
+    }
+
+    if (!node.isDirectory) {
+      throw new NotADirectoryError(dirPath);
+    }
+
+    return node as VFSDirectory;
+  }
+
+  /** 取得目錄節點（可能為 null） */
+  private getDirectoryOrNull(dirPath: string): VFSDirectory | null {
+    try {
+      return this.getDirectory(dirPath);
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /** 目前身分是否具有存取權限（未啟用權限檢查時一律允許） */
+  private isPermitted(node: VFSNode, access: number): boolean {
+    return !this.options.enforcePermissions || hasPermission(node, this.credentials, access);
+  }
+
+  /** 確認目前身分具有存取權限 */
+  private checkPermission(node: VFSNode, path: string, access: number): void {
+    if (!this.isPermitted(node, access)) {
+      throw new PermissionError(path);
+    }
+  }
+
+  /** 驗證位元組範圍鎖的請求並套用 */
+  private requestRangeLock(fd: number, lock: RangeLock, owner: LockOwner | undefined, wait: boolean): Promise<void> {
+    const start = lock.start ?? 0;
+    const length = lock.length ?? 0;
+
+    if (!Number.isSafeInteger(start) || start < 0 || !Number.isSafeInteger(length) || length < 0) {
+      throw new TypeError(`Invalid lock range: start ${start}, length ${length}`);
+    }
+
+    const descriptor = this.descriptors.get(fd);
+
+    // 與 fcntl 相同，讀取鎖需要可讀的描述符，寫入鎖需要可寫的描述符
+    if ((lock.type === 'read' && !descriptor.flags.readable) || (lock.type === 'write' && !descriptor.flags.writable)) {
+      throw new BadFileDescriptorError(fd);
+    }
+
+    const operation = lock.type === 'unlock' ? 'unlock' : lock.type === 'write' ? 'exclusive' : 'shared';
+    return this.applyLock(descriptor, 'range', operation, start, length === 0 ? Infinity : start + length, owner, wait);
+  }
+
+  /** 透過檔案描述符取得或釋放鎖（擁有者預設為描述符本身） */
+  private applyLock(
+    descriptor: FileDescriptor,
+    kind: LockRecord['kind'],
+    operation: FlockOperation,
+    start: number,
+    end: number,
+    owner: LockOwner | undefined,
+    wait: boolean
+  ): Promise<void> {
+    const { inode } = descriptor.node;
+    const record: LockRecord = {
+      kind,
+      owner: owner ?? descriptor.fd,
+      fd: descriptor.fd,
+      exclusive: operation === 'exclusive',
+      start,
+      end,
+    };
+
+    if (operation === 'unlock') {
+      this.locks.release(inode, record);
+      return Promise.resolve();
+    }
+
+    return this.locks.acquire(inode, this.formatPath(descriptor.path), record, wait);
+  }
+
+  /** 取得要存取延伸屬性的節點（跟隨符號連結並檢查權限） */
+  private resolveXattrNode(targetPath: string, name: string | null, access: number): VFSNode {
+    if (name !== null && name.length === 0) {
+      throw new TypeError('Extended attribute name must not be empty');
+    }
+
+    const node = this.resolveNode(targetPath, true);
+
+    if (!node) {
+      throw new FileNotFoundError(targetPath);
+    }
+
+    this.checkPermission(node, targetPath, access);
+    return node;
+  }
+
+  /** 確認可在目錄中新增、移除或取代項目（含 sticky bit 限制） */
+  private checkEntryPermission(parent: VFSDirectory, parentPath: string, entry?: VFSNode): void {
+    this.checkPermission(parent, parentPath, AccessMode.Write | AccessMode.Execute);
+
+    if (entry && this.options.enforcePermissions && !canRemoveEntry(parent, entry, this.credentials)) {
+      throw new PermissionError(join(parentPath, entry.name));
+    }
+  }
+
+  /** 確認可遞迴移除目錄中的所有項目 */
+  private checkTreeRemoval(dir: VFSDirectory, dirPath: string): void {
+    if (!this.options.enforcePermissions || dir.isEmpty) {
+      return;
+    }
+
+    this.checkPermission(dir, dirPath, AccessMode.Read);
+
+    for (const [name, child] of dir.entries()) {
+      this.checkEntryPermission(dir, dirPath, child);
+
+      if (child.isDirectory) {
+        this.checkTreeRemoval(child as VFSDirectory, join(dirPath, name));
+      }
+    }
+  }
+
+  /** 將新節點的擁有者設為目前身分 */
+  private assignOwner<T extends VFSNode>(node: T): T {
+    node.uid = this.credentials.uid;
+    node.gid = this.credentials.gid;
+    return node;
+  }
+
+  /** 變更擁有者（非 root 只能將自己的檔案改為所屬的群組） */
+  private changeOwner(node: VFSNode, path: string, uid: number, gid: number): void {
+    const newUid = uid === -1 ? node.uid : uid;
+    const newGid = gid === -1 ? node.gid : gid;
+
+    if (this.options.enforcePermissions && !isRoot(this.credentials)) {
+      if (node.uid !== this.credentials.uid || newUid !== node.uid || !inGroup(this.credentials, newGid)) {
+        throw new PermissionError(path);
+      }
+    }
+
+    node.uid = newUid;
+    node.gid = newGid;
+    node.markChanged();
+  }
+
+  /** 設定存取與修改時間（僅擁有者或 root 可設定） */
+  private changeTimes(node: VFSNode, path: string, atime: TimeLike, mtime: TimeLike): void {
+    if (this.options.enforcePermissions && !isRoot(this.credentials) && node.uid !== this.credentials.uid) {
+      throw new PermissionError(path);
+    }
+
+    node.setTimes(timeToNs(atime), timeToNs(mtime));
+  }
+
+  /** glob 比對前統一 Unicode 正規化形式（大小寫由正規表示式旗標處理） */
+  private matchForm(): (value: string) => string {
+    const { unicodeNormalization } = this.options;
+
+    if (unicodeNormalization === 'none') {
+      return value => value;
+    }
+
+    const form = unicodeNormalization === 'nfd' ? 'NFD' : 'NFC';
+    return value => value.normalize(form);
+  }
+
+  /** 將 glob pattern 轉換為正規表示式 */
+  private patternToRegex(pattern: string): RegExp {
+    // 簡單的 glob 到 regex 轉換
+    let regex = this.matchForm()(pattern)
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&') // 跳脫特殊字元
+      .replace(/\*\*/g, '<<<GLOBSTAR>>>') // 暫時替換 **
+      .replace(/\*/g, '[^/]*') // * 匹配任意字元（不含路徑分隔符）
+      .replace(/\?/g, '[^/]') // ? 匹配單一字元
+      .replace(/<<<GLOBSTAR>>>/g, '.*'); // ** 匹配任意路徑
+
+    return new RegExp(`^${regex}$`, this.options.caseSensitive ? '' : 'i');
+  }
+
+  /** 檢查是否符合忽略規則 */
+  private matchesIgnore(path: string, ignorePatterns: string[]): boolean {
+    const matchForm = this.matchForm();
+
+    for (const pattern of ignorePatterns) {
+      const regex = this.patternToRegex(pattern);
+      if (regex.test(matchForm(path)) || regex.test(matchForm(basename(path)))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** 複製單一節點到目的目錄 */
+  private copyNode(
+    node: VFSNode,
+    srcPath: string,
+    destParent: VFSDirectory,
+    destName: string,
+    destPath: string,
+    options: CopyOptions,
+    inodes: InodeMap
+  ): void {
+    const existing = destParent.getChild(destName);
+
+    if (!node.isDirectory) {
+      if (node.isFile) {
+        this.checkPermission(node, srcPath, AccessMode.Read);
+      }
+
+      if (existing) {
+        if (existing.isDirectory) {
+          throw new NotAFileError(destPath);
+        }
+
+        if (!(options.overwrite ?? true)) {
+          if (options.errorOnExist) {
+            throw new FileAlreadyExistsError(destPath);
+          }
+          return;
+        }
+
+        this.checkEntryPermission(destParent, dirname(destPath), existing);
+        destParent.removeChild(destName);
+        this.releaseNode(existing);
+      } else {
+        this.checkEntryPermission(destParent, dirname(destPath));
+      }
+
+      this.attachCopy(node.clone(inodes), destParent, destName, destPath, options, existing ? 'change' : 'add');
+      return;
+    }
+
+    let targetDir: VFSDirectory;
+
+    this.checkPermission(node, srcPath, AccessMode.Read | AccessMode.Execute);
+
+    if (existing) {
+      const resolved = existing.isSymlink ? this.resolveNode(destPath, true) : existing;
+
+      if (!resolved?.isDirectory) {
+        throw new NotADirectoryError(destPath);
+      }
+
+      targetDir = resolved as VFSDirectory;
+    } else if (!options.filter && !options.dereference && !this.options.enforcePermissions) {
+      // 無需逐一判斷時，直接複製整個子樹
+      this.attachCopy(node.clone(inodes), destParent, destName, destPath, options, 'addDir');
+      return;
+    } else {
+      this.checkEntryPermission(destParent, dirname(destPath));
+      targetDir = new VFSDirectory(destName, node.mode, this.namePolicy);
+      targetDir.uid = node.uid;
+      targetDir.gid = node.gid;
+      node.inode.copyXattrsTo(targetDir.inode);
+      this.attachCopy(targetDir, destParent, destName, destPath, options, 'addDir');
+    }
+
+    for (const child of (node as VFSDirectory).getChildren()) {
+      const childSrc = join(srcPath, child.name);
+      const childDest = join(destPath, child.name);
+
+      if (options.filter && !options.filter(childSrc, childDest)) {
+        continue;
+      }
+
+      const source = options.dereference && child.isSymlink ? this.resolveNode(childSrc, true) : child;
+
+      if (!source) {
+        throw new FileNotFoundError(childSrc);
+      }
+
+      this.copyNode(source, childSrc, targetDir, child.name, childDest, options, inodes);
+    }
+
+    // 加入子節點會更新修改時間，因此於最後套用原始時間
+    if (options.preserveTimestamps && !existing) {
+      node.inode.copyMetadataTo(targetDir.inode);
+    }
+  }
+
+  /** 移除目錄項目後釋放連結（目錄會遞迴釋放子樹中的連結） */
+  private releaseNode(node: VFSNode): void {
+    node.unlink();
+
+    if (node.isDirectory) {
+      for (const [, child] of (node as VFSDirectory).entries()) {
+        this.releaseNode(child);
+      }
+    }
+  }
+
+  /** 清空根目錄 */
+  private clearRoot(root: VFSDirectory = this.root): void {
+    for (const [name, node] of root.entries()) {
+      root.removeChild(name);
+      this.releaseNode(node);
+    }
+  }
+
+  /** 建立以指定根目錄為內容的獨立副本（沿用選項、執行身分、工作目錄與配額） */
+  private fork(root: VFSDirectory): VirtualFileSystem {
+    const forked = new VirtualFileSystem({ ...this.options, history: false });
+
+    forked.clearRoot();
+    for (const [, node] of root.entries()) {
+      forked.root.addChild(node);
+    }
+    root.inode.copyMetadataTo(forked.root.inode);
+
+    forked.credentials = { ...this.credentials };
+    forked.setCwd(this.cwdPath);
+    for (const [path, quota] of this.quotas) {
+      forked.quotas.set(path, { ...quota });
+    }
+
+    return forked;
+  }
+
+  /** 將交易的變更（base → next）套用到目前的樹，並在全部套用後通知 watcher */
+  private commitTransaction(base: FrozenNode, next: VFSDirectory, detectConflicts: boolean): void {
+    const changes: TransactionChange[] = [];
+    this.collectChanges(base, next, '/', changes);
+
+    // 先檢查所有變更，確保衝突時不會套用任何變更
+    if (detectConflicts) {
+      for (const change of changes) {
+        const deep = !(change.base?.type === VFSNodeType.Directory && change.next?.isDirectory);
+
+        if (!this.isUnchangedSince(this.nodeAt(this.root, change.path), change.base, deep)) {
+          throw new TransactionConflictError(this.formatPath(change.path));
+        }
+      }
+    }
+
+    const events: Array<{ path: string; type: WatcherEventType }> = [];
+    const inodes: InodeMap = new Map();
+
+    // 目錄本身的中繼資料變更不記錄於歷程，避免保存整個目錄子樹
+    const recorded = changes
+      .filter(c => !(c.base?.type === VFSNodeType.Directory && c.next?.isDirectory))
+      .map(c => c.path);
+
+    this.recordHistory('transaction', () => recorded, () => {
+      for (const change of changes) {
+        this.applyChange(change, next, inodes, events);
+      }
+    });
+
+    for (const event of events) {
+      this.notifyWatchers(event.path, event.type);
+    }
+  }
+
+  /**
+   * 比較交易前後的目錄，收集變更（依狀態變更時間判斷節點是否被修改）
+   * 兩側皆為目錄時只記錄目錄本身並繼續比較子節點，其餘情況記錄整個節點；
+   * 仍保留交易開始時凍結狀態的子樹未曾變更，直接略過
+   */
+  private collectChanges(base: FrozenNode, next: VFSDirectory, path: string, changes: TransactionChange[]): void {
+    for (const baseChild of base.children!.values()) {
+      if (!next.hasChild(baseChild.name)) {
+        changes.push({ path: join(path, baseChild.name), base: baseChild });
+      }
+    }
+
+    for (const [name, nextChild] of next.entries()) {
+      const childPath = join(path, name);
+      const baseChild = getFrozenChild(base, name, this.namePolicy);
+
+      if (baseChild && nextChild.frozen === baseChild) {
+        continue;
+      }
+
+      if (!baseChild || baseChild.type !== nextChild.type) {
+        changes.push({ path: childPath, base: baseChild, next: nextChild });
+        continue;
+      }
+
+      if (baseChild.inode.changedTimeNs !== nextChild.inode.changedTimeNs) {
+        changes.push({ path: childPath, base: baseChild, next: nextChild });
+      }
+
+      if (nextChild.isDirectory) {
+        this.collectChanges(baseChild, nextChild as VFSDirectory, childPath, changes);
+      }
+    }
+  }
+
+  /** 節點是否與交易開始時相同（deep 為 false 時目錄只比較是否仍為目錄） */
+  private isUnchangedSince(current: VFSNode | undefined, base: FrozenNode | undefined, deep: boolean): boolean {
+    if (!current || !base) {
+      return !current && !base;
+    }
+
+    // 凍結狀態仍保留表示交易開始後未曾變更
+    if (current.frozen === base) {
+      return true;
+    }
+
+    if (current.type !== base.type) {
+      return false;
+    }
+
+    if (current.isDirectory && !deep) {
+      return true;
+    }
+
+    if (current.inode.changedTimeNs !== base.inode.changedTimeNs) {
+      return false;
+    }
+
+    if (!current.isDirectory) {
+      return true;
+    }
+
+    const currentDir = current as VFSDirectory;
+
+    if (currentDir.childCount !== base.children!.size) {
+      return false;
+    }
+
+    for (const child of base.children!.values()) {
+      if (!this.isUnchangedSince(currentDir.getChild(child.name), child, true)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /** 套用單一交易變更（檔案就地更新以保留 inode 與已開啟的描述符） */
+  private applyChange(
+    change: TransactionChange,
+    nextRoot: VFSDirectory,
+    inodes: InodeMap,
+    events: Array<{ path: string; type: WatcherEventType }>
+  ): void {
+    const { path, next } = change;
+    const current = this.nodeAt(this.root, path);
+
+    if (!next) {
+      if (current) {
+        this.removeNodeAt(path, current, events);
+      }
+      return;
+    }
+
+    if (current?.isDirectory && next.isDirectory) {
+      next.inode.copyMetadataTo(current.inode);
+      return;
+    }
+
+    if (current?.isFile && next.isFile) {
+      this.overwriteFile(current, next);
+      inodes.set(next.inode, current.inode);
+      events.push({ path, type: 'change' });
+      return;
+    }
+
+    this.replaceNodeAt(path, next.clone(inodes), nextRoot, events);
+  }
+
+  /** 從樹中移除路徑上的節點並記錄 watcher 事件 */
+  private removeNodeAt(path: string, node: VFSNode, events: Array<{ path: string; type: WatcherEventType }>): void {
+    (this.nodeAt(this.root, dirname(path)) as VFSDirectory).removeChild(node.name);
+    this.releaseNode(node);
+    events.push({ path, type: node.isDirectory ? 'unlinkDir' : 'unlink' });
+  }
+
+  /** 以來源檔案的內容與中繼資料就地更新檔案（保留 inode 與已開啟的描述符） */
+  private overwriteFile(target: VFSNode, source: VFSNode): void {
+    const targetInode = target.inode as VFSFileInode;
+    const sourceInode = source.inode as VFSFileInode;
+
+    targetInode.content = Buffer.from(sourceInode.content.subarray(0, sourceInode.length));
+    targetInode.length = sourceInode.length;
+    sourceInode.copyMetadataTo(targetInode);
+  }
+
+  /** 以節點取代路徑上的項目（上層目錄不存在時建立），並記錄整個子樹的 watcher 事件 */
+  private replaceNodeAt(
+    path: string,
+    node: VFSNode,
+    templateRoot: VFSDirectory | null,
+    events: Array<{ path: string; type: WatcherEventType }>
+  ): void {
+    const parent = this.ensureDirectoryAt(dirname(path), templateRoot, events);
+    const current = parent.getChild(basename(path));
+
+    if (current) {
+      parent.removeChild(current.name);
+      this.releaseNode(current);
+    }
+
+    parent.addChild(node);
+
+    const visit = (visited: VFSNode, nodePath: string, type: WatcherEventType): void => {
+      events.push({ path: nodePath, type });
+
+      if (visited.isDirectory) {
+        for (const [name, child] of (visited as VFSDirectory).entries()) {
+          visit(child, join(nodePath, name), child.isDirectory ? 'addDir' : 'add');
+        }
+      }
+    };
+
+    visit(node, path, node.isDirectory ? 'addDir' : current ? 'change' : 'add');
+  }
+
+  /**
+   * 取得目錄，不存在（或已不是目錄）時重新建立
+   * 有 templateRoot 時依其中相同路徑的目錄建立，否則使用預設權限模式
+   */
+  private ensureDirectoryAt(
+    dirPath: string,
+    templateRoot: VFSDirectory | null,
+    events: Array<{ path: string; type: WatcherEventType }>
+  ): VFSDirectory {
+    let current = this.root;
+    let currentPath = '/';
+
+    for (const name of dirPath.split('/').filter(Boolean)) {
+      currentPath = join(currentPath, name);
+      let child = current.getChild(name);
+
+      if (!child?.isDirectory) {
+        if (child) {
+          current.removeChild(name);
+          this.releaseNode(child);
+        }
+
+        const source = templateRoot ? this.nodeAt(templateRoot, currentPath) : undefined;
+
+        if (source) {
+          child = new VFSDirectory(source.name, source.mode, this.namePolicy);
+          source.inode.copyMetadataTo(child.inode);
+        } else {
+          child = this.assignOwner(new VFSDirectory(name, this.options.defaultDirectoryMode, this.namePolicy));
+        }
+        current.addChild(child);
+        events.push({ path: currentPath, type: 'addDir' });
+      }
+
+      current = child as VFSDirectory;
+    }
+
+    return current;
+  }
+
+  /** 依內部路徑取得節點（不跟隨符號連結） */
+  private nodeAt(root: VFSDirectory, path: string): VFSNode | undefined {
+    let node: VFSNode | undefined = root;
+
+    for (const name of path.split('/').filter(Boolean)) {
+      if (!node?.isDirectory) {
+        return undefined;
+      }
+      node = (node as VFSDirectory).getChild(name);
+    }
+
+    return node;
+  }
+
+  /**
+   * 執行操作並記錄於歷程（只記錄最外層且成功完成的操作）
+   * targets 回傳操作會影響的內部實際路徑，操作前後各保存一次這些路徑的狀態
+   */
+  private recordHistory<T>(operation: HistoryOperation, targets: () => string[], run: () => T): T {
+    const pending = this.beginRecording(targets, METADATA_OPERATIONS.has(operation));
+
+    if (!pending) {
+      return run();
+    }
+
+    const result = this.withoutRecording(run);
+    this.finishRecording(operation, pending);
+    return result;
+  }
+
+  /** 保存操作前的狀態（未啟用歷程、位於其他記錄中的操作內或沒有受影響的路徑時回傳 null） */
+  private beginRecording(targets: () => string[], metadataOnly = false): PendingRecord | null {
+    if (!this.journal || this.recordingDepth > 0) {
+      return null;
+    }
+
+    let paths: string[];
+    try {
+      paths = this.topmostPaths(targets());
+    } catch {
+      // 路徑無效時交由操作本身回報錯誤
+      return null;
+    }
+
+    if (paths.length === 0) {
+      return null;
+    }
+
+    return { paths, metadataOnly, before: this.captureStates(paths, metadataOnly) };
+  }
+
+  /** 保存操作後的狀態並記錄於歷程 */
+  private finishRecording(operation: HistoryOperation, pending: PendingRecord): void {
+    const { paths, metadataOnly, before } = pending;
+    const after = this.captureStates(paths, metadataOnly);
+    const bytes = [...before, ...after].reduce(
+      (sum, state) => sum + ('node' in state && state.node ? storageOf(state.node).bytes : 0),
+      0
+    );
+
+    this.journal!.record(operation, paths.map(path => this.formatPath(path)), { before, after }, bytes);
+  }
+
+  /** 執行操作期間不記錄內部的操作 */
+  private withoutRecording<T>(operation: () => T): T {
+    this.recordingDepth++;
+
+    try {
+      return operation();
+    } finally {
+      this.recordingDepth--;
+    }
+  }
+
+  /** 檔案描述符對應的檔案目前所在的內部路徑（檔案已不在樹中時為空） */
+  private descriptorPaths(fd: number): string[] {
+    const { node } = this.descriptors.get(fd);
+    const entry = [...node.inode.entries].find(candidate => this.entryPath(candidate) !== null);
+
+    return entry ? [this.entryPath(entry)!] : [];
+  }
+
+  /** 目錄項目在樹中的內部路徑（不在樹中時回傳 null） */
+  private entryPath(node: VFSNode): string | null {
+    const names: string[] = [];
+    let current = node;
+
+    while (current.parent) {
+      names.unshift(current.name);
+      current = current.parent;
+    }
+
+    return current === this.root ? '/' + names.join('/') : null;
+  }
+
+  /**
+   * 操作會影響的內部實際路徑：解析上層目錄中的符號連結，上層目錄不存在時回傳最上層不存在的目錄；
+   * followLast 為 true 時最後一段也跟隨符號連結
+   */
+  private affectedPath(inputPath: string, followLast: boolean): string {
+    const { parentPath, name, fullPath, isRoot } = this.parsePath(inputPath);
+
+    if (isRoot) {
+      return fullPath;
+    }
+
+    let realParent: string;
+    try {
+      realParent = this.resolveRealPath(parentPath);
+    } catch {
+      return this.affectedPath(parentPath, true);
     }
 
-    // 清空當前根目錄
-    for (const name of this.root.getChildNames()) {
-      this.root.removeChild(name);
+    const parent = this.nodeAt(this.root, realParent);
+    const child = parent?.isDirectory ? (parent as VFSDirectory).getChild(name) : undefined;
+
+    if (!child) {
+      return join(realParent, this.namePolicy?.store(name) ?? name);
     }
 
-    // 複製快照內容
-    const cloned = snapshot.root.clone();
-    for (const [, node] of cloned.entries()) {
-      this.root.addChild(node);
+    if (followLast && child.isSymlink) {
+      try {
+        return this.resolveRealPath(inputPath);
+      } catch {
+        // 連結目標不存在時影響連結本身
+      }
     }
-  }
 
-  /** 取得快照資訊 */
-  getSnapshotInfo(id: SnapshotId): SnapshotInfo | undefined {
-    return this.snapshots.get(id)?.info;
+    return join(realParent, child.name);
   }
 
-  /** 列出所有快照 */
-  listSnapshots(): SnapshotInfo[] {
-    return Array.from(this.snapshots.values()).map(s => s.info);
+  /** 去除重複與位於其他路徑之下的路徑 */
+  private topmostPaths(paths: string[]): string[] {
+    return paths.filter(
+      (path, i) => paths.indexOf(path) === i && !paths.some(other => isSubPath(path, other))
+    );
   }
 
-  /** 刪除快照 */
-  deleteSnapshot(id: SnapshotId): boolean {
-    return this.snapshots.delete(id);
-  }
+  /**
+   * 保存路徑目前的狀態（metadataOnly 時只保存中繼資料）
+   * 與保存範圍外的項目共享 inode 的檔案另外記下該項目的路徑
+   */
+  private captureStates(paths: string[], metadataOnly: boolean): HistoryState[] {
+    return paths.map(path => {
+      const node = this.nodeAt(this.root, path);
 
-  /** 計算兩個快照之間的差異 */
-  diff(fromId?: SnapshotId, toId?: SnapshotId): FileDiff[] {
-    const fromRoot = fromId ? this.snapshots.get(fromId)?.root : undefined;
-    const toRoot = toId ? this.snapshots.get(toId)?.root : this.root;
+      if (metadataOnly) {
+        return { path, metadata: node?.inode.freezeMetadata() ?? null };
+      }
 
-    if (fromId && !fromRoot) {
-      throw new Error(`Snapshot not found: ${fromId}`);
-    }
+      if (!node) {
+        return { path, node: null };
+      }
 
-    if (toId && !toRoot) {
-      throw new Error(`Snapshot not found: ${toId}`);
-    }
+      for (const entry of node.inode.entries) {
+        const link = entry === node ? null : this.entryPath(entry);
 
-    const diffs: FileDiff[] = [];
-    this.computeDiff(fromRoot ?? new VFSDirectory(''), toRoot!, '', diffs);
+        if (link && !paths.some(captured => captured === link || isSubPath(link, captured))) {
+          return { path, node: node.clone(), link };
+        }
+      }
 
-    return diffs;
+      return { path, node: node.clone() };
+    });
   }
 
-  // ============================================================
-  // 工具方法
-  // ============================================================
-
-  /** 從 JSON 結構載入 */
-  async fromJSON(structure: DirectoryJSON, basePath = '/'): Promise<void> {
-    // 偵測格式：如果任何 key 以 / 開頭或包含 / 且 value 是字串，視為平面路徑格式
-    const isFlatFormat = Object.entries(structure).some(
-      ([key, value]) =>
-        (key.startsWith('/') || key.includes('/')) &&
-        (typeof value === 'string' || Buffer.isBuffer(value) || value === null)
-    );
+  /** 依序將路徑還原為保存的狀態，並在全部還原後通知 watcher */
+  private replayHistory(states: HistoryState[]): void {
+    const events: Array<{ path: string; type: WatcherEventType }> = [];
 
-    if (isFlatFormat) {
-      // 平面路徑格式：{ '/path/to/file.ts': 'content' }
-      await this.fromFlatJSON(structure);
-    } else {
-      // 嵌套結構格式：{ 'dir': { 'file.ts': 'content' } }
-      await this.fromNestedJSON(structure, basePath);
+    for (const state of states) {
+      this.restoreState(state, events);
     }
-  }
 
-  /** 從平面路徑 JSON 結構載入 */
-  private async fromFlatJSON(structure: DirectoryJSON): Promise<void> {
-    for (const [path, value] of Object.entries(structure)) {
-      if (value === null || value === undefined) {
-        // null/undefined 表示目錄
-        await this.createDirectory(path, true);
-      } else if (typeof value === 'string' || Buffer.isBuffer(value)) {
-        // 字串或 Buffer 表示檔案
-        await this.writeFile(path, value);
-      }
-      // 忽略物件（平面格式不應有嵌套物件）
+    for (const event of events) {
+      this.notifyWatchers(event.path, event.type);
     }
   }
 
-  /** 從嵌套結構 JSON 載入 */
-  private async fromNestedJSON(structure: DirectoryJSON, basePath: string): Promise<void> {
-    for (const [key, value] of Object.entries(structure)) {
-      const fullPath = join(basePath, key);
+  /** 將路徑還原為保存的狀態（保存的節點不會被修改，可重複還原） */
+  private restoreState(state: HistoryState, events: Array<{ path: string; type: WatcherEventType }>): void {
+    const current = this.nodeAt(this.root, state.path);
 
-      if (value === null) {
-        // null 表示目錄
-        await this.createDirectory(fullPath, true);
-      } else if (typeof value === 'string' || Buffer.isBuffer(value)) {
-        // 字串或 Buffer 表示檔案
-        await this.writeFile(fullPath, value);
-      } else if (typeof value === 'object') {
-        // 巢狀物件表示子目錄
-        await this.createDirectory(fullPath, true);
-        await this.fromNestedJSON(value as DirectoryJSON, fullPath);
+    if ('metadata' in state) {
+      if (current && state.metadata) {
+        current.inode.restore(state.metadata);
+        current.markChanged();
       }
+      return;
     }
-  }
 
-  /** 輸出為 JSON 結構 */
-  toJSON(basePath = '/', options?: { flatten?: boolean }): DirectoryJSON {
-    if (options?.flatten) {
-      return this.toFlatJSON(basePath);
+    if ('tree' in state) {
+      this.restoreDirectory(this.root, state.tree, new Map());
+      return;
     }
-    return this.toNestedJSON(basePath);
-  }
-
-  /** 輸出為平面路徑 JSON 結構 */
-  private toFlatJSON(basePath: string): DirectoryJSON {
-    const result: DirectoryJSON = {};
 
-    const traverse = (dir: VFSDirectory, currentPath: string): void => {
-      for (const node of dir.getChildren()) {
-        const nodePath = currentPath === '/' ? `/${node.name}` : `${currentPath}/${node.name}`;
+    const { path, node, link } = state;
 
-        if (node.isFile) {
-          const content = (node as VFSFile).read();
-          result[nodePath] = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
-        } else if (node.isDirectory) {
-          traverse(node as VFSDirectory, nodePath);
-        } else if (node.isSymlink) {
-          result[nodePath] = `symlink:${(node as VFSSymlink).target}`;
-        }
+    if (!node) {
+      if (current) {
+        this.removeNodeAt(path, current, events);
       }
-    };
-
-    const startDir = this.getDirectoryOrNull(basePath);
-    if (startDir) {
-      traverse(startDir, basePath === '/' ? '' : basePath);
+      return;
     }
 
-    return result;
-  }
+    // 與其他項目共享 inode 的檔案重新建立為該項目的硬連結
+    const linked = link ? this.nodeAt(this.root, link) : undefined;
 
-  /** 輸出為嵌套結構 JSON */
-  private toNestedJSON(basePath: string): DirectoryJSON {
-    const result: DirectoryJSON = {};
-    const dir = this.getDirectoryOrNull(basePath);
+    if (linked?.isFile && node.isFile && current?.inode !== linked.inode) {
+      const entry = (linked as VFSFile).createLink(node.name);
+      this.replaceNodeAt(path, entry, null, events);
+      this.overwriteFile(entry, node);
+      return;
+    }
 
-    if (!dir) {
-      return result;
+    // 同名的檔案就地更新，保留 inode、硬連結與已開啟的描述符
+    if (current?.isFile && node.isFile && current.name === node.name) {
+      this.overwriteFile(current, node);
+      current.markChanged();
+      events.push({ path, type: 'change' });
+      return;
     }
 
-    for (const node of dir.getChildren()) {
-      if (node.isFile) {
-        const content = (node as VFSFile).read();
-        result[node.name] = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
-      } else if (node.isDirectory) {
-        const subPath = basePath === '/' ? `/${node.name}` : `${basePath}/${node.name}`;
-        const subContent = this.toNestedJSON(subPath);
-        result[node.name] = Object.keys(subContent).length > 0 ? subContent : null;
-      } else if (node.isSymlink) {
-        result[node.name] = `symlink:${(node as VFSSymlink).target}`;
+    // 根目錄無法取代，改為替換其內容（與還原快照相同，不通知 watcher）
+    if (current === this.root) {
+      this.clearRoot();
+      for (const [, child] of (node.clone() as VFSDirectory).entries()) {
+        this.root.addChild(child);
       }
+      node.inode.copyMetadataTo(this.root.inode);
+      return;
     }
 
-    return result;
+    const copy = node.clone();
+    copy.markChanged();
+    this.replaceNodeAt(path, copy, null, events);
   }
 
-  /** 重置檔案系統 */
-  reset(): void {
-    for (const name of this.root.getChildNames()) {
-      this.root.removeChild(name);
+  /**
+   * 依凍結的目錄還原目錄內容
+   * 凍結狀態與快照相同的節點保留原物件，不同的目錄遞迴比較，其餘節點由快照重建
+   */
+  private restoreDirectory(dir: VFSDirectory, frozen: FrozenNode, inodes: FrozenInodeMap): void {
+    if (dir.frozen === frozen) {
+      return;
     }
-    this.snapshots.clear();
-    this.snapshotCounter = 0;
-  }
-
-  /** 監聽檔案變更 */
-  watch(watchPath: string, options?: WatchOptions): VFSWatcher {
-    const watcher = new VFSWatcher(watchPath, options);
-    this.watchers.add(watcher);
 
-    // 初始化已知路徑
-    if (!options?.ignoreInitial) {
-      this.initializeWatcher(watcher, watchPath);
+    for (const [name, child] of dir.entries()) {
+      if (getFrozenChild(frozen, name, this.namePolicy)?.type !== child.type) {
+        dir.removeChild(name);
+        this.releaseNode(child);
+      }
     }
 
-    // 當 watcher 關閉時從列表移除
-    const originalClose = watcher.close.bind(watcher);
-    watcher.close = () => {
-      this.watchers.delete(watcher);
-      originalClose();
-    };
-
-    // 發送 ready 事件
-    setTimeout(() => watcher.emitReady(), 0);
-
-    return watcher;
-  }
+    for (const target of frozen.children!.values()) {
+      let child = dir.getChild(target.name);
 
-  /** 初始化 watcher 的已知路徑 */
-  private async initializeWatcher(watcher: VFSWatcher, basePath: string): Promise<void> {
-    const traverse = async (dirPath: string): Promise<void> => {
-      try {
-        const entries = await this.readDirectory(dirPath);
-        for (const entry of entries) {
-          watcher.registerPath(entry.path);
-          if (entry.isDirectory) {
-            await traverse(entry.path);
-          }
+      if (child?.frozen === target) {
+        // 保留的檔案與之後重建的硬連結共享 inode
+        if (child.isFile) {
+          inodes.set(target.inode, child.inode);
         }
-      } catch {
-        // 忽略錯誤
+        continue;
       }
-    };
-
-    watcher.registerPath(basePath);
-    await traverse(basePath);
-  }
 
-  /** 通知所有 watcher 檔案變更 */
-  private notifyWatchers(path: string, type: 'change' | 'add' | 'unlink' | 'addDir' | 'unlinkDir'): void {
-    const stats = type !== 'unlink' && type !== 'unlinkDir'
-      ? this.resolveNode(path, true)?.getStats()
-      : undefined;
+      if (child?.isDirectory) {
+        if (child.name !== target.name) {
+          dir.removeChild(child.name);
+          child.rename(target.name);
+          dir.addChild(child);
+        }
 
-    for (const watcher of this.watchers) {
-      switch (type) {
-        case 'change':
-        case 'add':
-          watcher.notifyChange(path, stats);
-          break;
-        case 'unlink':
-          watcher.notifyUnlink(path, false);
-          break;
-        case 'addDir':
-          watcher.notifyAddDir(path, stats);
-          break;
-        case 'unlinkDir':
-          watcher.notifyUnlink(path, true);
-          break;
+        this.restoreDirectory(child as VFSDirectory, target, inodes);
+        continue;
       }
-    }
-  }
 
-  // ============================================================
-  // 私有方法
-  // ============================================================
+      if (child) {
+        dir.removeChild(child.name);
+        this.releaseNode(child);
+      }
 
-  /** 解析節點 */
-  private resolveNode(inputPath: string, followSymlinks: boolean, depth = 0): VFSNode | null {
-    if (depth > this.options.maxSymlinkDepth) {
-      throw new SymlinkLoopError(inputPath);
+      child = thawNode(target, this.namePolicy, inodes);
+      dir.addChild(child);
     }
 
-    const { segments, isRoot } = resolvePath(inputPath);
+    dir.inode.restore(frozen.inode);
+    dir.inode.frozen = frozen.inode;
 
-    if (isRoot) {
-      return this.root;
+    // 移除的硬連結會變更保留節點的 inode，此時子樹已與快照不同，不沿用快照的凍結狀態
+    if ([...dir.entries()].every(([, child]) => child.frozen)) {
+      dir.frozen = frozen;
     }
+  }
 
-    let current: VFSNode = this.root;
-
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
+  /** 將複製出的節點加入目的目錄並通知 watcher（含子樹） */
+  private attachCopy(
+    copy: VFSNode,
+    destParent: VFSDirectory,
+    destName: string,
+    destPath: string,
+    options: CopyOptions,
+    event: 'add' | 'change' | 'addDir'
+  ): void {
+    copy.rename(destName);
+    destParent.addChild(copy);
 
-      if (!current.isDirectory) {
-        return null;
+    const visit = (node: VFSNode, path: string, type: 'add' | 'change' | 'addDir'): void => {
+      if (!options.preserveTimestamps) {
+        node.resetTimes();
       }
 
-      const child = (current as VFSDirectory).getChild(segment);
+      this.notifyWatchers(path, type);
 
-      if (!child) {
-        return null;
+      if (node.isDirectory) {
+        for (const child of (node as VFSDirectory).getChildren()) {
+          visit(child, join(path, child.name), child.isDirectory ? 'addDir' : 'add');
+        }
       }
+    };
 
-      // 處理符號連結
-      if (child.isSymlink) {
-        if (followSymlinks || i < segments.length - 1) {
-          // 需要跟隨符號連結
-          const symlink = child as VFSSymlink;
-          const targetPath = symlink.target.startsWith('/')
-            ? symlink.target
-            : join(dirname('/' + segments.slice(0, i).join('/')), symlink.target);
-
-          const resolved = this.resolveNode(targetPath, true, depth + 1);
-
-          if (!resolved) {
-            return null;
-          }
+    visit(copy, destPath, event);
+  }
 
-          if (i === segments.length - 1) {
-            return followSymlinks ? resolved : child;
-          }
+  /**
+   * 確認容量足夠，不足時拋出 NoSpaceError 或 FileTooLargeError
+   * dirPath 為變更所在的目錄，bytes 與 inodes 為增加量，fileSize 為變更後的檔案大小
+   * 使用根目錄與配額目錄維護的計數，不走訪子樹
+   */
+  private ensureCapacity(targetPath: string, dirPath: string, bytes: number, inodes: number, fileSize = 0): void {
+    const { maxTotalBytes, maxInodes, maxFileSize } = this.options;
 
-          current = resolved;
-        } else {
-          return child;
-        }
-      } else {
-        current = child;
-      }
+    if (fileSize > maxFileSize) {
+      throw new FileTooLargeError(targetPath, maxFileSize);
     }
 
-    return current;
-  }
+    if (bytes <= 0 && inodes <= 0) {
+      return;
+    }
 
-  /** 取得目錄節點 */
-  private getDirectory(dirPath: string): VFSDirectory {
-    const node = this.resolveNode(dirPath, true);
+    if (maxTotalBytes !== Infinity || maxInodes !== Infinity) {
+      const used = this.root.storage;
 
-    if (!node) {
-      throw new DirectoryNotFoundError(dirPath);
+      if (used.bytes + bytes > maxTotalBytes || used.inodes + inodes > maxInodes) {
+        throw new NoSpaceError(targetPath);
+      }
     }
 
-    if (!node.isDirectory) {
-      throw new NotADirectoryError(dirPath);
+    if (this.quotas.size === 0) {
+      return;
     }
 
-    return node as VFSDirectory;
-  }
-
-  /** 取得目錄節點（可能為 null） */
-  private getDirectoryOrNull(dirPath: string): VFSDirectory | null {
+    // 已刪除但仍開啟的檔案不受目錄配額限制
+    let realDirPath: string;
     try {
-      return this.getDirectory(dirPath);
+      realDirPath = this.resolveRealPath(dirPath);
     } catch {
-      return null;
+      return;
     }
-  }
 
-  /** 將 glob pattern 轉換為正規表示式 */
-  private patternToRegex(pattern: string): RegExp {
-    // 簡單的 glob 到 regex 轉換
-    let regex = pattern
-      .replace(/[.+^${}()|[\]\\]/g, '\\$&') // 跳脫特殊字元
-      .replace(/\*\*/g, '<<<GLOBSTAR>>>') // 暫時替換 **
-      .replace(/\*/g, '[^/]*') // * 匹配任意字元（不含路徑分隔符）
-      .replace(/\?/g, '[^/]') // ? 匹配單一字元
-      .replace(/<<<GLOBSTAR>>>/g, '.*'); // ** 匹配任意路徑
+    for (const [quotaPath, quota] of this.quotas) {
+      const quotaDir = realDirPath === quotaPath || isSubPath(realDirPath, quotaPath) ? this.getDirectoryOrNull(quotaPath) : null;
 
-    return new RegExp(`^${regex}$`);
-  }
+      if (!quotaDir) {
+        continue;
+      }
 
-  /** 檢查是否符合忽略規則 */
-  private matchesIgnore(path: string, ignorePatterns: string[]): boolean {
-    for (const pattern of ignorePatterns) {
-      const regex = this.patternToRegex(pattern);
-      if (regex.test(path) || regex.test(basename(path))) {
-        return true;
+      const used = quotaDir.storage;
+
+      if (used.bytes + bytes > (quota.maxBytes ?? Infinity) || used.inodes + inodes > (quota.maxInodes ?? Infinity)) {
+        throw new NoSpaceError(targetPath);
       }
     }
-    return false;
   }
 
-  /** 計算節點數量 */
-  private countNodes(dir: VFSDirectory): { fileCount: number; directoryCount: number; totalSize: number } {
-    let fileCount = 0;
-    let directoryCount = 0;
-    let totalSize = 0;
+  /** 在建立缺少的上層目錄前確認容量（缺少的目錄各計一個 inode，以最近的既有目錄套用配額） */
+  private ensureCapacityWithParents(targetPath: string, dirPath: string, bytes: number, inodes: number, fileSize = 0): void {
+    let existingPath = dirPath;
+    let missing = 0;
 
-    const traverse = (node: VFSNode): void => {
-      if (node.isFile) {
-        fileCount++;
-        totalSize += node.size;
-      } else if (node.isDirectory) {
-        directoryCount++;
-        for (const child of (node as VFSDirectory).getChildren()) {
-          traverse(child);
-        }
-      }
-    };
+    while (!this.resolveNode(existingPath, true)) {
+      existingPath = dirname(existingPath);
+      missing++;
+    }
 
-    traverse(dir);
-    return { fileCount, directoryCount, totalSize };
+    if (missing > 0) {
+      this.ensureCapacity(targetPath, existingPath, bytes, inodes + missing, fileSize);
+    }
   }
 
-  /** 計算差異 */
-  private computeDiff(
-    from: VFSDirectory | undefined,
-    to: VFSDirectory,
-    basePath: string,
-    diffs: FileDiff[]
-  ): void {
-    const fromChildren = new Map<string, VFSNode>();
-    const toChildren = new Map<string, VFSNode>();
+  /** 計算差異（同一個凍結物件表示子樹相同，不需比較） */
+  private computeDiff(from: FrozenNode | undefined, to: FrozenNode, basePath: string, diffs: FileDiff[]): void {
+    if (from === to) {
+      return;
+    }
 
-    if (from) {
-      for (const node of from.getChildren()) {
-        fromChildren.set(node.name, node);
-      }
+    const fromChildren = new Map<string, FrozenNode>();
+    const toChildren = new Map<string, FrozenNode>();
+
+    for (const node of from?.children?.values() ?? []) {
+      fromChildren.set(node.name, node);
     }
 
-    for (const node of to.getChildren()) {
+    for (const node of to.children!.values()) {
       toChildren.set(node.name, node);
     }
 
@@ -918,39 +3472,34 @@ export class VirtualFileSystem {
 
       if (!fromNode) {
         // 新增
-        if (toNode.isFile) {
+        if (toNode.type === VFSNodeType.File) {
           diffs.push({
             type: DiffType.Added,
             path,
-            newContent: (toNode as VFSFile).read() as Buffer,
-            newStats: toNode.getStats(),
+            newContent: Buffer.from(toNode.inode.content!),
+            newStats: getFrozenStats(toNode),
           });
         }
-      } else if (toNode.isFile && fromNode.isFile) {
-        // 檢查修改
-        const fromContent = (fromNode as VFSFile).read() as Buffer;
-        const toContent = (toNode as VFSFile).read() as Buffer;
+      } else if (toNode.type === VFSNodeType.File && fromNode.type === VFSNodeType.File) {
+        // 檢查修改（同一個凍結 inode 表示內容未變更）
+        const fromContent = fromNode.inode.content!;
+        const toContent = toNode.inode.content!;
 
-        if (!fromContent.equals(toContent)) {
+        if (fromNode.inode !== toNode.inode && !fromContent.equals(toContent)) {
           diffs.push({
             type: DiffType.Modified,
             path,
-            oldContent: fromContent,
-            newContent: toContent,
-            oldStats: fromNode.getStats(),
-            newStats: toNode.getStats(),
+            oldContent: Buffer.from(fromContent),
+            newContent: Buffer.from(toContent),
+            oldStats: getFrozenStats(fromNode),
+            newStats: getFrozenStats(toNode),
           });
         }
       }
 
       // 遞迴處理子目錄
-      if (toNode.isDirectory) {
-        this.computeDiff(
-          fromNode?.isDirectory ? (fromNode as VFSDirectory) : undefined,
-          toNode as VFSDirectory,
-          path,
-          diffs
-        );
+      if (toNode.type === VFSNodeType.Directory) {
+        this.computeDiff(fromNode?.type === VFSNodeType.Directory ? fromNode : undefined, toNode, path, diffs);
       }
     }
 
@@ -958,12 +3507,12 @@ export class VirtualFileSystem {
     for (const [name, fromNode] of fromChildren) {
       if (!toChildren.has(name)) {
         const path = basePath ? `${basePath}/${name}` : `/${name}`;
-        if (fromNode.isFile) {
+        if (fromNode.type === VFSNodeType.File) {
           diffs.push({
             type: DiffType.Deleted,
             path,
-            oldContent: (fromNode as VFSFile).read() as Buffer,
-            oldStats: fromNode.getStats(),
+            oldContent: Buffer.from(fromNode.inode.content!),
+            oldStats: getFrozenStats(fromNode),
           });
         }
       }
@@ -2,11 +2,14 @@
  * mem-vfs 錯誤類別
  */
 
+import { constants as osConstants } from 'node:os';
+
 /** 檔案系統錯誤類型 */
 export enum FileSystemErrorCode {
   FileNotFound = 'FILE_NOT_FOUND',
   DirectoryNotFound = 'DIRECTORY_NOT_FOUND',
   PermissionDenied = 'PERMISSION_DENIED',
+  OperationNotPermitted = 'OPERATION_NOT_PERMITTED',
   DirectoryNotEmpty = 'DIRECTORY_NOT_EMPTY',
   FileAlreadyExists = 'FILE_ALREADY_EXISTS',
   DirectoryAlreadyExists = 'DIRECTORY_ALREADY_EXISTS',
@@ -17,20 +20,121 @@ export enum FileSystemErrorCode {
   SymlinkLoop = 'SYMLINK_LOOP',
   MaxDepthExceeded = 'MAX_DEPTH_EXCEEDED',
   IOError = 'IO_ERROR',
+  BadFileDescriptor = 'BAD_FILE_DESCRIPTOR',
+  DirectoryClosed = 'DIRECTORY_CLOSED',
+  NoSpace = 'NO_SPACE',
+  FileTooLarge = 'FILE_TOO_LARGE',
+  XattrNotFound = 'XATTR_NOT_FOUND',
+  XattrAlreadyExists = 'XATTR_ALREADY_EXISTS',
+  XattrTooLarge = 'XATTR_TOO_LARGE',
+  LockConflict = 'LOCK_CONFLICT',
+  Deadlock = 'DEADLOCK',
+  TransactionConflict = 'TRANSACTION_CONFLICT',
+}
+
+/** POSIX 錯誤碼（與 Node.js 的 error.code 相同） */
+export type PosixErrorCode =
+  | 'ENOENT'
+  | 'EACCES'
+  | 'EPERM'
+  | 'ENOTEMPTY'
+  | 'EEXIST'
+  | 'EINVAL'
+  | 'EISDIR'
+  | 'ENOTDIR'
+  | 'ELOOP'
+  | 'ENAMETOOLONG'
+  | 'EIO'
+  | 'EBADF'
+  | 'ENOSPC'
+  | 'EFBIG'
+  | 'ENODATA'
+  | 'E2BIG'
+  | 'EAGAIN'
+  | 'EDEADLK'
+  | 'EBUSY';
+
+/** VFS 錯誤碼對應的 POSIX 錯誤碼 */
+export const POSIX_ERROR_CODES: Record<FileSystemErrorCode, PosixErrorCode> = {
+  [FileSystemErrorCode.FileNotFound]: 'ENOENT',
+  [FileSystemErrorCode.DirectoryNotFound]: 'ENOENT',
+  [FileSystemErrorCode.PermissionDenied]: 'EACCES',
+  [FileSystemErrorCode.OperationNotPermitted]: 'EPERM',
+  [FileSystemErrorCode.DirectoryNotEmpty]: 'ENOTEMPTY',
+  [FileSystemErrorCode.FileAlreadyExists]: 'EEXIST',
+  [FileSystemErrorCode.DirectoryAlreadyExists]: 'EEXIST',
+  [FileSystemErrorCode.InvalidPath]: 'EINVAL',
+  [FileSystemErrorCode.NotAFile]: 'EISDIR',
+  [FileSystemErrorCode.NotADirectory]: 'ENOTDIR',
+  [FileSystemErrorCode.NotASymlink]: 'EINVAL',
+  [FileSystemErrorCode.SymlinkLoop]: 'ELOOP',
+  [FileSystemErrorCode.MaxDepthExceeded]: 'ENAMETOOLONG',
+  [FileSystemErrorCode.IOError]: 'EIO',
+  [FileSystemErrorCode.BadFileDescriptor]: 'EBADF',
+  [FileSystemErrorCode.DirectoryClosed]: 'EBADF',
+  [FileSystemErrorCode.NoSpace]: 'ENOSPC',
+  [FileSystemErrorCode.FileTooLarge]: 'EFBIG',
+  [FileSystemErrorCode.XattrNotFound]: 'ENODATA',
+  [FileSystemErrorCode.XattrAlreadyExists]: 'EEXIST',
+  [FileSystemErrorCode.XattrTooLarge]: 'E2BIG',
+  [FileSystemErrorCode.LockConflict]: 'EAGAIN',
+  [FileSystemErrorCode.Deadlock]: 'EDEADLK',
+  [FileSystemErrorCode.TransactionConflict]: 'EBUSY',
+};
+
+/** 取得 POSIX 錯誤碼的 errno（與 Node.js 相同為負數，數值依執行平台而定） */
+export function getErrno(code: string): number {
+  const errnoTable = osConstants.errno as Record<string, number | undefined>;
+  return -(errnoTable[code] ?? 0);
 }
 
 /** 檔案系統錯誤基礎類別 */
 export class FileSystemError extends Error {
+  /** 錯誤碼（VFS 啟用 posixErrorCodes 時為 POSIX 錯誤碼） */
+  public code: FileSystemErrorCode | PosixErrorCode;
+
+  /** VFS 錯誤碼 */
+  public readonly vfsCode: FileSystemErrorCode;
+
+  /** 對應的 POSIX 錯誤碼 */
+  public readonly posixCode: PosixErrorCode;
+
+  /** 負數 errno */
+  public readonly errno: number;
+
+  /** 失敗的系統呼叫（由 VFS 操作填入） */
+  public syscall?: string;
+
+  /** 目的路徑（rename、link 等有兩個路徑的操作） */
+  public dest?: string;
+
   constructor(
-    public readonly code: FileSystemErrorCode,
+    code: FileSystemErrorCode,
     message: string,
     public readonly path?: string,
     public readonly cause?: Error
   ) {
     super(message);
     this.name = 'FileSystemError';
+    this.code = code;
+    this.vfsCode = code;
+    this.posixCode = POSIX_ERROR_CODES[code];
+    this.errno = getErrno(this.posixCode);
     Object.setPrototypeOf(this, new.target.prototype);
   }
+
+  /** 記錄失敗的系統呼叫與目的路徑 */
+  setSyscall(syscall: string, dest?: string): this {
+    this.syscall = syscall;
+    this.dest = dest;
+    return this;
+  }
+
+  /** 將 code 改為 POSIX 錯誤碼（與 Node.js 的 fs 錯誤相容） */
+  usePosixCode(): this {
+    this.code = this.posixCode;
+    return this;
+  }
 }
 
 /** 檔案找不到錯誤 */
@@ -57,6 +161,14 @@ export class PermissionError extends FileSystemError {
   }
 }
 
+/** 操作不允許錯誤（例如對目錄建立硬連結） */
+export class OperationNotPermittedError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.OperationNotPermitted, `Operation not permitted: ${path}`, path, cause);
+    this.name = 'OperationNotPermittedError';
+  }
+}
+
 /** 目錄非空錯誤 */
 export class DirectoryNotEmptyError extends FileSystemError {
   constructor(path: string, cause?: Error) {
@@ -137,3 +249,88 @@ export class IOError extends FileSystemError {
     this.name = 'IOError';
   }
 }
+
+/** 無效檔案描述符錯誤 */
+export class BadFileDescriptorError extends FileSystemError {
+  constructor(public readonly fd: number, cause?: Error) {
+    super(FileSystemErrorCode.BadFileDescriptor, `Bad file descriptor: ${fd}`, undefined, cause);
+    this.name = 'BadFileDescriptorError';
+  }
+}
+
+/** 目錄串流已關閉錯誤 */
+export class DirectoryClosedError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.DirectoryClosed, `Directory handle was closed: ${path}`, path, cause);
+    this.name = 'DirectoryClosedError';
+  }
+}
+
+/** 空間不足錯誤（超過容量、inode 數量或目錄配額） */
+export class NoSpaceError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.NoSpace, `No space left on device: ${path}`, path, cause);
+    this.name = 'NoSpaceError';
+  }
+}
+
+/** 檔案過大錯誤 */
+export class FileTooLargeError extends FileSystemError {
+  constructor(path: string, maxSize: number, cause?: Error) {
+    super(FileSystemErrorCode.FileTooLarge, `File too large (max ${maxSize} bytes): ${path}`, path, cause);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+/** 延伸屬性不存在錯誤 */
+export class XattrNotFoundError extends FileSystemError {
+  constructor(path: string, name: string, cause?: Error) {
+    super(FileSystemErrorCode.XattrNotFound, `Extended attribute not found: ${name} on ${path}`, path, cause);
+    this.name = 'XattrNotFoundError';
+  }
+}
+
+/** 延伸屬性已存在錯誤 */
+export class XattrAlreadyExistsError extends FileSystemError {
+  constructor(path: string, name: string, cause?: Error) {
+    super(FileSystemErrorCode.XattrAlreadyExists, `Extended attribute already exists: ${name} on ${path}`, path, cause);
+    this.name = 'XattrAlreadyExistsError';
+  }
+}
+
+/** 延伸屬性值過大錯誤 */
+export class XattrTooLargeError extends FileSystemError {
+  constructor(path: string, name: string, maxSize: number, cause?: Error) {
+    super(
+      FileSystemErrorCode.XattrTooLarge,
+      `Extended attribute too large (max ${maxSize} bytes): ${name} on ${path}`,
+      path,
+      cause
+    );
+    this.name = 'XattrTooLargeError';
+  }
+}
+
+/** 鎖已被其他擁有者持有（不等待時） */
+export class LockConflictError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.LockConflict, `Resource temporarily unavailable (locked): ${path}`, path, cause);
+    this.name = 'LockConflictError';
+  }
+}
+
+/** 等待鎖會造成死結 */
+export class DeadlockError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.Deadlock, `Resource deadlock would occur: ${path}`, path, cause);
+    this.name = 'DeadlockError';
+  }
+}
+
+/** 交易提交時發現交易外的變更 */
+export class TransactionConflictError extends FileSystemError {
+  constructor(path: string, cause?: Error) {
+    super(FileSystemErrorCode.TransactionConflict, `Transaction conflict: ${path} was changed outside the transaction`, path, cause);
+    this.name = 'TransactionConflictError';
+  }
+}
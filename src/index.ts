@@ -11,25 +11,66 @@ export { VirtualFileSystem, createVFS } from './core/vfs.js';
 export { VFSNode } from './core/vfs-node.js';
 export { VFSFile } from './core/vfs-file.js';
 export { VFSDirectory } from './core/vfs-directory.js';
+export type { StorageCounters } from './core/vfs-directory.js';
 export { VFSSymlink } from './core/vfs-symlink.js';
+export { VFSInode, VFSFileInode } from './core/vfs-inode.js';
+export type { InodeMap, FrozenInode, FrozenInodeMap } from './core/vfs-inode.js';
+export type { FrozenNode, FrozenCounts } from './core/frozen-tree.js';
+
+// 串流
+export { VFSReadStream, VFSWriteStream } from './core/vfs-streams.js';
+export { VFSDir } from './core/vfs-dir.js';
+export type { ReadStreamOptions, WriteStreamOptions } from './core/vfs-streams.js';
 
 // 型別
 export type {
   DirectoryEntry,
   FileStats,
   GlobOptions,
+  ReadDirectoryOptions,
+  DirectorySortOrder,
+  WalkEntry,
+  WalkOptions,
+  UsageOptions,
+  DiskUsage,
+  ExtensionUsage,
+  DirectoryQuota,
+  StorageStats,
   WatchOptions,
   FileChangeEvent,
   FileWatcherEventListener,
   SnapshotId,
   SnapshotInfo,
+  TransactionOptions,
+  HistoryOptions,
+  HistoryOperation,
+  HistoryEntry,
   FileDiff,
   VFSOptions,
   AtomicWriteOptions,
   DirectoryJSON,
+  ToJSONOptions,
+  XattrEntryJSON,
+  XattrFlag,
+  SetXattrOptions,
+  OpenFlags,
+  FlockOperation,
+  RangeLockType,
+  RangeLock,
+  LockOwner,
+  LockOptions,
+  LockInfo,
+  RenameOptions,
+  CopyOptions,
+  VFSCredentials,
+  TimeLike,
+  UnicodeNormalization,
+  Platform,
+  PathRules,
+  PathStyle,
 } from './types/index.js';
 
-export { VFSNodeType, FileChangeType, DiffType } from './types/index.js';
+export { VFSNodeType, FileChangeType, DiffType, AccessMode } from './types/index.js';
 
 // 錯誤類別
 export {
@@ -38,6 +79,7 @@ export {
   FileNotFoundError,
   DirectoryNotFoundError,
   PermissionError,
+  OperationNotPermittedError,
   DirectoryNotEmptyError,
   FileAlreadyExistsError,
   DirectoryAlreadyExistsError,
@@ -48,7 +90,20 @@ export {
   SymlinkLoopError,
   MaxDepthExceededError,
   IOError,
+  BadFileDescriptorError,
+  DirectoryClosedError,
+  NoSpaceError,
+  FileTooLargeError,
+  XattrNotFoundError,
+  XattrAlreadyExistsError,
+  XattrTooLargeError,
+  LockConflictError,
+  DeadlockError,
+  TransactionConflictError,
+  POSIX_ERROR_CODES,
+  getErrno,
 } from './errors/file-system-errors.js';
+export type { PosixErrorCode } from './errors/file-system-errors.js';
 
 // 路徑工具
 export {
@@ -62,6 +117,7 @@ export {
   isAbsolute,
   splitPath,
 } from './path/path-normalizer.js';
+export type { NormalizeOptions } from './path/path-normalizer.js';
 
 export {
   resolvePath,
@@ -71,6 +127,21 @@ export {
   getCommonAncestor,
 } from './path/path-resolver.js';
 
+export { createNamePolicy } from './path/name-policy.js';
+export type { NamePolicy, NamePolicyOptions } from './path/name-policy.js';
+
+export {
+  getPlatformProfile,
+  resolvePathRules,
+  POSIX_PATH_RULES,
+  WIN32_PATH_RULES,
+  DARWIN_PATH_RULES,
+} from './path/platform-profiles.js';
+export type { PlatformProfile } from './path/platform-profiles.js';
+
+export { createPathModule, posixPath, win32Path } from './path/path-style.js';
+export type { PathModule } from './path/path-style.js';
+
 export {
   validatePath,
   validateFileName,
@@ -78,6 +149,23 @@ export {
   isValidFileName,
 } from './path/path-validator.js';
 
+// fs.promises 相容轉接層
+export { createFsPromises } from './adapters/fs-promises.js';
+export { VFSStats, VFSDirent } from './adapters/fs-stats.js';
+export type {
+  FsPromisesAdapter,
+  FsFileHandle,
+  PathLike,
+  ReadFileOptions,
+  WriteFileOptions,
+  MakeDirectoryOptions,
+  ReadDirOptions,
+  PathEncodingOptions,
+  RmOptions,
+  CpOptions,
+  NodeFsError,
+} from './adapters/fs-promises.js';
+
 // 監聽器
 export { VFSWatcher, createWatcher } from './watcher/watcher.js';
 export { Debouncer } from './watcher/debouncer.js';
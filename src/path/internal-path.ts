@@ -0,0 +1,42 @@
+/**
+ * 內部路徑操作
+ * VFS 的內部路徑已正規化且只以正斜線分隔，反斜線只可能是名稱的一部分，
+ * 因此這裡的操作不轉換反斜線（對外的路徑在解析時依路徑規則轉換）
+ */
+
+import * as posix from './path-normalizer.js';
+import type { NormalizeOptions } from './path-normalizer.js';
+import * as resolver from './path-resolver.js';
+
+/** 內部路徑的正規化選項 */
+const INTERNAL: NormalizeOptions = { literalBackslash: true };
+
+/** 正規化內部路徑 */
+export function normalizePath(inputPath: string): string {
+  return posix.normalizePath(inputPath, INTERNAL);
+}
+
+/** 取得目錄路徑 */
+export function dirname(inputPath: string): string {
+  return posix.dirname(inputPath, INTERNAL);
+}
+
+/** 取得名稱 */
+export function basename(inputPath: string): string {
+  return posix.basename(inputPath, undefined, INTERNAL);
+}
+
+/** 組合路徑 */
+export function join(...paths: string[]): string {
+  return paths.length > 0 ? normalizePath(paths.filter(Boolean).join('/')) : '.';
+}
+
+/** 分割路徑為各段落 */
+export function splitPath(inputPath: string): string[] {
+  return posix.splitPath(inputPath, INTERNAL);
+}
+
+/** 檢查路徑是否為另一路徑的子路徑 */
+export function isSubPath(childPath: string, parentPath: string): boolean {
+  return resolver.isSubPath(childPath, parentPath, INTERNAL);
+}
@@ -0,0 +1,47 @@
+/**
+ * 目錄項目名稱規則
+ * 模擬不區分大小寫與 Unicode 正規化的檔案系統
+ */
+
+import type { UnicodeNormalization } from '../types/index.js';
+
+/** 目錄項目名稱規則 */
+export interface NamePolicy {
+  /** 儲存時使用的名稱（例如 nfd 模式轉為 NFD） */
+  store(name: string): string;
+  /** 查找時使用的比對鍵（例如摺疊大小寫） */
+  key(name: string): string;
+}
+
+/** 名稱規則選項 */
+export interface NamePolicyOptions {
+  /** 是否區分大小寫 */
+  caseSensitive: boolean;
+  /** Unicode 正規化方式 */
+  unicodeNormalization: UnicodeNormalization;
+}
+
+/** 建立名稱規則（名稱完全依原字串比對時回傳 undefined） */
+export function createNamePolicy(options: NamePolicyOptions): NamePolicy | undefined {
+  const { caseSensitive, unicodeNormalization } = options;
+
+  if (caseSensitive && unicodeNormalization === 'none') {
+    return undefined;
+  }
+
+  // 儲存形式：nfc、nfd 會改寫名稱，insensitive 保留原名稱
+  const store = unicodeNormalization === 'nfc' || unicodeNormalization === 'nfd'
+    ? (name: string) => name.normalize(unicodeNormalization.toUpperCase() as 'NFC' | 'NFD')
+    : (name: string) => name;
+
+  // 比對形式：任何正規化模式都以同一種形式比對
+  const form = unicodeNormalization === 'nfd' ? 'NFD' : 'NFC';
+  const normalize = unicodeNormalization === 'none'
+    ? (name: string) => name
+    : (name: string) => name.normalize(form);
+
+  return {
+    store,
+    key: caseSensitive ? normalize : name => normalize(name).toLowerCase(),
+  };
+}
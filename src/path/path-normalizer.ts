@@ -3,14 +3,20 @@
  * 統一處理路徑格式，確保一致性
  */
 
+/** 路徑正規化選項 */
+export interface NormalizeOptions {
+  /** 反斜線視為名稱的一部分（預設轉為正斜線） */
+  literalBackslash?: boolean;
+}
+
 /** 正規化路徑 */
-export function normalizePath(inputPath: string): string {
+export function normalizePath(inputPath: string, options: NormalizeOptions = {}): string {
   if (!inputPath) {
     return '/';
   }
 
   // 統一使用正斜線
-  let normalized = inputPath.replace(/\\/g, '/');
+  let normalized = options.literalBackslash ? inputPath : inputPath.replace(/\\/g, '/');
 
   // 移除連續斜線
   normalized = normalized.replace(/\/+/g, '/');
@@ -51,8 +57,8 @@ export function normalizePath(inputPath: string): string {
 }
 
 /** 取得目錄路徑 */
-export function dirname(inputPath: string): string {
-  const normalized = normalizePath(inputPath);
+export function dirname(inputPath: string, options?: NormalizeOptions): string {
+  const normalized = normalizePath(inputPath, options);
 
   if (normalized === '/') {
     return '/';
@@ -72,8 +78,8 @@ export function dirname(inputPath: string): string {
 }
 
 /** 取得檔案名稱 */
-export function basename(inputPath: string, ext?: string): string {
-  const normalized = normalizePath(inputPath);
+export function basename(inputPath: string, ext?: string, options?: NormalizeOptions): string {
+  const normalized = normalizePath(inputPath, options);
 
   if (normalized === '/') {
     return '';
@@ -192,7 +198,7 @@ export function isAbsolute(inputPath: string): boolean {
 }
 
 /** 分割路徑為各部分 */
-export function splitPath(inputPath: string): string[] {
-  const normalized = normalizePath(inputPath);
+export function splitPath(inputPath: string, options?: NormalizeOptions): string[] {
+  const normalized = normalizePath(inputPath, options);
   return normalized.split('/').filter(Boolean);
 }
@@ -4,7 +4,9 @@
  */
 
 import { normalizePath, splitPath, dirname, basename, join } from './path-normalizer.js';
+import type { NormalizeOptions } from './path-normalizer.js';
 import { validatePath } from './path-validator.js';
+import type { PathRules } from '../types/index.js';
 
 export { normalizePath, dirname, basename, join, splitPath };
 export { validatePath, isValidPath, validateFileName, isValidFileName } from './path-validator.js';
@@ -23,18 +25,19 @@ export interface PathResolution {
   isRoot: boolean;
 }
 
-/** 解析路徑 */
-export function resolvePath(inputPath: string): PathResolution {
-  validatePath(inputPath);
+/** 解析路徑（依指定的路徑規則驗證，預設為 posix；反斜線依規則的 literalBackslash 處理，未指定時轉為正斜線） */
+export function resolvePath(inputPath: string, rules?: PathRules): PathResolution {
+  validatePath(inputPath, rules);
 
-  const fullPath = normalizePath(inputPath);
+  const options: NormalizeOptions = { literalBackslash: rules?.literalBackslash ?? false };
+  const fullPath = normalizePath(inputPath, options);
   const isRoot = fullPath === '/';
 
   return {
     fullPath,
-    parentPath: isRoot ? '/' : dirname(fullPath),
-    name: isRoot ? '' : basename(fullPath),
-    segments: splitPath(fullPath),
+    parentPath: isRoot ? '/' : dirname(fullPath, options),
+    name: isRoot ? '' : basename(fullPath, undefined, options),
+    segments: splitPath(fullPath, options),
     isRoot,
   };
 }
@@ -54,9 +57,9 @@ export function getAncestorPaths(inputPath: string): string[] {
 }
 
 /** 檢查路徑是否為另一路徑的子路徑 */
-export function isSubPath(childPath: string, parentPath: string): boolean {
-  const normalizedChild = normalizePath(childPath);
-  const normalizedParent = normalizePath(parentPath);
+export function isSubPath(childPath: string, parentPath: string, options?: NormalizeOptions): boolean {
+  const normalizedChild = normalizePath(childPath, options);
+  const normalizedParent = normalizePath(parentPath, options);
 
   if (normalizedChild === normalizedParent) {
     return false;
@@ -0,0 +1,69 @@
+/**
+ * 路徑格式模組
+ * 依 VFS 的路徑格式（posix 或 win32）提供一致的路徑操作介面
+ */
+
+import type { PathStyle } from '../types/index.js';
+import * as posix from './path-normalizer.js';
+import * as win32 from './win32-path.js';
+
+/** 路徑操作介面（類似 Node.js 的 path.posix 與 path.win32） */
+export interface PathModule {
+  /** 路徑分隔符號 */
+  readonly sep: '/' | '\\';
+  /** 正規化路徑 */
+  normalize(inputPath: string): string;
+  /** 是否為絕對路徑 */
+  isAbsolute(inputPath: string): boolean;
+  /** 取得根目錄（相對路徑為空字串） */
+  root(inputPath: string): string;
+  /** 取得目錄路徑 */
+  dirname(inputPath: string): string;
+  /** 取得檔案名稱 */
+  basename(inputPath: string, ext?: string): string;
+  /** 組合路徑 */
+  join(...paths: string[]): string;
+  /** 解析為絕對路徑（以建立模組時的基準路徑為備援） */
+  resolve(...paths: string[]): string;
+  /** 計算相對路徑 */
+  relative(from: string, to: string): string;
+}
+
+/** 建立路徑操作模組 */
+export function createPathModule(style: PathStyle, basePath?: string): PathModule {
+  if (style === 'win32') {
+    const base = basePath ?? win32.DEFAULT_WIN32_ROOT;
+
+    return {
+      sep: '\\',
+      normalize: win32.normalize,
+      isAbsolute: win32.isAbsolute,
+      root: win32.root,
+      dirname: win32.dirname,
+      basename: win32.basename,
+      join: win32.join,
+      resolve: (...paths) => win32.resolve(base, ...paths),
+      relative: (from, to) => win32.relative(win32.resolve(base, from), win32.resolve(base, to)),
+    };
+  }
+
+  const base = basePath ?? '/';
+
+  return {
+    sep: '/',
+    normalize: posix.normalizePath,
+    isAbsolute: posix.isAbsolute,
+    root: inputPath => (posix.isAbsolute(inputPath) ? '/' : ''),
+    dirname: posix.dirname,
+    basename: posix.basename,
+    join: posix.join,
+    resolve: (...paths) => posix.resolve(base, ...paths),
+    relative: (from, to) => posix.relative(posix.resolve(base, from), posix.resolve(base, to)),
+  };
+}
+
+/** POSIX 路徑操作 */
+export const posixPath: PathModule = createPathModule('posix');
+
+/** Windows 路徑操作 */
+export const win32Path: PathModule = createPathModule('win32');
@@ -2,20 +2,15 @@
  * 路徑驗證工具
  */
 
+import type { PathRules } from '../types/index.js';
 import { InvalidPathError } from '../errors/file-system-errors.js';
+import { POSIX_PATH_RULES } from './platform-profiles.js';
 
 /** 無效的路徑字元 */
 const INVALID_CHARS = /[\x00-\x1f]/;
 
-/** 保留的檔案名稱（Windows 相容） */
-const RESERVED_NAMES = new Set([
-  'CON', 'PRN', 'AUX', 'NUL',
-  'COM1', 'COM2', 'COM3', 'COM4', 'COM5', 'COM6', 'COM7', 'COM8', 'COM9',
-  'LPT1', 'LPT2', 'LPT3', 'LPT4', 'LPT5', 'LPT6', 'LPT7', 'LPT8', 'LPT9',
-]);
-
 /** 驗證路徑 */
-export function validatePath(inputPath: string): void {
+export function validatePath(inputPath: string, rules: PathRules = POSIX_PATH_RULES): void {
   if (!inputPath) {
     throw new InvalidPathError('', 'Path cannot be empty');
   }
@@ -30,8 +25,8 @@ export function validatePath(inputPath: string): void {
   }
 
   // 檢查路徑長度
-  if (inputPath.length > 4096) {
-    throw new InvalidPathError(inputPath, 'Path is too long (max 4096 characters)');
+  if (inputPath.length > rules.maxPathLength) {
+    throw new InvalidPathError(inputPath, `Path is too long (max ${rules.maxPathLength} characters)`);
   }
 
   // 檢查各個部分（跳過 . 和 .. 因為這些是合法的路徑導航元素）
@@ -42,49 +37,58 @@ export function validatePath(inputPath: string): void {
     if (part === '.' || part === '..') {
       continue;
     }
-    validatePathSegment(part, inputPath);
+    validatePathSegment(part, inputPath, rules);
   }
 }
 
 /** 驗證路徑段落 */
-function validatePathSegment(segment: string, fullPath: string): void {
+function validatePathSegment(segment: string, fullPath: string, rules: PathRules): void {
   // 檢查段落長度
-  if (segment.length > 255) {
-    throw new InvalidPathError(fullPath, `Path segment "${segment}" is too long (max 255 characters)`);
+  if (segment.length > rules.maxSegmentLength) {
+    throw new InvalidPathError(
+      fullPath,
+      `Path segment "${segment}" is too long (max ${rules.maxSegmentLength} characters)`,
+    );
+  }
+
+  // 檢查平台不允許的字元
+  for (const char of rules.forbiddenCharacters) {
+    if (segment.includes(char)) {
+      throw new InvalidPathError(fullPath, `Path segment "${segment}" contains forbidden character "${char}"`);
+    }
   }
 
   // 檢查保留名稱（不區分大小寫）
-  const upperSegment = segment.toUpperCase();
-  const baseSegment = upperSegment.split('.')[0];
+  const baseSegment = segment.toUpperCase().split('.')[0];
 
-  if (RESERVED_NAMES.has(baseSegment)) {
+  if (rules.reservedNames.some(name => name.toUpperCase() === baseSegment)) {
     throw new InvalidPathError(fullPath, `"${segment}" is a reserved name`);
   }
 
   // 檢查結尾空格或句點
-  if (segment.endsWith(' ') || segment.endsWith('.')) {
+  if (rules.forbidTrailingDotOrSpace && (segment.endsWith(' ') || segment.endsWith('.'))) {
     throw new InvalidPathError(fullPath, `Path segment cannot end with space or period: "${segment}"`);
   }
 }
 
 /** 驗證檔案名稱 */
-export function validateFileName(name: string): void {
+export function validateFileName(name: string, rules: PathRules = POSIX_PATH_RULES): void {
   if (!name) {
     throw new InvalidPathError('', 'File name cannot be empty');
   }
 
-  // 不能包含斜線
-  if (name.includes('/') || name.includes('\\')) {
+  // 不能包含路徑分隔符號（反斜線是否為分隔符號由平台的禁用字元決定）
+  if (name.includes('/')) {
     throw new InvalidPathError(name, 'File name cannot contain path separators');
   }
 
-  validatePathSegment(name, name);
+  validatePathSegment(name, name, rules);
 }
 
 /** 是否為有效路徑（不拋出錯誤） */
-export function isValidPath(inputPath: string): boolean {
+export function isValidPath(inputPath: string, rules?: PathRules): boolean {
   try {
-    validatePath(inputPath);
+    validatePath(inputPath, rules);
     return true;
   } catch {
     return false;
@@ -92,9 +96,9 @@ export function isValidPath(inputPath: string): boolean {
 }
 
 /** 是否為有效檔案名稱（不拋出錯誤） */
-export function isValidFileName(name: string): boolean {
+export function isValidFileName(name: string, rules?: PathRules): boolean {
   try {
-    validateFileName(name);
+    validateFileName(name, rules);
     return true;
   } catch {
     return false;
@@ -0,0 +1,94 @@
+/**
+ * 平台模擬設定
+ * 描述各作業系統的路徑規則、路徑格式、大小寫與 Unicode 正規化行為
+ */
+
+import type { PathRules, PathStyle, Platform, UnicodeNormalization } from '../types/index.js';
+
+/** 平台設定 */
+export interface PlatformProfile {
+  /** 路徑驗證規則 */
+  pathRules: PathRules;
+  /** 是否區分大小寫 */
+  caseSensitive: boolean;
+  /** 名稱的 Unicode 正規化方式 */
+  unicodeNormalization: UnicodeNormalization;
+  /** 路徑格式 */
+  pathStyle: PathStyle;
+}
+
+/** POSIX（Linux 等）路徑規則：只限制長度，反斜線是名稱的一部分 */
+export const POSIX_PATH_RULES: PathRules = {
+  maxPathLength: 4096,
+  maxSegmentLength: 255,
+  reservedNames: [],
+  forbiddenCharacters: '',
+  forbidTrailingDotOrSpace: false,
+  literalBackslash: true,
+};
+
+/** Windows 路徑規則（傳統 MAX_PATH 限制） */
+export const WIN32_PATH_RULES: PathRules = {
+  maxPathLength: 260,
+  maxSegmentLength: 255,
+  reservedNames: [
+    'CON', 'PRN', 'AUX', 'NUL',
+    'COM1', 'COM2', 'COM3', 'COM4', 'COM5', 'COM6', 'COM7', 'COM8', 'COM9',
+    'LPT1', 'LPT2', 'LPT3', 'LPT4', 'LPT5', 'LPT6', 'LPT7', 'LPT8', 'LPT9',
+  ],
+  forbiddenCharacters: '<>:"|?*\\',
+  forbidTrailingDotOrSpace: true,
+};
+
+/** macOS 路徑規則（PATH_MAX 為 1024） */
+export const DARWIN_PATH_RULES: PathRules = {
+  maxPathLength: 1024,
+  maxSegmentLength: 255,
+  reservedNames: [],
+  forbiddenCharacters: '',
+  forbidTrailingDotOrSpace: false,
+};
+
+/** 各平台設定（custom 以 posix 為基礎，再套用自訂規則） */
+const PLATFORM_PROFILES: Record<Platform, PlatformProfile> = {
+  posix: {
+    pathRules: POSIX_PATH_RULES,
+    caseSensitive: true,
+    unicodeNormalization: 'none',
+    pathStyle: 'posix',
+  },
+  win32: {
+    pathRules: WIN32_PATH_RULES,
+    caseSensitive: false,
+    unicodeNormalization: 'none',
+    pathStyle: 'win32',
+  },
+  darwin: {
+    pathRules: DARWIN_PATH_RULES,
+    caseSensitive: false,
+    unicodeNormalization: 'insensitive',
+    pathStyle: 'posix',
+  },
+  custom: {
+    pathRules: POSIX_PATH_RULES,
+    caseSensitive: true,
+    unicodeNormalization: 'none',
+    pathStyle: 'posix',
+  },
+};
+
+/** 取得平台設定 */
+export function getPlatformProfile(platform: Platform): PlatformProfile {
+  const profile = PLATFORM_PROFILES[platform];
+
+  if (!profile) {
+    throw new TypeError(`Unknown platform: ${platform}`);
+  }
+
+  return profile;
+}
+
+/** 取得平台路徑規則並套用覆寫 */
+export function resolvePathRules(platform: Platform, overrides?: Partial<PathRules>): PathRules {
+  return { ...getPlatformProfile(platform).pathRules, ...overrides };
+}
@@ -0,0 +1,252 @@
+/**
+ * Windows 路徑工具
+ * 支援磁碟機代號（C:\）與 UNC（\\server\share\）根目錄
+ */
+
+/** 預設的目前磁碟機根目錄 */
+export const DEFAULT_WIN32_ROOT = 'C:\\';
+
+/** 內部路徑中 UNC 根目錄的段落（含冒號，不會與一般 Windows 名稱衝突） */
+const UNC_SEGMENT = 'UNC:';
+
+/** 根目錄樣式 */
+const UNC_ROOT = /^[\\/]{2}([^\\/]+)[\\/]+([^\\/]+)(?:[\\/]+|$)/;
+const DRIVE_ROOT = /^([A-Za-z]):([\\/]?)/;
+
+/** 內部路徑的根目錄樣式（/C: 或 /UNC:/server/share） */
+const INTERNAL_DRIVE_ROOT = /^\/([A-Za-z]):(?=\/|$)/;
+const INTERNAL_UNC_ROOT = /^\/UNC:\/([^/]+)\/([^/]+)(?=\/|$)/;
+
+/** 路徑的根目錄與其餘部分 */
+export interface Win32PathRoot {
+  /** 根目錄（C:\、C:、\\server\share\、\ 或空字串） */
+  root: string;
+  /** 根目錄之後的部分 */
+  rest: string;
+}
+
+/** 分離根目錄 */
+export function parseRoot(inputPath: string): Win32PathRoot {
+  const unc = UNC_ROOT.exec(inputPath);
+
+  if (unc) {
+    return { root: `\\\\${unc[1]}\\${unc[2]}\\`, rest: inputPath.slice(unc[0].length) };
+  }
+
+  const drive = DRIVE_ROOT.exec(inputPath);
+
+  if (drive) {
+    return { root: `${drive[1]}:${drive[2] ? '\\' : ''}`, rest: inputPath.slice(drive[0].length) };
+  }
+
+  if (inputPath.startsWith('\\') || inputPath.startsWith('/')) {
+    return { root: '\\', rest: inputPath.slice(1) };
+  }
+
+  return { root: '', rest: inputPath };
+}
+
+/** 取得根目錄 */
+export function root(inputPath: string): string {
+  return parseRoot(inputPath).root;
+}
+
+/** 正規化路徑各部分（處理 . 與 ..；絕對路徑的 .. 不會超出根目錄） */
+function normalizeParts(rest: string, isAbsolute: boolean): string[] {
+  const stack: string[] = [];
+
+  for (const part of rest.split(/[\\/]+/)) {
+    if (part === '' || part === '.') {
+      continue;
+    }
+    if (part === '..') {
+      if (stack.length > 0 && stack[stack.length - 1] !== '..') {
+        stack.pop();
+      } else if (!isAbsolute) {
+        stack.push('..');
+      }
+    } else {
+      stack.push(part);
+    }
+  }
+
+  return stack;
+}
+
+/** 正規化路徑 */
+export function normalize(inputPath: string): string {
+  if (!inputPath) {
+    return '.';
+  }
+
+  const { root: pathRoot, rest } = parseRoot(inputPath);
+  const result = pathRoot + normalizeParts(rest, pathRoot.endsWith('\\')).join('\\');
+
+  return result || '.';
+}
+
+/** 是否為絕對路徑（含只有根目錄的 \foo） */
+export function isAbsolute(inputPath: string): boolean {
+  return parseRoot(inputPath).root.endsWith('\\');
+}
+
+/** 取得目錄路徑 */
+export function dirname(inputPath: string): string {
+  const normalized = normalize(inputPath);
+  const { root: pathRoot, rest } = parseRoot(normalized);
+  const lastSeparator = rest.lastIndexOf('\\');
+
+  if (!rest) {
+    return normalized;
+  }
+
+  if (lastSeparator === -1) {
+    return pathRoot || '.';
+  }
+
+  return pathRoot + rest.slice(0, lastSeparator);
+}
+
+/** 取得檔案名稱 */
+export function basename(inputPath: string, ext?: string): string {
+  const { rest } = parseRoot(normalize(inputPath));
+  let name = rest.slice(rest.lastIndexOf('\\') + 1);
+
+  if (ext && name.endsWith(ext)) {
+    name = name.slice(0, -ext.length);
+  }
+
+  return name;
+}
+
+/** 組合路徑 */
+export function join(...paths: string[]): string {
+  const joined = paths.filter(Boolean).join('\\');
+  return joined ? normalize(joined) : '.';
+}
+
+/** 根目錄的裝置部分（C: 或 \\server\share；沒有時為空字串） */
+function deviceOf(pathRoot: string): string {
+  if (pathRoot === '\\') {
+    return '';
+  }
+
+  return pathRoot.endsWith('\\') ? pathRoot.slice(0, -1) : pathRoot;
+}
+
+/**
+ * 解析為絕對路徑
+ * 由右至左組合，直到同時取得裝置（磁碟機或 UNC）與根目錄；basePath 作為最後的備援
+ */
+export function resolve(basePath: string, ...paths: string[]): string {
+  const candidates = [basePath, ...paths].filter(Boolean);
+  let device = '';
+  let tail = '';
+  let absolute = false;
+
+  for (let i = candidates.length - 1; i >= -1; i--) {
+    const { root: pathRoot, rest } = parseRoot(i >= 0 ? candidates[i] : DEFAULT_WIN32_ROOT);
+    const pathDevice = deviceOf(pathRoot);
+
+    // 不同裝置的路徑不影響結果
+    if (device && pathDevice && pathDevice.toLowerCase() !== device.toLowerCase()) {
+      continue;
+    }
+
+    device ||= pathDevice;
+
+    if (!absolute) {
+      tail = tail ? `${rest}\\${tail}` : rest;
+      absolute = pathRoot.endsWith('\\');
+    }
+
+    if (device && absolute) {
+      break;
+    }
+  }
+
+  const parts = normalizeParts(tail, true);
+  return `${device}\\${parts.join('\\')}`;
+}
+
+/** 計算相對路徑（不區分大小寫；不同根目錄時回傳目標的絕對路徑） */
+export function relative(from: string, to: string): string {
+  const fromResolved = resolve(DEFAULT_WIN32_ROOT, from);
+  const toResolved = resolve(DEFAULT_WIN32_ROOT, to);
+
+  if (fromResolved.toLowerCase() === toResolved.toLowerCase()) {
+    return '';
+  }
+
+  const fromRoot = parseRoot(fromResolved);
+  const toRoot = parseRoot(toResolved);
+
+  if (fromRoot.root.toLowerCase() !== toRoot.root.toLowerCase()) {
+    return toResolved;
+  }
+
+  const fromParts = fromRoot.rest.split('\\').filter(Boolean);
+  const toParts = toRoot.rest.split('\\').filter(Boolean);
+
+  // 找到共同前綴
+  let commonLength = 0;
+  const minLength = Math.min(fromParts.length, toParts.length);
+
+  while (commonLength < minLength && fromParts[commonLength].toLowerCase() === toParts[commonLength].toLowerCase()) {
+    commonLength++;
+  }
+
+  const ups = Array(fromParts.length - commonLength).fill('..');
+  return [...ups, ...toParts.slice(commonLength)].join('\\') || '.';
+}
+
+// ============================================================
+// 內部路徑轉換（VFS 以 /C:/... 與 /UNC:/server/share/... 儲存各根目錄）
+// ============================================================
+
+/**
+ * 將 Windows 路徑轉為內部路徑的根目錄與其餘部分
+ * 非完整路徑（\foo、foo、C:foo）以 basePath 解析；已是內部形式的路徑維持不變
+ */
+export function toInternalParts(inputPath: string, basePath: string): { root: string; rest: string } {
+  const unc = INTERNAL_UNC_ROOT.exec(inputPath);
+
+  if (unc) {
+    return { root: unc[0], rest: inputPath.slice(unc[0].length) || '/' };
+  }
+
+  const drive = INTERNAL_DRIVE_ROOT.exec(inputPath);
+
+  if (drive) {
+    return { root: toInternalRoot(drive[1]), rest: inputPath.slice(drive[0].length) || '/' };
+  }
+
+  const { root: pathRoot, rest } = parseRoot(resolve(basePath, inputPath));
+  return { root: toInternalRoot(deviceOf(pathRoot)), rest: `/${rest.replace(/\\/g, '/')}` };
+}
+
+/** 裝置（C: 或 \\server\share）轉為內部根目錄路徑 */
+export function toInternalRoot(device: string): string {
+  const unc = UNC_ROOT.exec(device);
+
+  if (unc) {
+    return `/${UNC_SEGMENT}/${unc[1]}/${unc[2]}`;
+  }
+
+  return `/${device.slice(0, 1).toUpperCase()}:`;
+}
+
+/** 內部路徑轉為 Windows 路徑 */
+export function fromInternalPath(internalPath: string): string {
+  const unc = INTERNAL_UNC_ROOT.exec(internalPath);
+  const drive = unc ? null : INTERNAL_DRIVE_ROOT.exec(internalPath);
+
+  if (!unc && !drive) {
+    return internalPath.replace(/\//g, '\\');
+  }
+
+  const pathRoot = unc ? `\\\\${unc[1]}\\${unc[2]}\\` : `${drive![1].toUpperCase()}:\\`;
+  const rest = internalPath.slice((unc ?? drive)![0].length).split('/').filter(Boolean);
+
+  return pathRoot + rest.join('\\');
+}
@@ -36,12 +36,112 @@ export interface FileStats {
   modifiedTime: Date;
   /** 存取時間 */
   accessedTime: Date;
+  /** 狀態變更時間（ctime） */
+  changedTime: Date;
+  /** 建立時間（毫秒，含小數） */
+  createdTimeMs: number;
+  /** 修改時間（毫秒，含小數） */
+  modifiedTimeMs: number;
+  /** 存取時間（毫秒，含小數） */
+  accessedTimeMs: number;
+  /** 狀態變更時間（毫秒，含小數） */
+  changedTimeMs: number;
+  /** 建立時間（奈秒） */
+  createdTimeNs: bigint;
+  /** 修改時間（奈秒） */
+  modifiedTimeNs: bigint;
+  /** 存取時間（奈秒） */
+  accessedTimeNs: bigint;
+  /** 狀態變更時間（奈秒） */
+  changedTimeNs: bigint;
   /** 檔案模式 */
   mode: number;
   /** 使用者 ID */
   uid?: number;
   /** 群組 ID */
   gid?: number;
+  /** inode 編號 */
+  ino: number;
+  /** 硬連結數量 */
+  nlink: number;
+}
+
+/**
+ * 目錄項目排序方式
+ * - insertion：建立順序
+ * - alphabetical：依名稱的字元碼排序（不受語系影響）
+ * - natural：名稱中的數字依數值排序（file2 在 file10 之前）
+ */
+export type DirectorySortOrder = 'insertion' | 'alphabetical' | 'natural';
+
+/** 讀取目錄選項 */
+export interface ReadDirectoryOptions {
+  /** 是否遞迴列出子目錄（每個目錄之後接著列出其內容） */
+  recursive?: boolean;
+  /** 是否回傳 DirectoryEntry（預設 true；false 時只回傳名稱，遞迴時為相對路徑） */
+  withFileTypes?: boolean;
+  /** 是否跟隨符號連結（項目回報目標的類型，遞迴時進入連結的目錄） */
+  followSymlinks?: boolean;
+  /** 排序方式（預設 insertion，套用於每一層目錄） */
+  sort?: DirectorySortOrder;
+  /** 過濾函數（只決定是否回傳該項目，遞迴時仍會進入被過濾的目錄） */
+  filter?: (entry: DirectoryEntry) => boolean;
+}
+
+/** walk 產出的項目 */
+export interface WalkEntry extends DirectoryEntry {
+  /** 相對於起始目錄的路徑 */
+  relativePath: string;
+  /** 深度（起始目錄中的項目為 0） */
+  depth: number;
+}
+
+/** walk 選項 */
+export interface WalkOptions {
+  /** 是否跟隨符號連結（項目回報目標的類型，並進入連結的目錄） */
+  followSymlinks?: boolean;
+  /** 最大深度（預設不限制） */
+  maxDepth?: number;
+  /** 過濾函數（只決定是否產出該項目，仍會進入被過濾的目錄） */
+  filter?: (entry: WalkEntry) => boolean;
+  /** 是否進入目錄（回傳 false 時略過整個子樹） */
+  descend?: (entry: WalkEntry) => boolean;
+}
+
+/** usage 選項 */
+export interface UsageOptions {
+  /** 是否跟隨符號連結（計入連結目標；預設 false，只計算連結本身） */
+  followSymlinks?: boolean;
+  /** 是否依副檔名分組統計檔案 */
+  byExtension?: boolean;
+  /** 子項目明細的層數（預設 1；0 表示不含明細） */
+  depth?: number;
+}
+
+/** 依副檔名分組的檔案統計 */
+export interface ExtensionUsage {
+  /** 檔案內容總大小（位元組） */
+  size: number;
+  /** 檔案數量 */
+  fileCount: number;
+}
+
+/** 路徑的使用量統計（計入路徑本身） */
+export interface DiskUsage {
+  /** 路徑 */
+  path: string;
+  /** 檔案內容總大小（位元組；硬連結只計一次） */
+  size: number;
+  /** 檔案數量 */
+  fileCount: number;
+  /** 目錄數量 */
+  directoryCount: number;
+  /** 符號連結數量（跟隨符號連結時只計算斷開或循環的連結） */
+  symlinkCount: number;
+  /** 各子項目的統計（depth 大於 0 的目錄才有） */
+  children?: DiskUsage[];
+  /** 依副檔名分組的統計（沒有副檔名的檔案以空字串為鍵；byExtension 啟用時才有） */
+  byExtension?: Record<string, ExtensionUsage>;
 }
 
 /** Glob 選項 */
@@ -89,6 +189,7 @@ export enum FileChangeType {
   Unlink = 'unlink',
   AddDir = 'addDir',
   UnlinkDir = 'unlinkDir',
+  Rename = 'rename',
   Ready = 'ready',
   Error = 'error',
 }
@@ -99,6 +200,8 @@ export interface FileChangeEvent {
   type: FileChangeType;
   /** 檔案路徑 */
   path: string;
+  /** 原路徑（如果是重新命名事件） */
+  oldPath?: string;
   /** 檔案統計（如果可用） */
   stats?: FileStats;
   /** 錯誤（如果是錯誤事件） */
@@ -150,16 +253,168 @@ export interface FileDiff {
   newStats?: FileStats;
 }
 
+/** 交易選項 */
+export interface TransactionOptions {
+  /**
+   * 是否偵測衝突（預設 false）：提交時若交易變更的路徑在交易期間被交易外的操作變更，
+   * 拋出 TransactionConflictError 並捨棄交易；未啟用時交易的變更覆寫交易外的變更
+   */
+  detectConflicts?: boolean;
+}
+
+/** 操作歷程選項 */
+export interface HistoryOptions {
+  /** 保留的歷程項目數量上限（預設 100） */
+  maxEntries?: number;
+  /** 歷程保存的檔案內容總大小上限（位元組，預設 64 MiB），超過時捨棄最舊的項目 */
+  maxBytes?: number;
+}
+
+/** 記錄於歷程的操作種類（group 為 beginGroup/endGroup 合併的項目） */
+export type HistoryOperation =
+  | 'write'
+  | 'append'
+  | 'delete'
+  | 'mkdir'
+  | 'symlink'
+  | 'rename'
+  | 'chmod'
+  | 'chown'
+  | 'utimes'
+  | 'xattr'
+  | 'copy'
+  | 'link'
+  | 'truncate'
+  | 'restore'
+  | 'transaction'
+  | 'group';
+
+/** 歷程項目 */
+export interface HistoryEntry {
+  /** 項目 ID（遞增） */
+  id: number;
+  /** 操作種類 */
+  operation: HistoryOperation;
+  /** 群組名稱（僅 group） */
+  name?: string;
+  /** 受影響的路徑 */
+  paths: string[];
+  /** 記錄時間 */
+  timestamp: Date;
+  /** 是否已復原（可重做） */
+  undone: boolean;
+}
+
 /** VFS 選項 */
 export interface VFSOptions {
-  /** 是否區分大小寫（預設 true） */
+  /** 模擬的平台（預設 posix），決定路徑規則與大小寫、正規化的預設值 */
+  platform?: Platform;
+  /** 覆寫平台的路徑規則（platform 為 custom 時以 posix 規則為基礎） */
+  pathRules?: Partial<PathRules>;
+  /** 路徑格式（預設依平台；win32 支援磁碟機與 UNC 根目錄，並以 Windows 格式回傳路徑） */
+  pathStyle?: PathStyle;
+  /** win32 路徑格式下的根目錄（預設 ['C:\\']；第一個為沒有指定磁碟機時使用的根目錄） */
+  win32Roots?: string[];
+  /** 是否區分大小寫（預設依平台） */
   caseSensitive?: boolean;
+  /** 名稱的 Unicode 正規化方式（預設依平台） */
+  unicodeNormalization?: UnicodeNormalization;
   /** 預設檔案模式 */
   defaultFileMode?: number;
   /** 預設目錄模式 */
   defaultDirectoryMode?: number;
   /** 符號連結最大解析深度（預設 40） */
   maxSymlinkDepth?: number;
+  /** 是否依 mode、uid、gid 強制檢查權限（預設 false） */
+  enforcePermissions?: boolean;
+  /** 執行身分（預設為 uid 0、gid 0 的 root） */
+  credentials?: VFSCredentials;
+  /** 錯誤的 code 是否使用 POSIX 錯誤碼（如 ENOENT，與 Node.js 的 fs 相容；預設 false） */
+  posixErrorCodes?: boolean;
+  /** 檔案內容總大小上限（位元組，預設不限制；硬連結只計一次） */
+  maxTotalBytes?: number;
+  /** inode 數量上限（檔案、目錄與符號連結，含根目錄；預設不限制） */
+  maxInodes?: number;
+  /** 單一檔案大小上限（位元組，預設不限制） */
+  maxFileSize?: number;
+  /** 單一延伸屬性值的大小上限（位元組，預設 65536） */
+  maxXattrSize?: number;
+  /** 記錄可復原的操作歷程（預設 false；true 時使用預設上限） */
+  history?: boolean | HistoryOptions;
+}
+
+/** 目錄配額（套用於目錄路徑之下的整個子樹） */
+export interface DirectoryQuota {
+  /** 檔案內容總大小上限（位元組） */
+  maxBytes?: number;
+  /** inode 數量上限（含目錄本身） */
+  maxInodes?: number;
+}
+
+/** 儲存空間統計（未設定上限時 total 與 free 為 Infinity） */
+export interface StorageStats {
+  /** 容量（位元組） */
+  totalBytes: number;
+  /** 已使用（位元組） */
+  usedBytes: number;
+  /** 剩餘（位元組） */
+  freeBytes: number;
+  /** inode 數量上限 */
+  totalInodes: number;
+  /** 已使用的 inode 數量 */
+  usedInodes: number;
+  /** 剩餘的 inode 數量 */
+  freeInodes: number;
+  /** 單一檔案大小上限（位元組） */
+  maxFileSize: number;
+}
+
+/**
+ * 名稱的 Unicode 正規化方式
+ * - none：依原字串比對
+ * - nfc / nfd：儲存與比對皆轉為指定形式
+ * - insensitive：保留原名稱，比對時忽略正規化差異（如 APFS）
+ */
+export type UnicodeNormalization = 'none' | 'nfc' | 'nfd' | 'insensitive';
+
+/** 模擬的平台 */
+export type Platform = 'posix' | 'win32' | 'darwin' | 'custom';
+
+/** 路徑格式 */
+export type PathStyle = 'posix' | 'win32';
+
+/** 路徑驗證規則 */
+export interface PathRules {
+  /** 路徑最大長度（字元） */
+  maxPathLength: number;
+  /** 路徑段落最大長度（字元） */
+  maxSegmentLength: number;
+  /** 保留名稱（不區分大小寫，比對第一個句點之前的部分） */
+  reservedNames: readonly string[];
+  /** 名稱中不允許出現的字元（控制字元一律不允許） */
+  forbiddenCharacters: string;
+  /** 是否禁止名稱以空格或句點結尾 */
+  forbidTrailingDotOrSpace: boolean;
+  /** 反斜線是否為名稱的一部分（預設 false，轉為路徑分隔符號；僅 posix 路徑格式使用） */
+  literalBackslash?: boolean;
+}
+
+/** 權限檢查使用的執行身分 */
+export interface VFSCredentials {
+  /** 使用者 ID */
+  uid: number;
+  /** 主要群組 ID */
+  gid: number;
+  /** 附加群組 ID */
+  groups?: number[];
+}
+
+/** 存取權限檢查模式（與 fs.constants 的 F_OK、R_OK、W_OK、X_OK 相同） */
+export enum AccessMode {
+  Exists = 0,
+  Execute = 1,
+  Write = 2,
+  Read = 4,
 }
 
 /** 原子寫入選項 */
@@ -172,9 +427,103 @@ export interface AtomicWriteOptions {
   encoding?: BufferEncoding;
 }
 
+/** 時間參數（數字與數字字串以秒為單位，與 fs.utimes 相同） */
+export type TimeLike = Date | number | string;
+
+/** 檔案開啟旗標 */
+export type OpenFlags = 'r' | 'r+' | 'w' | 'wx' | 'w+' | 'wx+' | 'a' | 'ax' | 'a+' | 'ax+';
+
+/** 整個檔案的鎖定操作（與 flock(2) 的 LOCK_SH、LOCK_EX、LOCK_UN 相同） */
+export type FlockOperation = 'shared' | 'exclusive' | 'unlock';
+
+/** 位元組範圍鎖定類型（與 fcntl(2) 的 F_RDLCK、F_WRLCK、F_UNLCK 相同） */
+export type RangeLockType = 'read' | 'write' | 'unlock';
+
+/** 位元組範圍鎖定 */
+export interface RangeLock {
+  /** 鎖定類型 */
+  type: RangeLockType;
+  /** 起始位置（預設 0） */
+  start?: number;
+  /** 長度（預設 0，表示延伸至檔案結尾之後） */
+  length?: number;
+}
+
+/** 鎖的擁有者（預設為取得鎖的檔案描述符） */
+export type LockOwner = string | number;
+
+/** 鎖定選項 */
+export interface LockOptions {
+  /** 無法立即取得時是否等待（預設 true；同步方法一律不等待） */
+  wait?: boolean;
+  /** 擁有者（相同擁有者的鎖不互相衝突，並作為死結偵測的單位） */
+  owner?: LockOwner;
+}
+
+/** 目前持有的鎖 */
+export interface LockInfo {
+  /** flock 為整個檔案的鎖，range 為位元組範圍鎖（兩者互不影響） */
+  kind: 'flock' | 'range';
+  /** 共享或獨占 */
+  type: 'shared' | 'exclusive';
+  /** 起始位置 */
+  start: number;
+  /** 長度（0 表示延伸至檔案結尾之後） */
+  length: number;
+  /** 取得鎖的檔案描述符 */
+  fd: number;
+  /** 擁有者 */
+  owner: LockOwner;
+}
+
+/** 重新命名選項 */
+export interface RenameOptions {
+  /** 目的地已存在時是否覆寫（預設 true，與 rename(2) 相同） */
+  overwrite?: boolean;
+}
+
+/** 複製選項（與 fs.cp 相同語意） */
+export interface CopyOptions {
+  /** 是否遞迴複製目錄（預設 false） */
+  recursive?: boolean;
+  /** 目的地已存在時是否覆寫（預設 true） */
+  overwrite?: boolean;
+  /** 不覆寫且目的地已存在時是否拋出錯誤（預設 false） */
+  errorOnExist?: boolean;
+  /** 是否複製符號連結的目標而非連結本身（預設 false） */
+  dereference?: boolean;
+  /** 是否保留時間戳記（預設 false） */
+  preserveTimestamps?: boolean;
+  /** 過濾函數，回傳 false 時略過該路徑（目錄則略過整個子樹） */
+  filter?: (src: string, dest: string) => boolean;
+}
+
+/** 延伸屬性設定方式：create 只建立新屬性，replace 只取代既有屬性（預設兩者皆可） */
+export type XattrFlag = 'create' | 'replace';
+
+/** 設定延伸屬性選項 */
+export interface SetXattrOptions {
+  /** 設定方式 */
+  flag?: XattrFlag;
+}
+
+/** 帶有延伸屬性的平面 JSON 項目（content 為 null 表示目錄，屬性值以 base64 編碼） */
+export interface XattrEntryJSON {
+  content: string | null;
+  xattrs: Record<string, string>;
+}
+
 /** 目錄 JSON 結構 */
 export interface DirectoryJSON {
-  [path: string]: string | Buffer | null | DirectoryJSON;
+  [path: string]: string | Buffer | null | XattrEntryJSON | DirectoryJSON;
+}
+
+/** JSON 輸出選項 */
+export interface ToJSONOptions {
+  /** 是否輸出為平面路徑格式（預設 false） */
+  flatten?: boolean;
+  /** 是否輸出延伸屬性（需搭配 flatten；有屬性的項目以 XattrEntryJSON 表示，預設 false） */
+  xattrs?: boolean;
 }
 
 /** VFS 節點類型 */
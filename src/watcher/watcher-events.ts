@@ -11,6 +11,8 @@ export interface WatcherEvent {
   type: FileChangeType;
   /** 檔案路徑 */
   path: string;
+  /** 原路徑（如果是重新命名事件） */
+  oldPath?: string;
   /** 檔案統計（如果可用） */
   stats?: FileStats;
 }
@@ -7,7 +7,7 @@ import type { WatchOptions, FileStats } from '../types/index.js';
 import { FileChangeType } from '../types/index.js';
 import { SimpleEventEmitter, type WatcherEvent } from './watcher-events.js';
 import { Debouncer } from './debouncer.js';
-import { normalizePath, isSubPath } from '../path/path-resolver.js';
+import { normalizePath, isSubPath } from '../path/internal-path.js';
 
 /** VFS Watcher 類別 */
 export class VFSWatcher extends SimpleEventEmitter {
@@ -26,6 +26,9 @@ export class VFSWatcher extends SimpleEventEmitter {
   /** 已知路徑快取（用於判斷新增或修改） */
   private knownPaths: Set<string> = new Set();
 
+  /** 將路徑轉為對外回傳的格式（例如 win32 路徑） */
+  private readonly formatPath: (path: string) => string;
+
   /** 預設選項 */
   private static readonly DEFAULT_OPTIONS: Required<WatchOptions> = {
     persistent: true,
@@ -37,10 +40,11 @@ export class VFSWatcher extends SimpleEventEmitter {
     depth: Infinity,
   };
 
-  constructor(watchPath: string, options?: WatchOptions) {
+  constructor(watchPath: string, options?: WatchOptions, formatPath: (path: string) => string = path => path) {
     super();
     this.watchPath = normalizePath(watchPath);
     this.options = { ...VFSWatcher.DEFAULT_OPTIONS, ...options };
+    this.formatPath = formatPath;
 
     this.debouncer = new Debouncer(
       (events) => this.flushEvents(events),
@@ -102,6 +106,39 @@ export class VFSWatcher extends SimpleEventEmitter {
     this.debouncer.add(normalizedPath, event);
   }
 
+  /** 通知重新命名（跨越監聽範圍時轉換為新增或刪除事件） */
+  notifyRename(oldPath: string, newPath: string, isDirectory: boolean, stats?: FileStats): void {
+    if (this.closed) {return;}
+
+    const normalizedOld = normalizePath(oldPath);
+    const normalizedNew = normalizePath(newPath);
+    const watchOld = this.shouldWatch(normalizedOld);
+    const watchNew = this.shouldWatch(normalizedNew);
+
+    this.moveKnownPaths(normalizedOld, normalizedNew);
+
+    if (watchOld && watchNew) {
+      this.debouncer.remove(normalizedOld);
+      this.debouncer.add(normalizedNew, {
+        type: FileChangeType.Rename,
+        path: normalizedNew,
+        oldPath: normalizedOld,
+        stats,
+      });
+    } else if (watchOld) {
+      this.debouncer.add(normalizedOld, {
+        type: isDirectory ? FileChangeType.UnlinkDir : FileChangeType.Unlink,
+        path: normalizedOld,
+      });
+    } else if (watchNew) {
+      this.debouncer.add(normalizedNew, {
+        type: isDirectory ? FileChangeType.AddDir : FileChangeType.Add,
+        path: normalizedNew,
+        stats,
+      });
+    }
+  }
+
   /** 發送 ready 事件 */
   emitReady(): void {
     if (this.closed) {return;}
@@ -141,7 +178,7 @@ export class VFSWatcher extends SimpleEventEmitter {
 
   /** 監聽的路徑 */
   get path(): string {
-    return this.watchPath;
+    return this.formatPath(this.watchPath);
   }
 
   /** 覆寫 on 方法 */
@@ -170,6 +207,16 @@ export class VFSWatcher extends SimpleEventEmitter {
     return true;
   }
 
+  /** 將已知路徑（含子路徑）搬移到新位置 */
+  private moveKnownPaths(oldPath: string, newPath: string): void {
+    for (const path of Array.from(this.knownPaths)) {
+      if (path === oldPath || isSubPath(path, oldPath)) {
+        this.knownPaths.delete(path);
+        this.knownPaths.add(newPath + path.slice(oldPath.length));
+      }
+    }
+  }
+
   /** 計算相對於監聽路徑的深度 */
   private getPathDepth(path: string): number {
     if (path === this.watchPath) {
@@ -214,7 +261,13 @@ export class VFSWatcher extends SimpleEventEmitter {
 
   /** 批量發送事件 */
   private flushEvents(events: Map<string, WatcherEvent>): void {
-    for (const event of events.values()) {
+    for (const internalEvent of events.values()) {
+      const event: WatcherEvent = {
+        ...internalEvent,
+        path: this.formatPath(internalEvent.path),
+        ...(internalEvent.oldPath !== undefined && { oldPath: this.formatPath(internalEvent.oldPath) }),
+      };
+
       // 發送特定類型事件
       this.emit(event.type, event);
       // 發送 'all' 事件
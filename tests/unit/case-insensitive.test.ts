@@ -0,0 +1,98 @@
+/**
+ * 不區分大小寫單元測試
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVFS, VirtualFileSystem, FileChangeType } from '../../src/index.js';
+import { FileAlreadyExistsError, InvalidPathError } from '../../src/errors/file-system-errors.js';
+
+describe('caseSensitive: false', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS({ caseSensitive: false });
+  });
+
+  it('查找應該不區分大小寫並保留原始名稱', async () => {
+    await vfs.writeFile('/Src/Button.tsx', 'button');
+
+    expect(await vfs.readFile('/src/button.TSX', 'utf-8')).toBe('button');
+    expect(await vfs.exists('/SRC/BUTTON.tsx')).toBe(true);
+    expect((await vfs.readDirectory('/src')).map(e => e.path)).toEqual(['/Src/Button.tsx']);
+  });
+
+  it('以不同大小寫建立應該指向同一個項目', async () => {
+    await vfs.writeFile('/foo.ts', 'one');
+    await vfs.writeFile('/Foo.ts', 'two');
+    await vfs.createDirectory('/LIB/Utils', true);
+    await vfs.createDirectory('/lib/utils', true);
+
+    expect(await vfs.readDirectory('/')).toHaveLength(2);
+    expect(await vfs.readFile('/foo.ts', 'utf-8')).toBe('two');
+    expect((await vfs.readDirectory('/')).map(e => e.name).sort()).toEqual(['LIB', 'foo.ts']);
+    await expect(vfs.createSymlink('/foo.ts', '/FOO.TS')).rejects.toThrow(FileAlreadyExistsError);
+  });
+
+  it('應該支援只變更大小寫的重新命名', async () => {
+    await vfs.writeFile('/readme.md', 'x');
+    await vfs.rename('/readme.md', '/README.md');
+
+    expect((await vfs.readDirectory('/')).map(e => e.name)).toEqual(['README.md']);
+  });
+
+  it('應該以不同大小寫偵測移入自身子樹', async () => {
+    await vfs.createDirectory('/dir');
+    await expect(vfs.rename('/dir', '/DIR/sub')).rejects.toThrow(InvalidPathError);
+    await expect(vfs.copy('/dir', '/Dir/sub', { recursive: true })).rejects.toThrow(InvalidPathError);
+    await expect(vfs.copy('/dir', '/DIR', { recursive: true })).rejects.toThrow(InvalidPathError);
+  });
+
+  it('glob 應該不區分大小寫並回傳原始名稱', async () => {
+    await vfs.writeFile('/src/App.TSX', 'a');
+    await vfs.writeFile('/src/util.ts', 'u');
+
+    expect(await vfs.glob('*.tsx', { cwd: '/SRC' })).toEqual(['/src/App.TSX']);
+    expect(await vfs.glob('*.TS', { cwd: '/src', absolute: false })).toEqual(['util.ts']);
+  });
+
+  it('預設應該區分大小寫', async () => {
+    const strict = createVFS();
+    await strict.writeFile('/foo.ts', 'one');
+    await strict.writeFile('/Foo.ts', 'two');
+    expect(await strict.readDirectory('/')).toHaveLength(2);
+  });
+
+  describe('監聽', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('事件應該使用實際儲存的路徑', async () => {
+      await vfs.writeFile('/Src/App.ts', 'a');
+
+      const watcher = vfs.watch('/SRC');
+      const allHandler = vi.fn();
+      watcher.on('all', allHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.writeFile('/src/app.TS', 'b');
+      await vi.advanceTimersByTimeAsync(150);
+      await vfs.rename('/SRC/APP.ts', '/src/Main.ts');
+      await vi.advanceTimersByTimeAsync(150);
+      await vfs.deleteFile('/src/MAIN.TS');
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(allHandler.mock.calls.map(call => [call[0].type, call[0].path, call[0].oldPath])).toEqual([
+        [FileChangeType.Change, '/Src/App.ts', undefined],
+        [FileChangeType.Rename, '/Src/Main.ts', '/Src/App.ts'],
+        [FileChangeType.Unlink, '/Src/Main.ts', undefined],
+      ]);
+
+      watcher.close();
+    });
+  });
+});
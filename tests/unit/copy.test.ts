@@ -0,0 +1,162 @@
+/**
+ * copy 單元測試
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { createVFS, createFsPromises, VirtualFileSystem, FileChangeType } from '../../src/index.js';
+import {
+  FileAlreadyExistsError,
+  FileNotFoundError,
+  InvalidPathError,
+  NotAFileError,
+  NotADirectoryError,
+} from '../../src/errors/file-system-errors.js';
+
+describe('copy', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  it('應該複製檔案並保留模式', async () => {
+    const fd = vfs.openSync('/a.txt', 'w', 0o600);
+    vfs.writeSync(fd, 'content');
+    vfs.closeSync(fd);
+
+    await vfs.copy('/a.txt', '/nested/b.txt');
+
+    expect(await vfs.readFile('/nested/b.txt', 'utf-8')).toBe('content');
+    expect((await vfs.getStats('/nested/b.txt')).mode).toBe(0o600);
+  });
+
+  it('複製目錄需要 recursive 選項', async () => {
+    await vfs.writeFile('/src/a.txt', 'a');
+    await expect(vfs.copy('/src', '/dest')).rejects.toThrow(NotAFileError);
+  });
+
+  it('應該遞迴複製目錄樹且彼此獨立', async () => {
+    await vfs.writeFile('/src/a.txt', 'a');
+    await vfs.writeFile('/src/lib/b.txt', 'b');
+
+    await vfs.copy('/src', '/dest', { recursive: true });
+    await vfs.writeFile('/dest/a.txt', 'changed');
+
+    expect(await vfs.readFile('/src/a.txt', 'utf-8')).toBe('a');
+    expect(await vfs.readFile('/dest/lib/b.txt', 'utf-8')).toBe('b');
+  });
+
+  it('應該合併到既有目錄並依 overwrite 決定是否覆寫', async () => {
+    await vfs.writeFile('/src/a.txt', 'new');
+    await vfs.writeFile('/src/b.txt', 'new');
+    await vfs.writeFile('/dest/a.txt', 'old');
+    await vfs.writeFile('/dest/keep.txt', 'keep');
+
+    await vfs.copy('/src', '/dest', { recursive: true, overwrite: false });
+    expect(await vfs.readFile('/dest/a.txt', 'utf-8')).toBe('old');
+    expect(await vfs.readFile('/dest/b.txt', 'utf-8')).toBe('new');
+    expect(await vfs.readFile('/dest/keep.txt', 'utf-8')).toBe('keep');
+
+    await vfs.copy('/src', '/dest', { recursive: true });
+    expect(await vfs.readFile('/dest/a.txt', 'utf-8')).toBe('new');
+  });
+
+  it('errorOnExist 應該在不覆寫時拋出錯誤', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.writeFile('/b.txt', 'b');
+    await expect(vfs.copy('/a.txt', '/b.txt', { overwrite: false, errorOnExist: true }))
+      .rejects.toThrow(FileAlreadyExistsError);
+  });
+
+  it('預設應該複製符號連結本身，dereference 時複製目標', async () => {
+    await vfs.writeFile('/data/file.txt', 'data');
+    await vfs.createSymlink('/data/file.txt', '/src/link');
+
+    await vfs.copy('/src', '/plain', { recursive: true });
+    expect(await vfs.isSymlink('/plain/link')).toBe(true);
+
+    await vfs.copy('/src', '/deref', { recursive: true, dereference: true });
+    expect(await vfs.isSymlink('/deref/link')).toBe(false);
+    expect(await vfs.readFile('/deref/link', 'utf-8')).toBe('data');
+  });
+
+  it('filter 應該略過檔案與整個子樹', async () => {
+    await vfs.writeFile('/src/a.ts', 'a');
+    await vfs.writeFile('/src/a.log', 'log');
+    await vfs.writeFile('/src/node_modules/pkg/index.js', 'pkg');
+
+    await vfs.copy('/src', '/dest', {
+      recursive: true,
+      filter: src => !src.endsWith('.log') && !src.includes('node_modules'),
+    });
+
+    expect(await vfs.glob('**', { cwd: '/dest', absolute: false })).toEqual(['a.ts']);
+  });
+
+  it('應該依 preserveTimestamps 決定是否保留時間', async () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    await vfs.writeFile('/src/a.txt', 'a');
+    vi.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+
+    await vfs.copy('/src', '/kept', { recursive: true, preserveTimestamps: true, filter: () => true });
+    await vfs.copy('/src', '/fresh', { recursive: true });
+    vi.useRealTimers();
+
+    expect((await vfs.getStats('/kept/a.txt')).modifiedTime).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect((await vfs.getStats('/kept')).modifiedTime).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect((await vfs.getStats('/fresh/a.txt')).modifiedTime).toEqual(new Date('2024-06-01T00:00:00Z'));
+  });
+
+  it('應該拒絕無效的來源與目的地', async () => {
+    await vfs.writeFile('/dir/a.txt', 'a');
+    await vfs.writeFile('/file.txt', 'f');
+
+    await expect(vfs.copy('/missing', '/x')).rejects.toThrow(FileNotFoundError);
+    await expect(vfs.copy('/dir', '/dir')).rejects.toThrow(InvalidPathError);
+    await expect(vfs.copy('/dir', '/dir/sub', { recursive: true })).rejects.toThrow(InvalidPathError);
+    await expect(vfs.copy('/dir', '/file.txt', { recursive: true })).rejects.toThrow(NotADirectoryError);
+    await expect(vfs.copy('/file.txt', '/dir')).rejects.toThrow(NotAFileError);
+  });
+
+  it('fs.promises cp 應該對應 force 選項', async () => {
+    const fs = createFsPromises(vfs);
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.writeFile('/b.txt', 'b');
+
+    await expect(fs.cp('/a.txt', '/b.txt', { force: false, errorOnExist: true })).rejects.toMatchObject({ code: 'EEXIST' });
+    await expect(fs.cp('/missing', '/c')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'cp' });
+  });
+
+  describe('監聽', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('應該為每個建立的節點發送事件', async () => {
+      await vfs.writeFile('/src/a.txt', 'a');
+      await vfs.writeFile('/src/lib/b.txt', 'b');
+
+      const watcher = vfs.watch('/');
+      const allHandler = vi.fn();
+      watcher.on('all', allHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.copy('/src', '/dest', { recursive: true });
+      await vi.advanceTimersByTimeAsync(150);
+
+      const events = allHandler.mock.calls.map(call => [call[0].type, call[0].path]).sort();
+      expect(events).toEqual([
+        [FileChangeType.Add, '/dest/a.txt'],
+        [FileChangeType.Add, '/dest/lib/b.txt'],
+        [FileChangeType.AddDir, '/dest'],
+        [FileChangeType.AddDir, '/dest/lib'],
+      ]);
+
+      watcher.close();
+    });
+  });
+});
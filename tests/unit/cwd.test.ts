@@ -0,0 +1,190 @@
+/**
+ * 工作目錄單元測試
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  createVFS,
+  createFsPromises,
+  VirtualFileSystem,
+  DirectoryNotFoundError,
+  NotADirectoryError,
+  PermissionError,
+  FileChangeType,
+} from '../../src/index.js';
+import type { WatcherEvent } from '../../src/index.js';
+
+describe('工作目錄', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('預設工作目錄應該是根目錄', () => {
+    expect(vfs.cwd()).toBe('/');
+  });
+
+  it('相對路徑應該以工作目錄為基準', async () => {
+    await vfs.createDirectory('/project/src', true);
+    vfs.chdir('/project');
+
+    await vfs.writeFile('src/index.ts', 'x');
+    await vfs.writeFile('./README.md', 'readme');
+
+    expect(vfs.cwd()).toBe('/project');
+    expect(await vfs.readFile('/project/src/index.ts', 'utf-8')).toBe('x');
+    expect(await vfs.exists('README.md')).toBe(true);
+    expect(await vfs.exists('../project/README.md')).toBe(true);
+    expect((await vfs.readDirectory('.')).map(e => e.path)).toEqual(['/project/src', '/project/README.md']);
+  });
+
+  it('絕對路徑不應該受工作目錄影響', async () => {
+    await vfs.createDirectory('/a');
+    vfs.chdir('/a');
+    await vfs.writeFile('/b.txt', 'x');
+
+    expect(await vfs.exists('/a/b.txt')).toBe(false);
+    expect(await vfs.exists('/b.txt')).toBe(true);
+  });
+
+  it('chdir 應該接受相對路徑', async () => {
+    await vfs.createDirectory('/a/b/c', true);
+    vfs.chdir('/a');
+    vfs.chdir('b/c');
+    vfs.chdir('..');
+
+    expect(vfs.cwd()).toBe('/a/b');
+  });
+
+  it('chdir 到不存在的路徑或檔案應該拋出錯誤且不變更工作目錄', async () => {
+    await vfs.writeFile('/file.txt', 'x');
+
+    expect(() => vfs.chdir('/missing')).toThrow(DirectoryNotFoundError);
+    expect(() => vfs.chdir('/file.txt')).toThrow(NotADirectoryError);
+    expect(vfs.cwd()).toBe('/');
+  });
+
+  it('chdir 應該跟隨符號連結並記錄實際路徑', async () => {
+    await vfs.createDirectory('/real/inner', true);
+    await vfs.createSymlink('/real', '/link');
+    await vfs.createSymlink('inner', '/real/rel');
+
+    vfs.chdir('/link/rel');
+    expect(vfs.cwd()).toBe('/real/inner');
+
+    vfs.chdir('..');
+    expect(vfs.cwd()).toBe('/real');
+  });
+
+  it('chdir 應該要求目錄的執行權限', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.createDirectory('/private');
+    await restricted.chmod('/private', 0o600);
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    expect(() => restricted.chdir('/private')).toThrow(PermissionError);
+  });
+
+  it('工作目錄所在的目錄被移動時應該跟著移動', async () => {
+    await vfs.createDirectory('/old/work', true);
+    vfs.chdir('/old/work');
+    await vfs.rename('/old', '/new');
+
+    expect(vfs.cwd()).toBe('/new/work');
+    await vfs.writeFile('a.txt', 'x');
+    expect(await vfs.exists('/new/work/a.txt')).toBe(true);
+  });
+
+  it('glob 預設應該從工作目錄搜尋', async () => {
+    await vfs.writeFile('/app/src/a.ts', 'a');
+    await vfs.writeFile('/other/b.ts', 'b');
+    vfs.chdir('/app');
+
+    expect(await vfs.glob('**/*.ts')).toEqual(['/app/src/a.ts']);
+    expect(await vfs.glob('**/*.ts', { absolute: false })).toEqual(['src/a.ts']);
+    expect(await vfs.glob('*.ts', { cwd: '../other', absolute: false })).toEqual(['b.ts']);
+  });
+
+  it('watch 應該以工作目錄解析相對路徑', async () => {
+    vi.useFakeTimers();
+    await vfs.createDirectory('/app/src', true);
+    vfs.chdir('/app');
+
+    const events: WatcherEvent[] = [];
+    const watcher = vfs.watch('src', { debounce: 0, ignoreInitial: true });
+    watcher.on('all', event => events.push(event as WatcherEvent));
+
+    await vfs.writeFile('src/a.ts', 'x');
+    await vfs.writeFile('/app/b.ts', 'x');
+    await vi.runAllTimersAsync();
+
+    expect(events.map(e => [e.type, e.path])).toEqual([[FileChangeType.Add, '/app/src/a.ts']]);
+    watcher.close();
+  });
+
+  it('符號連結的路徑以工作目錄解析，相對目標仍以連結所在目錄為基準', async () => {
+    await vfs.writeFile('/app/lib/target.txt', 'lib');
+    await vfs.writeFile('/app/target.txt', 'app');
+    vfs.chdir('/app');
+
+    await vfs.createSymlink('target.txt', 'lib/link.txt');
+
+    expect(await vfs.isSymlink('/app/lib/link.txt')).toBe(true);
+    expect(await vfs.readFile('lib/link.txt', 'utf-8')).toBe('lib');
+  });
+
+  it('path.resolve 應該以工作目錄為基準', async () => {
+    await vfs.createDirectory('/app');
+    vfs.chdir('/app');
+
+    expect(vfs.path.resolve('src', '../lib')).toBe('/app/lib');
+    expect(vfs.path.relative('src', '/app/lib')).toBe('../lib');
+  });
+
+  it('fs 轉接層應該以工作目錄解析相對路徑', async () => {
+    const fs = createFsPromises(vfs);
+    await vfs.writeFile('/app/real/a.txt', 'a');
+    await vfs.createSymlink('real', '/app/link');
+    vfs.chdir('/app');
+
+    expect(await fs.readFile('link/a.txt', 'utf-8')).toBe('a');
+    expect(await fs.realpath('link/a.txt')).toBe('/app/real/a.txt');
+    await fs.mkdir('new/dir', { recursive: true });
+    expect(await vfs.isDirectory('/app/new/dir')).toBe(true);
+  });
+
+  it('reset 應該將工作目錄重設為根目錄', async () => {
+    await vfs.createDirectory('/a');
+    vfs.chdir('/a');
+    vfs.reset();
+
+    expect(vfs.cwd()).toBe('/');
+  });
+
+  describe('win32 路徑格式', () => {
+    it('預設工作目錄應該是第一個根目錄', () => {
+      expect(createVFS({ platform: 'win32', win32Roots: ['D:\\', 'C:\\'] }).cwd()).toBe('D:\\');
+    });
+
+    it('相對路徑與沒有磁碟機的根路徑應該以工作目錄為基準', async () => {
+      const win = createVFS({ platform: 'win32', win32Roots: ['C:\\', 'D:\\'] });
+      await win.createDirectory('D:\\work\\src', true);
+      win.chdir('d:\\WORK');
+
+      await win.writeFile('src\\a.ts', 'a');
+      await win.writeFile('\\top.txt', 'top');
+      await win.writeFile('C:other.txt', 'c');
+
+      expect(win.cwd()).toBe('D:\\work');
+      expect(await win.exists('D:\\work\\src\\a.ts')).toBe(true);
+      expect(await win.exists('D:\\top.txt')).toBe(true);
+      expect(await win.exists('C:\\other.txt')).toBe(true);
+      expect(win.path.resolve('x')).toBe('D:\\work\\x');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * 錯誤碼單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { constants as osConstants } from 'node:os';
+import {
+  createVFS,
+  VirtualFileSystem,
+  FileSystemError,
+  FileSystemErrorCode,
+  FileNotFoundError,
+  NotADirectoryError,
+  BadFileDescriptorError,
+  POSIX_ERROR_CODES,
+  getErrno,
+} from '../../src/index.js';
+
+const { errno } = osConstants;
+
+describe('錯誤碼', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  it('每個錯誤類別都應該帶有 POSIX 錯誤碼與 errno', () => {
+    const error = new FileNotFoundError('/a.txt');
+
+    expect(error.code).toBe(FileSystemErrorCode.FileNotFound);
+    expect(error.vfsCode).toBe(FileSystemErrorCode.FileNotFound);
+    expect(error.posixCode).toBe('ENOENT');
+    expect(error.errno).toBe(-errno.ENOENT);
+    expect(error.path).toBe('/a.txt');
+    expect(error.syscall).toBeUndefined();
+    expect(new NotADirectoryError('/a')).toMatchObject({ posixCode: 'ENOTDIR', errno: -errno.ENOTDIR });
+    expect(new BadFileDescriptorError(3)).toMatchObject({ posixCode: 'EBADF', errno: -errno.EBADF });
+  });
+
+  it('所有 VFS 錯誤碼都應該有對應的 POSIX 錯誤碼', () => {
+    for (const code of Object.values(FileSystemErrorCode)) {
+      expect(POSIX_ERROR_CODES[code]).toMatch(/^E[A-Z0-9]+$/);
+      expect(getErrno(POSIX_ERROR_CODES[code])).toBeLessThan(0);
+    }
+  });
+
+  it('VFS 操作應該記錄失敗的系統呼叫', async () => {
+    await vfs.writeFile('/file.txt', 'x');
+    await vfs.createDirectory('/dir/sub', true);
+
+    await expect(vfs.readFile('/missing')).rejects.toMatchObject({ syscall: 'open', path: '/missing' });
+    await expect(vfs.deleteFile('/missing')).rejects.toMatchObject({ syscall: 'unlink' });
+    await expect(vfs.createDirectory('/file.txt/x')).rejects.toMatchObject({ syscall: 'mkdir', posixCode: 'ENOTDIR' });
+    await expect(vfs.readDirectory('/file.txt')).rejects.toMatchObject({ syscall: 'scandir' });
+    await expect(vfs.deleteDirectory('/dir')).rejects.toMatchObject({ syscall: 'rmdir', posixCode: 'ENOTEMPTY' });
+    await expect(vfs.getStats('/missing')).rejects.toMatchObject({ syscall: 'stat' });
+    await expect(vfs.getLinkStats('/missing')).rejects.toMatchObject({ syscall: 'lstat' });
+    await expect(vfs.readSymlink('/file.txt')).rejects.toMatchObject({ syscall: 'readlink', posixCode: 'EINVAL' });
+    await expect(vfs.chmod('/missing', 0o600)).rejects.toMatchObject({ syscall: 'chmod' });
+    await expect(vfs.utimes('/missing', 0, 0)).rejects.toMatchObject({ syscall: 'utime' });
+    await expect(vfs.open('/file.txt', 'wx')).rejects.toMatchObject({ syscall: 'open', posixCode: 'EEXIST' });
+    await expect(vfs.close(99)).rejects.toMatchObject({ syscall: 'close', posixCode: 'EBADF' });
+    expect(() => vfs.chdir('/missing')).toThrow(expect.objectContaining({ syscall: 'chdir' }));
+  });
+
+  it('操作內部呼叫其他操作時應該以使用者呼叫的操作為準', async () => {
+    await vfs.writeFile('/file.txt', 'x');
+
+    // writeFile 內部會建立父目錄，但失敗的系統呼叫仍記錄為 open
+    await expect(vfs.writeFile('/file.txt/a.txt', 'x')).rejects.toMatchObject({ syscall: 'open', posixCode: 'ENOTDIR' });
+    await expect(vfs.copyFile('/missing', '/b.txt')).rejects.toMatchObject({ syscall: 'copyfile', dest: '/b.txt' });
+    await expect(vfs.moveFile('/missing', '/b.txt')).rejects.toMatchObject({ syscall: 'rename', dest: '/b.txt' });
+  });
+
+  it('有兩個路徑的操作應該記錄目的路徑', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.writeFile('/b.txt', 'b');
+
+    await expect(vfs.rename('/a.txt', '/b.txt', { overwrite: false })).rejects.toMatchObject({
+      posixCode: 'EEXIST',
+      syscall: 'rename',
+      dest: '/b.txt',
+    });
+    await expect(vfs.link('/a.txt', '/b.txt')).rejects.toMatchObject({ syscall: 'link', dest: '/b.txt' });
+  });
+
+  it('遞迴刪除目錄應該記錄為 rm', async () => {
+    await expect(vfs.deleteDirectory('/missing', true)).rejects.toMatchObject({ syscall: 'rm' });
+  });
+
+  it('同步操作也應該記錄系統呼叫', () => {
+    expect(() => vfs.readFileSync('/missing')).toThrow(expect.objectContaining({ syscall: 'open' }));
+  });
+
+  it('預設的 code 應該維持 VFS 錯誤碼', async () => {
+    const error = await vfs.readFile('/missing').catch(e => e);
+
+    expect(error).toBeInstanceOf(FileNotFoundError);
+    expect(error.code).toBe(FileSystemErrorCode.FileNotFound);
+  });
+
+  describe('posixErrorCodes', () => {
+    it('啟用時 code 應該是 POSIX 錯誤碼', async () => {
+      const compat = createVFS({ posixErrorCodes: true });
+      const error = await compat.readFile('/missing').catch(e => e);
+
+      expect(error).toBeInstanceOf(FileSystemError);
+      expect(error).toBeInstanceOf(FileNotFoundError);
+      expect(error.code).toBe('ENOENT');
+      expect(error.vfsCode).toBe(FileSystemErrorCode.FileNotFound);
+      expect(error.errno).toBe(-errno.ENOENT);
+      expect(error.syscall).toBe('open');
+    });
+
+    it('與 Node.js 相同的錯誤判斷寫法應該可以運作', async () => {
+      const compat = createVFS({ posixErrorCodes: true });
+      await compat.createDirectory('/dir');
+
+      const readOrDefault = (path: string): string => {
+        try {
+          return compat.readFileSync(path, 'utf-8') as string;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return 'default';
+          }
+          throw error;
+        }
+      };
+
+      expect(readOrDefault('/missing.json')).toBe('default');
+      expect(() => readOrDefault('/dir')).toThrow(expect.objectContaining({ code: 'EISDIR' }));
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * 檔案描述符單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, createFsPromises, VirtualFileSystem } from '../../src/index.js';
+import {
+  BadFileDescriptorError,
+  FileAlreadyExistsError,
+  FileNotFoundError,
+  NotAFileError,
+  DirectoryNotFoundError,
+} from '../../src/errors/file-system-errors.js';
+
+describe('檔案描述符', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  describe('開啟旗標', () => {
+    it('r 旗標開啟不存在的檔案應該拋出 FileNotFoundError', () => {
+      expect(() => vfs.openSync('/missing.txt', 'r')).toThrow(FileNotFoundError);
+    });
+
+    it('w 旗標應該建立並截斷檔案', async () => {
+      await vfs.writeFile('/a.txt', 'old content');
+      const fd = vfs.openSync('/a.txt', 'w');
+      expect(vfs.fstatSync(fd).size).toBe(0);
+      vfs.closeSync(fd);
+
+      const created = vfs.openSync('/b.txt', 'w', 0o600);
+      expect(vfs.fstatSync(created).mode).toBe(0o600);
+      vfs.closeSync(created);
+    });
+
+    it('wx 旗標在檔案存在時應該拋出 FileAlreadyExistsError', async () => {
+      await vfs.writeFile('/a.txt', 'x');
+      expect(() => vfs.openSync('/a.txt', 'wx')).toThrow(FileAlreadyExistsError);
+    });
+
+    it('不應該自動建立父目錄', () => {
+      expect(() => vfs.openSync('/missing/a.txt', 'w')).toThrow(DirectoryNotFoundError);
+    });
+
+    it('開啟目錄應該拋出 NotAFileError', async () => {
+      await vfs.createDirectory('/dir');
+      expect(() => vfs.openSync('/dir', 'r')).toThrow(NotAFileError);
+    });
+
+    it('無效旗標應該拋出 TypeError', () => {
+      expect(() => vfs.openSync('/a.txt', 'z' as 'r')).toThrow(TypeError);
+    });
+  });
+
+  describe('讀寫', () => {
+    it('應該依目前位置連續讀取', async () => {
+      await vfs.writeFile('/a.txt', 'abcdef');
+      const fd = vfs.openSync('/a.txt', 'r');
+      const buffer = Buffer.alloc(4);
+
+      expect(vfs.readSync(fd, buffer, 0, 4)).toBe(4);
+      expect(buffer.toString()).toBe('abcd');
+      expect(vfs.readSync(fd, buffer, 0, 4)).toBe(2);
+      expect(buffer.subarray(0, 2).toString()).toBe('ef');
+      expect(vfs.readSync(fd, buffer, 0, 4)).toBe(0);
+      vfs.closeSync(fd);
+    });
+
+    it('pread 不應該改變目前位置', async () => {
+      await vfs.writeFile('/a.txt', 'abcdef');
+      const fd = vfs.openSync('/a.txt', 'r');
+      const buffer = Buffer.alloc(2);
+
+      vfs.readSync(fd, buffer, 0, 2, 3);
+      expect(buffer.toString()).toBe('de');
+      vfs.readSync(fd, buffer, 0, 2);
+      expect(buffer.toString()).toBe('ab');
+      vfs.closeSync(fd);
+    });
+
+    it('pwrite 應該覆寫指定位置並在超出結尾時補零', async () => {
+      await vfs.writeFile('/a.txt', 'hello');
+      const fd = vfs.openSync('/a.txt', 'r+');
+
+      vfs.writeSync(fd, 'J', 0);
+      vfs.writeSync(fd, '!', 7);
+      vfs.closeSync(fd);
+
+      expect(await vfs.readFile('/a.txt')).toEqual(Buffer.from('Jello\0\0!'));
+    });
+
+    it('追加模式應該一律寫入結尾', async () => {
+      await vfs.writeFile('/log.txt', 'one');
+      const fd = vfs.openSync('/log.txt', 'a+');
+
+      vfs.writeSync(fd, '-two', 0);
+      vfs.writeSync(fd, '-three');
+
+      const buffer = Buffer.alloc(3);
+      vfs.readSync(fd, buffer, 0, 3, 0);
+      expect(buffer.toString()).toBe('one');
+      vfs.closeSync(fd);
+
+      expect(await vfs.readFile('/log.txt', 'utf-8')).toBe('one-two-three');
+    });
+
+    it('非同步版本應該有相同行為', async () => {
+      const fd = await vfs.open('/async.txt', 'w+');
+      await vfs.write(fd, 'async data');
+      const buffer = Buffer.alloc(5);
+      expect(await vfs.read(fd, buffer, 0, 5, 6)).toBe(4);
+      expect(buffer.subarray(0, 4).toString()).toBe('data');
+      await vfs.close(fd);
+    });
+  });
+
+  describe('ftruncate 與 fstat', () => {
+    it('應該截斷與延伸檔案', async () => {
+      await vfs.writeFile('/a.txt', 'abcdef');
+      const fd = vfs.openSync('/a.txt', 'r+');
+
+      vfs.ftruncateSync(fd, 3);
+      expect(vfs.fstatSync(fd).size).toBe(3);
+      vfs.ftruncateSync(fd, 5);
+      vfs.closeSync(fd);
+
+      expect(await vfs.readFile('/a.txt')).toEqual(Buffer.from('abc\0\0'));
+    });
+  });
+
+  describe('錯誤處理', () => {
+    it('使用已關閉的描述符應該拋出 BadFileDescriptorError', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      const fd = vfs.openSync('/a.txt', 'r');
+      vfs.closeSync(fd);
+
+      expect(() => vfs.closeSync(fd)).toThrow(BadFileDescriptorError);
+      expect(() => vfs.fstatSync(fd)).toThrow(BadFileDescriptorError);
+      expect(() => vfs.readSync(fd, Buffer.alloc(1))).toThrow(BadFileDescriptorError);
+    });
+
+    it('唯讀描述符寫入與唯寫描述符讀取應該拋出 BadFileDescriptorError', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      const readOnly = vfs.openSync('/a.txt', 'r');
+      const writeOnly = vfs.openSync('/a.txt', 'a');
+
+      expect(() => vfs.writeSync(readOnly, 'x')).toThrow(BadFileDescriptorError);
+      expect(() => vfs.ftruncateSync(readOnly)).toThrow(BadFileDescriptorError);
+      expect(() => vfs.readSync(writeOnly, Buffer.alloc(1))).toThrow(BadFileDescriptorError);
+    });
+
+    it('應該重複使用最小的可用描述符編號', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      const first = vfs.openSync('/a.txt');
+      const second = vfs.openSync('/a.txt');
+      vfs.closeSync(first);
+
+      expect(vfs.openSync('/a.txt')).toBe(first);
+      expect(second).toBeGreaterThan(first);
+    });
+  });
+
+  describe('fs.promises FileHandle', () => {
+    it('應該透過 FileHandle 讀寫並在錯誤時回報 EBADF', async () => {
+      const fs = createFsPromises(vfs);
+      const handle = await fs.open('/handle.txt', 'w+');
+
+      await handle.write('hello handle');
+      const { bytesRead, buffer } = await handle.read(Buffer.alloc(6), 0, 6, 6);
+      expect(buffer.subarray(0, bytesRead).toString()).toBe('handle');
+      expect((await handle.stat()).size).toBe(12);
+
+      await handle.close();
+      await expect(handle.close()).rejects.toMatchObject({ code: 'EBADF', syscall: 'close' });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * fs.promises 相容轉接層單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { constants } from 'node:fs';
+import { constants as osConstants } from 'node:os';
+import { createVFS, createFsPromises, VirtualFileSystem } from '../../src/index.js';
+import type { FsPromisesAdapter } from '../../src/index.js';
+
+const { errno } = osConstants;
+
+describe('createFsPromises', () => {
+  let vfs: VirtualFileSystem;
+  let fs: FsPromisesAdapter;
+
+  beforeEach(() => {
+    vfs = createVFS();
+    fs = createFsPromises(vfs);
+  });
+
+  describe('檔案讀寫', () => {
+    it('應該以編碼讀取字串並在未指定時回傳 Buffer', async () => {
+      await fs.writeFile('/a.txt', 'hello');
+      expect(await fs.readFile('/a.txt', 'utf-8')).toBe('hello');
+      expect(await fs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('hello');
+      expect(Buffer.isBuffer(await fs.readFile('/a.txt'))).toBe(true);
+    });
+
+    it('父目錄不存在時寫入應該拋出 ENOENT', async () => {
+      await expect(fs.writeFile('/missing/a.txt', 'x')).rejects.toMatchObject({
+        code: 'ENOENT',
+        syscall: 'open',
+        path: '/missing/a.txt',
+      });
+    });
+
+    it('wx 旗標在檔案存在時應該拋出 EEXIST', async () => {
+      await fs.writeFile('/a.txt', 'one');
+      await expect(fs.writeFile('/a.txt', 'two', { flag: 'wx' })).rejects.toMatchObject({ code: 'EEXIST' });
+    });
+
+    it('mode 應該只套用於新建立的檔案', async () => {
+      await fs.writeFile('/a.txt', 'one', { mode: 0o600 });
+      expect((await fs.stat('/a.txt')).mode & 0o777).toBe(0o600);
+
+      await fs.writeFile('/a.txt', 'two', { mode: 0o644 });
+      expect((await fs.stat('/a.txt')).mode & 0o777).toBe(0o600);
+    });
+
+    it('a 旗標應該追加內容', async () => {
+      await fs.writeFile('/a.txt', 'one');
+      await fs.writeFile('/a.txt', 'two', { flag: 'a' });
+      await fs.appendFile('/a.txt', 'three');
+      expect(await fs.readFile('/a.txt', 'utf-8')).toBe('onetwothree');
+    });
+
+    it('讀取不存在或目錄應該拋出 ENOENT / EISDIR', async () => {
+      await fs.mkdir('/dir');
+      await expect(fs.readFile('/nope')).rejects.toMatchObject({ code: 'ENOENT', errno: -errno.ENOENT });
+      await expect(fs.readFile('/dir')).rejects.toMatchObject({ code: 'EISDIR' });
+    });
+
+    it('readFile 應該依 flag 開啟檔案', async () => {
+      expect(await fs.readFile('/new.txt', { encoding: 'utf-8', flag: 'a+' })).toBe('');
+      expect(await vfs.exists('/new.txt')).toBe(true);
+
+      await fs.writeFile('/a.txt', 'hello');
+      await expect(fs.readFile('/a.txt', { flag: 'wx+' })).rejects.toMatchObject({ code: 'EEXIST' });
+      await expect(fs.readFile('/a.txt', { flag: 'a' })).rejects.toMatchObject({ code: 'EBADF' });
+      expect(await fs.readFile('/a.txt', { encoding: 'utf-8', flag: 'w+' })).toBe('');
+      await expect(fs.readFile('/a.txt', { flag: 'bogus' })).rejects.toThrow(TypeError);
+    });
+
+    it('應該截斷並補零', async () => {
+      await fs.writeFile('/a.txt', 'hello');
+      await fs.truncate('/a.txt', 2);
+      expect(await fs.readFile('/a.txt', 'utf-8')).toBe('he');
+      await fs.truncate('/a.txt', 4);
+      expect(await fs.readFile('/a.txt')).toEqual(Buffer.from([0x68, 0x65, 0, 0]));
+    });
+  });
+
+  describe('目錄操作', () => {
+    it('mkdir 遞迴模式應該回傳第一個建立的目錄', async () => {
+      await fs.mkdir('/a');
+      expect(await fs.mkdir('/a/b/c', { recursive: true })).toBe('/a/b');
+      expect(await fs.mkdir('/a/b/c', { recursive: true })).toBeUndefined();
+    });
+
+    it('mkdir 應該套用 mode，遞迴模式只套用於新建立的目錄', async () => {
+      await fs.mkdir('/a', 0o700);
+      expect((await fs.stat('/a')).mode & 0o777).toBe(0o700);
+
+      await fs.mkdir('/b');
+      await fs.mkdir('/b/c/d', { recursive: true, mode: 0o750 });
+      expect((await fs.stat('/b')).mode & 0o777).toBe(0o755);
+      expect((await fs.stat('/b/c')).mode & 0o777).toBe(0o750);
+      expect((await fs.stat('/b/c/d')).mode & 0o777).toBe(0o750);
+    });
+
+    it('mkdir 已存在時應該拋出 EEXIST', async () => {
+      await fs.mkdir('/a');
+      await expect(fs.mkdir('/a')).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir' });
+      await expect(fs.mkdir('/x/y')).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('mkdir 遞迴模式遇到既有檔案應該拋出 EEXIST', async () => {
+      await fs.writeFile('/file', 'x');
+      await expect(fs.mkdir('/file', { recursive: true })).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir' });
+      await expect(fs.mkdir('/file/sub', { recursive: true })).rejects.toMatchObject({ code: 'ENOTDIR' });
+    });
+
+    it('readdir 應該支援 withFileTypes 與 recursive', async () => {
+      await vfs.writeFile('/root/a.txt', 'a');
+      await vfs.writeFile('/root/sub/b.txt', 'b');
+      await vfs.createSymlink('/root/a.txt', '/root/link');
+
+      expect((await fs.readdir('/root') as string[]).sort()).toEqual(['a.txt', 'link', 'sub']);
+      expect((await fs.readdir('/root', { recursive: true }) as string[]).sort())
+        .toEqual(['a.txt', 'link', 'sub', 'sub/b.txt']);
+
+      const dirents = await fs.readdir('/root', { withFileTypes: true }) as { name: string; isFile(): boolean; isDirectory(): boolean; isSymbolicLink(): boolean; parentPath: string }[];
+      const byName = Object.fromEntries(dirents.map(d => [d.name, d]));
+      expect(byName['a.txt'].isFile()).toBe(true);
+      expect(byName['sub'].isDirectory()).toBe(true);
+      expect(byName['link'].isSymbolicLink()).toBe(true);
+      expect(byName['a.txt'].parentPath).toBe('/root');
+    });
+
+    it('readdir 對檔案應該拋出 ENOTDIR', async () => {
+      await fs.writeFile('/a.txt', 'a');
+      await expect(fs.readdir('/a.txt')).rejects.toMatchObject({ code: 'ENOTDIR', syscall: 'scandir' });
+    });
+
+    it('rm 應該依 recursive 與 force 選項運作', async () => {
+      await vfs.writeFile('/dir/a.txt', 'a');
+      await expect(fs.rm('/dir')).rejects.toMatchObject({ code: 'EISDIR' });
+      await fs.rm('/dir', { recursive: true });
+      expect(await vfs.exists('/dir')).toBe(false);
+      await expect(fs.rm('/dir')).rejects.toMatchObject({ code: 'ENOENT' });
+      await expect(fs.rm('/dir', { force: true })).resolves.toBeUndefined();
+    });
+
+    it('rmdir 非空目錄應該拋出 ENOTEMPTY', async () => {
+      await vfs.writeFile('/dir/a.txt', 'a');
+      await expect(fs.rmdir('/dir')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+    });
+
+    it('mkdtemp 應該建立唯一目錄', async () => {
+      await fs.mkdir('/tmp');
+      const first = await fs.mkdtemp('/tmp/build-');
+      const second = await fs.mkdtemp('/tmp/build-');
+      expect(first).toMatch(/^\/tmp\/build-[A-Za-z0-9]{6}$/);
+      expect(first).not.toBe(second);
+      expect(await vfs.isDirectory(first)).toBe(true);
+    });
+  });
+
+  describe('狀態查詢', () => {
+    it('stat 應該回傳具有方法的 Stats 物件', async () => {
+      await fs.writeFile('/a.txt', 'hello');
+      const stats = await fs.stat('/a.txt');
+      expect(stats.isFile()).toBe(true);
+      expect(stats.isDirectory()).toBe(false);
+      expect(stats.size).toBe(5);
+      expect(stats.mode & constants.S_IFMT).toBe(constants.S_IFREG);
+      expect(stats.mtime).toBeInstanceOf(Date);
+      expect(typeof stats.mtimeMs).toBe('number');
+    });
+
+    it('lstat 不應該跟隨符號連結', async () => {
+      await fs.mkdir('/dir');
+      await fs.symlink('/dir', '/link');
+      expect((await fs.stat('/link')).isDirectory()).toBe(true);
+      expect((await fs.lstat('/link')).isSymbolicLink()).toBe(true);
+    });
+
+    it('access 對不存在的路徑應該拋出 ENOENT', async () => {
+      await fs.writeFile('/a.txt', 'a');
+      await expect(fs.access('/a.txt', constants.R_OK)).resolves.toBeUndefined();
+      await expect(fs.access('/b.txt')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'access' });
+    });
+  });
+
+  describe('移動與複製', () => {
+    it('rename 應該移動目錄與其內容', async () => {
+      await vfs.writeFile('/src/a.txt', 'a');
+      await vfs.createSymlink('a.txt', '/src/link');
+      await fs.rename('/src', '/dest');
+
+      expect(await vfs.exists('/src')).toBe(false);
+      expect(await fs.readFile('/dest/a.txt', 'utf-8')).toBe('a');
+      expect(await fs.readlink('/dest/link')).toBe('a.txt');
+    });
+
+    it('rename 目錄到自身子目錄應該拋出 EINVAL', async () => {
+      await fs.mkdir('/a');
+      await expect(fs.rename('/a', '/a/b')).rejects.toMatchObject({ code: 'EINVAL', dest: '/a/b' });
+    });
+
+    it('rename 檔案到非空目錄應該失敗', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      await vfs.writeFile('/dir/b.txt', 'b');
+      await expect(fs.rename('/a.txt', '/dir')).rejects.toMatchObject({ code: 'EISDIR' });
+    });
+
+    it('copyFile 使用 COPYFILE_EXCL 時不應覆寫', async () => {
+      await fs.writeFile('/a.txt', 'a');
+      await fs.writeFile('/b.txt', 'b');
+      await expect(fs.copyFile('/a.txt', '/b.txt', constants.COPYFILE_EXCL)).rejects.toMatchObject({ code: 'EEXIST' });
+      await fs.copyFile('/a.txt', '/b.txt');
+      expect(await fs.readFile('/b.txt', 'utf-8')).toBe('a');
+    });
+  });
+
+  describe('符號連結', () => {
+    it('realpath 應該解析絕對與相對連結', async () => {
+      await vfs.writeFile('/real/dir/file.txt', 'x');
+      await vfs.createSymlink('/real', '/abs');
+      await vfs.createSymlink('dir', '/real/rel');
+
+      expect(await fs.realpath('/abs/rel/file.txt')).toBe('/real/dir/file.txt');
+    });
+
+    it('realpath 遇到循環應該拋出 ELOOP', async () => {
+      await vfs.createSymlink('/b', '/a');
+      await vfs.createSymlink('/a', '/b');
+      await expect(fs.realpath('/a')).rejects.toMatchObject({ code: 'ELOOP' });
+    });
+
+    it('readlink 與 realpath 應該依 encoding 回傳', async () => {
+      await vfs.writeFile('/target.txt', 'x');
+      await vfs.createSymlink('target.txt', '/link');
+
+      expect(await fs.readlink('/link', 'buffer')).toEqual(Buffer.from('target.txt'));
+      expect(await fs.readlink('/link', { encoding: 'hex' })).toBe(Buffer.from('target.txt').toString('hex'));
+      expect(await fs.realpath('/link', { encoding: 'buffer' })).toEqual(Buffer.from('/target.txt'));
+    });
+
+    it('readlink 非連結應該拋出 EINVAL', async () => {
+      await fs.writeFile('/a.txt', 'a');
+      await expect(fs.readlink('/a.txt')).rejects.toMatchObject({ code: 'EINVAL', syscall: 'readlink' });
+    });
+
+    it('接受 URL 與 Buffer 路徑', async () => {
+      await fs.writeFile(new URL('file:///url.txt'), 'url');
+      expect(await fs.readFile(Buffer.from('/url.txt'), 'utf-8')).toBe('url');
+    });
+  });
+});
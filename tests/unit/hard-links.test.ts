@@ -0,0 +1,168 @@
+/**
+ * 硬連結單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, createFsPromises, VirtualFileSystem } from '../../src/index.js';
+import {
+  DirectoryNotFoundError,
+  FileAlreadyExistsError,
+  FileNotFoundError,
+  OperationNotPermittedError,
+} from '../../src/errors/file-system-errors.js';
+
+describe('硬連結', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  it('應該共享內容與中繼資料', async () => {
+    await vfs.writeFile('/store/pkg.js', 'v1');
+    await vfs.createDirectory('/app');
+    await vfs.link('/store/pkg.js', '/app/pkg.js');
+
+    await vfs.writeFile('/app/pkg.js', 'v2');
+    await vfs.appendFile('/store/pkg.js', '!');
+
+    expect(await vfs.readFile('/store/pkg.js', 'utf-8')).toBe('v2!');
+    expect(await vfs.readFile('/app/pkg.js', 'utf-8')).toBe('v2!');
+
+    const a = await vfs.getStats('/store/pkg.js');
+    const b = await vfs.getStats('/app/pkg.js');
+    expect(a.ino).toBe(b.ino);
+    expect(a.nlink).toBe(2);
+    expect(b.nlink).toBe(2);
+  });
+
+  it('不同檔案應該有不同的 inode 編號', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.writeFile('/b.txt', 'a');
+    expect((await vfs.getStats('/a.txt')).ino).not.toBe((await vfs.getStats('/b.txt')).ino);
+    expect((await vfs.getStats('/a.txt')).nlink).toBe(1);
+  });
+
+  it('刪除一個連結後其他連結仍保有內容', async () => {
+    await vfs.writeFile('/a.txt', 'data');
+    vfs.linkSync('/a.txt', '/b.txt');
+    vfs.linkSync('/b.txt', '/c.txt');
+
+    await vfs.deleteFile('/a.txt');
+    expect((await vfs.getStats('/b.txt')).nlink).toBe(2);
+
+    await vfs.deleteFile('/b.txt');
+    expect(await vfs.readFile('/c.txt', 'utf-8')).toBe('data');
+    expect((await vfs.getStats('/c.txt')).nlink).toBe(1);
+  });
+
+  it('最後一個連結刪除後已開啟的描述符仍可讀取且 nlink 為 0', async () => {
+    await vfs.writeFile('/a.txt', 'data');
+    const fd = vfs.openSync('/a.txt', 'r');
+
+    await vfs.deleteFile('/a.txt');
+
+    const buffer = Buffer.alloc(4);
+    vfs.readSync(fd, buffer, 0, 4, 0);
+    expect(buffer.toString()).toBe('data');
+    expect(vfs.fstatSync(fd).nlink).toBe(0);
+    vfs.closeSync(fd);
+  });
+
+  it('遞迴刪除目錄與覆寫應該釋放連結', async () => {
+    await vfs.writeFile('/a.txt', 'data');
+    await vfs.createDirectory('/dir');
+    await vfs.link('/a.txt', '/dir/a.txt');
+    await vfs.link('/a.txt', '/b.txt');
+    expect((await vfs.getStats('/a.txt')).nlink).toBe(3);
+
+    await vfs.deleteDirectory('/dir', true);
+    expect((await vfs.getStats('/a.txt')).nlink).toBe(2);
+
+    await vfs.writeFile('/other.txt', 'other');
+    await vfs.rename('/other.txt', '/b.txt');
+    expect((await vfs.getStats('/a.txt')).nlink).toBe(1);
+  });
+
+  it('重新命名不應該改變連結數', async () => {
+    await vfs.writeFile('/a.txt', 'data');
+    await vfs.link('/a.txt', '/b.txt');
+    await vfs.rename('/b.txt', '/c.txt');
+
+    expect((await vfs.getStats('/c.txt')).nlink).toBe(2);
+    expect((await vfs.getStats('/c.txt')).ino).toBe((await vfs.getStats('/a.txt')).ino);
+  });
+
+  it('應該跟隨符號連結並拒絕無效的來源與目的地', async () => {
+    await vfs.writeFile('/target.txt', 'data');
+    await vfs.createSymlink('/target.txt', '/sym');
+    await vfs.link('/sym', '/hard.txt');
+    expect((await vfs.getStats('/hard.txt')).ino).toBe((await vfs.getStats('/target.txt')).ino);
+
+    await vfs.createDirectory('/dir');
+    await expect(vfs.link('/missing', '/x')).rejects.toThrow(FileNotFoundError);
+    await expect(vfs.link('/dir', '/dir2')).rejects.toThrow(OperationNotPermittedError);
+    await expect(vfs.link('/target.txt', '/hard.txt')).rejects.toThrow(FileAlreadyExistsError);
+    await expect(vfs.link('/target.txt', '/nope/x')).rejects.toThrow(DirectoryNotFoundError);
+  });
+
+  it('目錄的 nlink 應該為 2 加上子目錄數', async () => {
+    await vfs.createDirectory('/dir/a', true);
+    await vfs.createDirectory('/dir/b');
+    await vfs.writeFile('/dir/file.txt', 'x');
+    expect((await vfs.getStats('/dir')).nlink).toBe(4);
+  });
+
+  describe('快照', () => {
+    it('還原快照後應該保留連結共享', async () => {
+      await vfs.writeFile('/a.txt', 'v1');
+      await vfs.link('/a.txt', '/b.txt');
+      const id = vfs.createSnapshot();
+
+      await vfs.deleteFile('/b.txt');
+      vfs.restoreSnapshot(id);
+
+      expect((await vfs.getStats('/a.txt')).nlink).toBe(2);
+      await vfs.writeFile('/a.txt', 'v2');
+      expect(await vfs.readFile('/b.txt', 'utf-8')).toBe('v2');
+    });
+
+    it('快照內容不應該與目前檔案共享 inode', async () => {
+      await vfs.writeFile('/a.txt', 'v1');
+      await vfs.link('/a.txt', '/b.txt');
+      const id = vfs.createSnapshot();
+
+      await vfs.writeFile('/b.txt', 'v2');
+      vfs.restoreSnapshot(id);
+
+      expect(await vfs.readFile('/a.txt', 'utf-8')).toBe('v1');
+    });
+
+    it('複製子樹時只有子樹內的連結保持共享', async () => {
+      await vfs.writeFile('/src/a.txt', 'data');
+      await vfs.link('/src/a.txt', '/src/b.txt');
+      await vfs.link('/src/a.txt', '/outside.txt');
+
+      await vfs.copy('/src', '/dest', { recursive: true });
+
+      const a = await vfs.getStats('/dest/a.txt');
+      expect(a.ino).toBe((await vfs.getStats('/dest/b.txt')).ino);
+      expect(a.ino).not.toBe((await vfs.getStats('/src/a.txt')).ino);
+      expect(a.nlink).toBe(2);
+    });
+  });
+
+  it('fs.promises link 與 stat 應該回報 ino 與 nlink', async () => {
+    const fs = createFsPromises(vfs);
+    await fs.writeFile('/a.txt', 'data');
+    await fs.link('/a.txt', '/b.txt');
+
+    const stats = await fs.stat('/b.txt');
+    expect(stats.nlink).toBe(2);
+    expect(stats.ino).toBe((await fs.stat('/a.txt')).ino);
+    await expect(fs.link('/a.txt', '/b.txt')).rejects.toMatchObject({ code: 'EEXIST', syscall: 'link' });
+
+    await fs.mkdir('/dir');
+    await expect(fs.link('/dir', '/dir2')).rejects.toMatchObject({ code: 'EPERM', syscall: 'link', path: '/dir' });
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * 操作歷程（復原／重做）單元測試
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createVFS, VirtualFileSystem, FileNotFoundError } from '../../src/index.js';
+import type { FileChangeEvent } from '../../src/index.js';
+
+describe('操作歷程', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS({ history: true });
+    await vfs.writeFile('/src/index.ts', 'v1');
+    vfs.clearHistory();
+  });
+
+  it('預設不記錄歷程', async () => {
+    const plain = createVFS();
+    await plain.writeFile('/a.txt', 'a');
+
+    expect(plain.undo()).toBe(false);
+    expect(plain.history()).toEqual([]);
+    expect(await plain.exists('/a.txt')).toBe(true);
+  });
+
+  describe('復原與重做', () => {
+    it('應該復原與重做寫入', async () => {
+      await vfs.writeFile('/src/index.ts', 'v2');
+
+      expect(vfs.undo()).toBe(true);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(vfs.redo()).toBe(true);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+      expect(vfs.redo()).toBe(false);
+    });
+
+    it('復原建立檔案時應該一併移除自動建立的上層目錄', async () => {
+      await vfs.writeFile('/out/gen/a.ts', 'a');
+      vfs.undo();
+
+      expect(await vfs.exists('/out')).toBe(false);
+      vfs.redo();
+      expect(await vfs.readFile('/out/gen/a.ts', 'utf-8')).toBe('a');
+    });
+
+    it('應該復原追加內容', async () => {
+      await vfs.appendFile('/src/index.ts', '+more');
+      vfs.undo();
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('應該復原刪除檔案與遞迴刪除目錄', async () => {
+      await vfs.writeFile('/src/lib/util.ts', 'util');
+      await vfs.deleteFile('/src/index.ts');
+      await vfs.deleteDirectory('/src', true);
+
+      vfs.undo();
+      expect(await vfs.readFile('/src/lib/util.ts', 'utf-8')).toBe('util');
+      expect(await vfs.exists('/src/index.ts')).toBe(false);
+
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('應該復原遞迴建立目錄', async () => {
+      await vfs.createDirectory('/a/b/c', true);
+      vfs.undo();
+
+      expect(await vfs.exists('/a')).toBe(false);
+    });
+
+    it('應該復原符號連結', async () => {
+      await vfs.createSymlink('/src', '/link');
+      vfs.undo();
+
+      expect(await vfs.exists('/link')).toBe(false);
+      vfs.redo();
+      expect(await vfs.readSymlink('/link')).toBe('/src');
+    });
+
+    it('應該復原重新命名，包含被覆寫的目的地', async () => {
+      await vfs.writeFile('/other.ts', 'other');
+      await vfs.rename('/src/index.ts', '/other.ts');
+      vfs.undo();
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(await vfs.readFile('/other.ts', 'utf-8')).toBe('other');
+    });
+
+    it('應該復原目錄重新命名與移動檔案', async () => {
+      await vfs.rename('/src', '/lib');
+      await vfs.moveFile('/lib/index.ts', '/main.ts');
+
+      vfs.undo();
+      expect(await vfs.exists('/main.ts')).toBe(false);
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(await vfs.exists('/lib')).toBe(false);
+    });
+
+    it('應該只復原權限模式', async () => {
+      await vfs.chmod('/src/index.ts', 0o600);
+      await vfs.writeFile('/src/index.ts', 'v2');
+      vfs.clearHistory();
+      await vfs.chmod('/src/index.ts', 0o400);
+      vfs.undo();
+
+      expect((await vfs.getStats('/src/index.ts')).mode & 0o777).toBe(0o600);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+    });
+
+    it('透過符號連結寫入時應該復原連結目標', async () => {
+      await vfs.createSymlink('/src/index.ts', '/entry');
+      await vfs.writeFile('/entry', 'via link');
+      vfs.undo();
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(await vfs.isSymlink('/entry')).toBe(true);
+    });
+
+    it('復原檔案內容應該保留 inode 與硬連結', async () => {
+      await vfs.link('/src/index.ts', '/alias.ts');
+      const ino = (await vfs.getStats('/src/index.ts')).ino;
+      await vfs.writeFile('/src/index.ts', 'v2');
+      vfs.undo();
+
+      expect((await vfs.getStats('/src/index.ts')).ino).toBe(ino);
+      expect(await vfs.readFile('/alias.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('應該復原與重做複製', async () => {
+      await vfs.writeFile('/src/util.ts', 'util');
+      vfs.clearHistory();
+      await vfs.copy('/src', '/lib', { recursive: true });
+      await vfs.copyFile('/src/index.ts', '/src/util.ts');
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['copy', 'copy']);
+      vfs.undo();
+      expect(await vfs.readFile('/src/util.ts', 'utf-8')).toBe('util');
+      vfs.undo();
+      expect(await vfs.exists('/lib')).toBe(false);
+
+      vfs.redo();
+      expect(await vfs.readFile('/lib/util.ts', 'utf-8')).toBe('util');
+    });
+
+    it('重做硬連結應該重新建立共享的 inode', async () => {
+      await vfs.link('/src/index.ts', '/alias.ts');
+      vfs.undo();
+
+      expect(await vfs.exists('/alias.ts')).toBe(false);
+      expect((await vfs.getStats('/src/index.ts')).nlink).toBe(1);
+
+      vfs.redo();
+      await vfs.writeFile('/alias.ts', 'shared');
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('shared');
+      expect((await vfs.getStats('/alias.ts')).ino).toBe((await vfs.getStats('/src/index.ts')).ino);
+    });
+
+    it('復原刪除的硬連結應該與其他項目共享 inode', async () => {
+      await vfs.link('/src/index.ts', '/alias.ts');
+      await vfs.deleteFile('/alias.ts');
+      vfs.undo();
+
+      expect((await vfs.getStats('/alias.ts')).ino).toBe((await vfs.getStats('/src/index.ts')).ino);
+      expect((await vfs.getStats('/src/index.ts')).nlink).toBe(2);
+    });
+
+    it('應該復原透過描述符的寫入與截斷', async () => {
+      const fd = await vfs.open('/src/index.ts', 'r+');
+      await vfs.write(fd, 'V2', 0);
+      await vfs.ftruncate(fd, 1);
+      await vfs.close(fd);
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['write', 'truncate']);
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('V2');
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('開啟時截斷或建立檔案應該被記錄', async () => {
+      await vfs.close(await vfs.open('/src/index.ts', 'w'));
+      await vfs.close(await vfs.open('/src/new.ts', 'a'));
+      await vfs.close(await vfs.open('/src/index.ts', 'r'));
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['write', 'write']);
+      vfs.undo();
+      vfs.undo();
+      expect(await vfs.exists('/src/new.ts')).toBe(false);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('寫入串流應該記錄為單一項目', async () => {
+      await pipeline(Readable.from(['a', 'b', 'c']), vfs.createWriteStream('/src/index.ts'));
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['write']);
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      vfs.redo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('abc');
+    });
+
+    it('應該復原擁有者、時間戳記與延伸屬性', async () => {
+      const before = await vfs.getStats('/src/index.ts');
+      await vfs.chown('/src/index.ts', 1000, 1000);
+      await vfs.utimes('/src/index.ts', 1, 2);
+      await vfs.setxattr('/src/index.ts', 'user.tag', 'x');
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['chown', 'utimes', 'xattr']);
+      vfs.undo();
+      await expect(vfs.getxattr('/src/index.ts', 'user.tag')).rejects.toThrow();
+      vfs.undo();
+      expect((await vfs.getStats('/src/index.ts')).modifiedTimeMs).toBe(before.modifiedTimeMs);
+      vfs.undo();
+      expect((await vfs.getStats('/src/index.ts')).uid).toBe(before.uid);
+    });
+
+    it('應該復原與重做還原快照', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.writeFile('/src/index.ts', 'v2');
+      vfs.restoreSnapshot(id);
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['write', 'restore']);
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+      vfs.redo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('可以多次復原與重做同一項目', async () => {
+      await vfs.writeFile('/src/index.ts', 'v2');
+
+      for (let i = 0; i < 3; i++) {
+        vfs.undo();
+        vfs.redo();
+      }
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+    });
+
+    it('復原後的新操作應該清除可重做的項目', async () => {
+      await vfs.writeFile('/src/index.ts', 'v2');
+      vfs.undo();
+      await vfs.writeFile('/src/index.ts', 'v3');
+
+      expect(vfs.redo()).toBe(false);
+      expect(vfs.history().map(e => e.undone)).toEqual([false]);
+    });
+
+    it('沒有項目時 undo 應該回傳 false', () => {
+      expect(vfs.undo()).toBe(false);
+    });
+  });
+
+  describe('記錄', () => {
+    it('history 應該依時間順序列出項目與受影響的路徑', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      await vfs.rename('/a.txt', '/b.txt');
+      await vfs.chmod('/b.txt', 0o600);
+      vfs.undo();
+
+      const entries = vfs.history();
+
+      expect(entries.map(e => [e.operation, e.paths, e.undone])).toEqual([
+        ['write', ['/a.txt'], false],
+        ['rename', ['/a.txt', '/b.txt'], false],
+        ['chmod', ['/b.txt'], true],
+      ]);
+      expect(entries[0].timestamp).toBeInstanceOf(Date);
+      expect(entries[1].id).toBeGreaterThan(entries[0].id);
+    });
+
+    it('失敗的操作不應該被記錄', async () => {
+      await expect(vfs.deleteFile('/missing.txt')).rejects.toThrow(FileNotFoundError);
+      await expect(vfs.createDirectory('/x/y')).rejects.toThrow();
+
+      expect(vfs.history()).toEqual([]);
+    });
+
+    it('內部呼叫其他操作時應該只記錄一個項目', async () => {
+      await vfs.appendFile('/new/log.txt', 'line');
+      await vfs.writeFile('/src/index.ts', 'atomic', { tempSuffix: '.tmp' });
+
+      expect(vfs.history().map(e => e.operation)).toEqual(['append', 'write']);
+      vfs.undo();
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    });
+
+    it('建立已存在的目錄不應該被記錄', async () => {
+      await vfs.createDirectory('/src', true);
+
+      expect(vfs.history()).toEqual([]);
+    });
+
+    it('clearHistory 應該清除所有項目', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      vfs.clearHistory();
+
+      expect(vfs.undo()).toBe(false);
+      expect(await vfs.exists('/a.txt')).toBe(true);
+    });
+  });
+
+  describe('群組', () => {
+    it('群組內的操作應該合併為單一項目', async () => {
+      vfs.beginGroup('scaffold');
+      await vfs.writeFile('/app/a.ts', 'a');
+      await vfs.writeFile('/app/b.ts', 'b');
+      await vfs.writeFile('/src/index.ts', 'v2');
+      vfs.endGroup();
+
+      expect(vfs.history()).toMatchObject([
+        { operation: 'group', name: 'scaffold', paths: ['/app', '/app/b.ts', '/src/index.ts'] },
+      ]);
+
+      vfs.undo();
+      expect(await vfs.exists('/app')).toBe(false);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+
+      vfs.redo();
+      expect(await vfs.readFile('/app/b.ts', 'utf-8')).toBe('b');
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+    });
+
+    it('巢狀群組應該在最外層結束時才成為項目', async () => {
+      vfs.beginGroup('outer');
+      await vfs.writeFile('/a.txt', 'a');
+      vfs.beginGroup('inner');
+      await vfs.writeFile('/b.txt', 'b');
+      vfs.endGroup();
+
+      expect(vfs.history()).toEqual([]);
+      vfs.endGroup();
+      expect(vfs.history()).toHaveLength(1);
+    });
+
+    it('群組內對同一路徑的多次操作應該依序復原', async () => {
+      vfs.beginGroup();
+      await vfs.writeFile('/src/index.ts', 'v2');
+      await vfs.rename('/src/index.ts', '/src/main.ts');
+      await vfs.writeFile('/src/index.ts', 'new');
+      vfs.endGroup();
+
+      vfs.undo();
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(await vfs.exists('/src/main.ts')).toBe(false);
+    });
+
+    it('空的群組不應該產生項目', () => {
+      vfs.beginGroup();
+      vfs.endGroup();
+
+      expect(vfs.history()).toEqual([]);
+    });
+
+    it('沒有進行中的群組時 endGroup 應該拋出錯誤', () => {
+      expect(() => vfs.endGroup()).toThrow('No history group is open');
+    });
+
+    it('群組進行中時不能復原或重做', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      vfs.beginGroup();
+
+      expect(() => vfs.undo()).toThrow();
+      expect(() => vfs.redo()).toThrow();
+    });
+  });
+
+  describe('上限', () => {
+    it('超過 maxEntries 時應該捨棄最舊的項目', async () => {
+      const limited = createVFS({ history: { maxEntries: 2 } });
+      await limited.writeFile('/a.txt', '1');
+      await limited.writeFile('/a.txt', '2');
+      await limited.writeFile('/a.txt', '3');
+
+      expect(limited.history()).toHaveLength(2);
+      expect(limited.undo()).toBe(true);
+      expect(limited.undo()).toBe(true);
+      expect(limited.undo()).toBe(false);
+      expect(await limited.readFile('/a.txt', 'utf-8')).toBe('1');
+    });
+
+    it('超過 maxBytes 時應該捨棄最舊的項目', async () => {
+      const limited = createVFS({ history: { maxBytes: 10 } });
+      await limited.writeFile('/a.txt', '1234');
+      await limited.writeFile('/b.txt', '12345');
+
+      // 第一個項目保存 4 位元組（操作後），第二個保存 5 位元組，合計 9
+      expect(limited.history()).toHaveLength(2);
+
+      // 第三個項目保存 4 + 1 位元組，合計 14，捨棄第一個項目後為 10
+      await limited.writeFile('/a.txt', '1');
+      expect(limited.history().map(e => e.paths[0])).toEqual(['/b.txt', '/a.txt']);
+    });
+  });
+
+  it('交易提交應該記錄為單一項目', async () => {
+    await vfs.transaction(async tx => {
+      await tx.writeFile('/src/index.ts', 'v2');
+      await tx.writeFile('/src/gen/a.ts', 'a');
+    });
+
+    expect(vfs.history().map(e => e.operation)).toEqual(['transaction']);
+
+    vfs.undo();
+    expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+    expect(await vfs.exists('/src/gen')).toBe(false);
+  });
+
+  it('reset 應該清除歷程', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    vfs.reset();
+
+    expect(vfs.history()).toEqual([]);
+  });
+
+  describe('watcher', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('復原應該發出對應的事件', async () => {
+      await vfs.writeFile('/src/new.ts', 'new');
+      const events: FileChangeEvent[] = [];
+      const watcher = vfs.watch('/');
+      watcher.on('all', event => events.push(event));
+      await vi.advanceTimersByTimeAsync(10);
+
+      vfs.undo();
+      await vi.advanceTimersByTimeAsync(150);
+      watcher.close();
+
+      expect(events.map(e => [e.type, e.path])).toEqual([['unlink', '/src/new.ts']]);
+    });
+  });
+});
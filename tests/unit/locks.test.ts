@@ -0,0 +1,343 @@
+/**
+ * 建議式檔案鎖單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createVFS,
+  VirtualFileSystem,
+  LockConflictError,
+  DeadlockError,
+  BadFileDescriptorError,
+} from '../../src/index.js';
+
+/** 讓等待中的 Promise 有機會完成 */
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('建議式檔案鎖', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/build.lock', '');
+    await vfs.writeFile('/data.bin', '0123456789');
+  });
+
+  describe('flock', () => {
+    it('共享鎖可以同時持有，獨占鎖則互斥', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+      const c = await vfs.open('/build.lock', 'r');
+
+      await vfs.flock(a, 'shared');
+      await vfs.flock(b, 'shared');
+
+      expect(() => vfs.flockSync(c, 'exclusive')).toThrow(LockConflictError);
+      await expect(vfs.flock(c, 'exclusive', { wait: false })).rejects.toMatchObject({
+        posixCode: 'EAGAIN',
+        syscall: 'flock',
+      });
+    });
+
+    it('等待中的請求應該在鎖釋放後取得', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+      const order: string[] = [];
+
+      await vfs.flock(a, 'exclusive');
+      const waiting = vfs.flock(b, 'exclusive').then(() => order.push('b acquired'));
+
+      await flush();
+      order.push('a unlock');
+      await vfs.flock(a, 'unlock');
+      await waiting;
+
+      expect(order).toEqual(['a unlock', 'b acquired']);
+      expect(vfs.getLocks('/build.lock')).toEqual([
+        { kind: 'flock', type: 'exclusive', start: 0, length: 0, fd: b, owner: b },
+      ]);
+    });
+
+    it('等待者應該依請求順序取得鎖', async () => {
+      const fds = await Promise.all([1, 2, 3].map(() => vfs.open('/build.lock', 'r')));
+      const order: number[] = [];
+
+      await vfs.flock(fds[0], 'exclusive');
+      const second = vfs.flock(fds[1], 'exclusive').then(() => order.push(fds[1]));
+      const third = vfs.flock(fds[2], 'exclusive').then(() => order.push(fds[2]));
+
+      await vfs.close(fds[0]);
+      await second;
+      await vfs.close(fds[1]);
+      await third;
+
+      expect(order).toEqual([fds[1], fds[2]]);
+    });
+
+    it('同一描述符應該可以升級與降級鎖', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      vfs.flockSync(a, 'shared');
+      vfs.flockSync(a, 'exclusive');
+      expect(() => vfs.flockSync(b, 'shared')).toThrow(LockConflictError);
+
+      vfs.flockSync(a, 'shared');
+      vfs.flockSync(b, 'shared');
+      expect(vfs.getLocks('/build.lock')).toHaveLength(2);
+    });
+
+    it('升級時應該先釋放原本的鎖，兩個共享鎖同時升級不會死結', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      vfs.flockSync(a, 'shared');
+      vfs.flockSync(b, 'shared');
+      const upgradingA = vfs.flock(a, 'exclusive');
+      const upgradingB = vfs.flock(b, 'exclusive');
+
+      await upgradingA;
+      expect(vfs.getLocks('/build.lock').map(l => [l.fd, l.type])).toEqual([[a, 'exclusive']]);
+
+      await vfs.flock(a, 'unlock');
+      await upgradingB;
+      expect(vfs.getLocks('/build.lock').map(l => [l.fd, l.type])).toEqual([[b, 'exclusive']]);
+    });
+
+    it('無法立即升級時原本的鎖應該已經釋放', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      vfs.flockSync(a, 'shared');
+      vfs.flockSync(b, 'shared');
+
+      expect(() => vfs.flockSync(a, 'exclusive')).toThrow(LockConflictError);
+      expect(vfs.getLocks('/build.lock').map(l => l.fd)).toEqual([b]);
+    });
+
+    it('等待中的獨占請求不應該被後來的共享請求插隊', async () => {
+      const [writer, ...readers] = await Promise.all([1, 2, 3, 4].map(() => vfs.open('/build.lock', 'r')));
+      const order: string[] = [];
+
+      await vfs.flock(readers[0], 'shared');
+      const writing = vfs.flock(writer, 'exclusive').then(() => order.push('writer'));
+      const reading = readers.slice(1).map((fd, i) => vfs.flock(fd, 'shared').then(() => order.push(`reader ${i + 1}`)));
+
+      expect(() => vfs.flockSync(readers[1], 'shared')).toThrow(LockConflictError);
+      await flush();
+      expect(order).toEqual([]);
+
+      await vfs.flock(readers[0], 'unlock');
+      await writing;
+      await flush();
+      expect(order).toEqual(['writer']);
+
+      await vfs.flock(writer, 'unlock');
+      await Promise.all(reading);
+      expect(order).toEqual(['writer', 'reader 1', 'reader 2']);
+    });
+
+    it('關閉描述符應該自動釋放鎖', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      await vfs.flock(a, 'exclusive');
+      await vfs.close(a);
+
+      vfs.flockSync(b, 'exclusive');
+      expect(vfs.getLocks('/build.lock').map(l => l.fd)).toEqual([b]);
+    });
+
+    it('關閉等待中的描述符應該以 BadFileDescriptorError 結束等待', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      await vfs.flock(a, 'exclusive');
+      const waiting = vfs.flock(b, 'exclusive');
+      await vfs.close(b);
+
+      await expect(waiting).rejects.toThrow(BadFileDescriptorError);
+      await expect(waiting).rejects.toMatchObject({ syscall: 'flock' });
+    });
+
+    it('硬連結與符號連結應該共享同一組鎖', async () => {
+      await vfs.link('/build.lock', '/hard.lock');
+      await vfs.createSymlink('/build.lock', '/sym.lock');
+      const a = await vfs.open('/hard.lock', 'r');
+      const b = await vfs.open('/sym.lock', 'r');
+
+      vfs.flockSync(a, 'exclusive');
+
+      expect(() => vfs.flockSync(b, 'exclusive')).toThrow(LockConflictError);
+      expect(vfs.getLocks('/build.lock')).toHaveLength(1);
+    });
+
+    it('相同擁有者的鎖不應該互相衝突', async () => {
+      const a = await vfs.open('/build.lock', 'r');
+      const b = await vfs.open('/build.lock', 'r');
+
+      vfs.flockSync(a, 'exclusive', { owner: 'worker-1' });
+      vfs.flockSync(b, 'exclusive', { owner: 'worker-1' });
+
+      expect(vfs.getLocks('/build.lock').map(l => l.owner)).toEqual(['worker-1', 'worker-1']);
+    });
+
+    it('無效的描述符應該拋出 BadFileDescriptorError', async () => {
+      await expect(vfs.flock(99, 'shared')).rejects.toThrow(BadFileDescriptorError);
+    });
+  });
+
+  describe('位元組範圍鎖', () => {
+    it('不重疊的範圍可以同時加上寫入鎖', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      vfs.lockRangeSync(a, { type: 'write', start: 0, length: 5 });
+      vfs.lockRangeSync(b, { type: 'write', start: 5, length: 5 });
+
+      expect(() => vfs.lockRangeSync(b, { type: 'read', start: 4, length: 1 })).toThrow(LockConflictError);
+      await expect(vfs.lockRange(b, { type: 'write' }, { wait: false })).rejects.toMatchObject({ syscall: 'fcntl' });
+    });
+
+    it('讀取鎖可以重疊，但與寫入鎖衝突', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      vfs.lockRangeSync(a, { type: 'read', start: 0, length: 10 });
+      vfs.lockRangeSync(b, { type: 'read', start: 5, length: 10 });
+
+      expect(() => vfs.lockRangeSync(b, { type: 'write', start: 0, length: 1 })).toThrow(LockConflictError);
+    });
+
+    it('長度為 0 時應該延伸至檔案結尾之後', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      vfs.lockRangeSync(a, { type: 'write', start: 100 });
+
+      expect(() => vfs.lockRangeSync(b, { type: 'write', start: 1000, length: 1 })).toThrow(LockConflictError);
+      vfs.lockRangeSync(b, { type: 'write', start: 0, length: 100 });
+    });
+
+    it('解鎖部分範圍應該切分既有的鎖，相鄰的鎖應該合併', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+
+      vfs.lockRangeSync(a, { type: 'write', start: 0, length: 5 });
+      vfs.lockRangeSync(a, { type: 'write', start: 5, length: 5 });
+      expect(vfs.getLocks('/data.bin').map(l => [l.start, l.length])).toEqual([[0, 10]]);
+
+      vfs.lockRangeSync(a, { type: 'unlock', start: 3, length: 2 });
+      expect(vfs.getLocks('/data.bin').map(l => [l.start, l.length])).toEqual([
+        [0, 3],
+        [5, 5],
+      ]);
+    });
+
+    it('同一擁有者的新鎖應該取代範圍內的舊鎖', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      vfs.lockRangeSync(a, { type: 'write', start: 0, length: 10 });
+      vfs.lockRangeSync(a, { type: 'read', start: 2, length: 2 });
+
+      vfs.lockRangeSync(b, { type: 'read', start: 2, length: 2 });
+      expect(vfs.getLocks('/data.bin').map(l => [l.type, l.start, l.length])).toEqual([
+        ['exclusive', 0, 2],
+        ['exclusive', 4, 6],
+        ['shared', 2, 2],
+        ['shared', 2, 2],
+      ]);
+    });
+
+    it('範圍鎖與 flock 應該互不影響', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      vfs.flockSync(a, 'exclusive');
+      vfs.lockRangeSync(b, { type: 'write' });
+
+      expect(vfs.getLocks('/data.bin').map(l => l.kind)).toEqual(['flock', 'range']);
+    });
+
+    it('等待中的範圍鎖應該在衝突解除後取得', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+      const b = await vfs.open('/data.bin', 'r+');
+
+      await vfs.lockRange(a, { type: 'write', start: 0, length: 5 });
+      const waiting = vfs.lockRange(b, { type: 'write', start: 4, length: 2 });
+      await vfs.lockRange(a, { type: 'unlock', start: 4, length: 1 });
+      await waiting;
+
+      expect(vfs.getLocks('/data.bin').map(l => [l.fd, l.start, l.length])).toEqual([
+        [a, 0, 4],
+        [b, 4, 2],
+      ]);
+    });
+
+    it('讀取鎖需要可讀的描述符，寫入鎖需要可寫的描述符', async () => {
+      const readOnly = await vfs.open('/data.bin', 'r');
+      const writeOnly = await vfs.open('/data.bin', 'a');
+
+      expect(() => vfs.lockRangeSync(readOnly, { type: 'write' })).toThrow(BadFileDescriptorError);
+      expect(() => vfs.lockRangeSync(writeOnly, { type: 'read' })).toThrow(BadFileDescriptorError);
+    });
+
+    it('無效的範圍應該拋出 TypeError', async () => {
+      const a = await vfs.open('/data.bin', 'r+');
+
+      expect(() => vfs.lockRangeSync(a, { type: 'read', start: -1 })).toThrow(TypeError);
+      expect(() => vfs.lockRangeSync(a, { type: 'read', length: 1.5 })).toThrow(TypeError);
+    });
+  });
+
+  describe('死結偵測', () => {
+    it('互相等待對方的鎖時應該拋出 DeadlockError', async () => {
+      await vfs.writeFile('/a.lock', '');
+      await vfs.writeFile('/b.lock', '');
+      const a1 = await vfs.open('/a.lock', 'r');
+      const b1 = await vfs.open('/b.lock', 'r');
+      const a2 = await vfs.open('/a.lock', 'r');
+      const b2 = await vfs.open('/b.lock', 'r');
+
+      await vfs.flock(a1, 'exclusive', { owner: 'worker-1' });
+      await vfs.flock(b2, 'exclusive', { owner: 'worker-2' });
+
+      const waiting = vfs.flock(b1, 'exclusive', { owner: 'worker-1' });
+
+      await expect(vfs.flock(a2, 'exclusive', { owner: 'worker-2' })).rejects.toMatchObject({
+        name: 'DeadlockError',
+        posixCode: 'EDEADLK',
+        syscall: 'flock',
+      });
+
+      // 放棄後釋放持有的鎖，另一方即可繼續
+      await vfs.close(b2);
+      await waiting;
+    });
+
+    it('應該偵測經過多個擁有者的等待循環', async () => {
+      const [w1, w2, w3] = await Promise.all([1, 2, 3].map(() => vfs.open('/data.bin', 'r+')));
+
+      vfs.lockRangeSync(w1, { type: 'write', start: 0, length: 1 });
+      vfs.lockRangeSync(w2, { type: 'write', start: 1, length: 1 });
+      vfs.lockRangeSync(w3, { type: 'write', start: 2, length: 1 });
+
+      void vfs.lockRange(w1, { type: 'write', start: 1, length: 1 });
+      void vfs.lockRange(w2, { type: 'write', start: 2, length: 1 });
+
+      await expect(vfs.lockRange(w3, { type: 'write', start: 0, length: 1 })).rejects.toThrow(DeadlockError);
+    });
+
+  });
+
+  it('reset 應該釋放所有鎖並結束等待', async () => {
+    const a = await vfs.open('/build.lock', 'r');
+    const b = await vfs.open('/build.lock', 'r');
+
+    await vfs.flock(a, 'exclusive');
+    const waiting = vfs.flock(b, 'exclusive');
+    vfs.reset();
+
+    await expect(waiting).rejects.toThrow(BadFileDescriptorError);
+  });
+});
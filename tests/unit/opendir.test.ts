@@ -0,0 +1,207 @@
+/**
+ * 目錄串流與走訪單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createVFS,
+  VirtualFileSystem,
+  VFSDir,
+  DirectoryClosedError,
+  DirectoryNotFoundError,
+  NotADirectoryError,
+  PermissionError,
+} from '../../src/index.js';
+import type { DirectoryEntry, WalkEntry } from '../../src/index.js';
+
+describe('opendir', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/dir/a.txt', 'a');
+    await vfs.writeFile('/dir/b.txt', 'bb');
+    await vfs.createDirectory('/dir/sub');
+  });
+
+  it('read 應該逐一回傳項目，結束時回傳 null', async () => {
+    const dir = await vfs.opendir('/dir');
+
+    expect(dir).toBeInstanceOf(VFSDir);
+    expect(dir.path).toBe('/dir');
+    expect(await dir.read()).toMatchObject({ name: 'a.txt', path: '/dir/a.txt', isFile: true, size: 1 });
+    expect((await dir.read())?.name).toBe('b.txt');
+    expect(dir.readSync()).toMatchObject({ name: 'sub', isDirectory: true });
+    expect(await dir.read()).toBeNull();
+    await dir.close();
+  });
+
+  it('應該可以用 for await 讀取，結束後自動關閉', async () => {
+    const dir = vfs.opendirSync('/dir');
+    const names: string[] = [];
+
+    for await (const entry of dir) {
+      names.push(entry.name);
+    }
+
+    expect(names).toEqual(['a.txt', 'b.txt', 'sub']);
+    await expect(dir.read()).rejects.toThrow(DirectoryClosedError);
+  });
+
+  it('中斷 for await 時也應該關閉', async () => {
+    const dir = await vfs.opendir('/dir');
+
+    for await (const entry of dir) {
+      expect(entry.name).toBe('a.txt');
+      break;
+    }
+
+    expect(() => dir.closeSync()).toThrow(DirectoryClosedError);
+  });
+
+  it('關閉後讀取或再次關閉應該拋出 DirectoryClosedError', async () => {
+    const dir = await vfs.opendir('/dir');
+    await dir.close();
+
+    expect(() => dir.readSync()).toThrow(DirectoryClosedError);
+    await expect(dir.close()).rejects.toMatchObject({ posixCode: 'EBADF' });
+  });
+
+  it('開啟不存在的路徑或檔案應該拋出錯誤', async () => {
+    await expect(vfs.opendir('/missing')).rejects.toThrow(DirectoryNotFoundError);
+    await expect(vfs.opendir('/dir/a.txt')).rejects.toMatchObject({ syscall: 'opendir' });
+  });
+
+  it('開啟無法讀取的目錄應該拋出 PermissionError', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.createDirectory('/private');
+    await restricted.chmod('/private', 0o311);
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    await expect(restricted.opendir('/private')).rejects.toThrow(PermissionError);
+  });
+
+  it('讀取期間新增的項目應該被讀到，刪除的項目不應該被讀到', async () => {
+    const dir = await vfs.opendir('/dir');
+
+    expect((await dir.read())?.name).toBe('a.txt');
+    await vfs.deleteFile('/dir/b.txt');
+    await vfs.writeFile('/dir/c.txt', 'c');
+
+    const rest: string[] = [];
+    for await (const entry of dir) {
+      rest.push(entry.name);
+    }
+
+    expect(rest).toEqual(['sub', 'c.txt']);
+  });
+});
+
+describe('walk', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/project/package.json', '{}');
+    await vfs.writeFile('/project/src/index.ts', 'x');
+    await vfs.writeFile('/project/src/lib/util.ts', 'x');
+    await vfs.writeFile('/project/node_modules/dep/index.js', 'x');
+  });
+
+  const collect = async (iterable: AsyncIterable<WalkEntry>): Promise<string[]> => {
+    const paths: string[] = [];
+    for await (const entry of iterable) {
+      paths.push(entry.relativePath);
+    }
+    return paths;
+  };
+
+  it('應該以深度優先產出整個子樹', async () => {
+    expect(await collect(vfs.walk('/project'))).toEqual([
+      'package.json',
+      'src',
+      'src/index.ts',
+      'src/lib',
+      'src/lib/util.ts',
+      'node_modules',
+      'node_modules/dep',
+      'node_modules/dep/index.js',
+    ]);
+  });
+
+  it('項目應該帶有完整路徑、相對路徑與深度', () => {
+    const entries = [...vfs.walkSync('/project/src')];
+
+    expect(entries.map(e => [e.path, e.relativePath, e.depth])).toEqual([
+      ['/project/src/index.ts', 'index.ts', 0],
+      ['/project/src/lib', 'lib', 0],
+      ['/project/src/lib/util.ts', 'lib/util.ts', 1],
+    ]);
+  });
+
+  it('descend 回傳 false 時應該略過整個子樹', async () => {
+    const paths = await collect(vfs.walk('/project', { descend: entry => entry.name !== 'node_modules' }));
+
+    expect(paths).toContain('node_modules');
+    expect(paths).not.toContain('node_modules/dep');
+  });
+
+  it('filter 只決定是否產出項目', async () => {
+    const paths = await collect(vfs.walk('/project', { filter: entry => entry.name.endsWith('.ts') }));
+
+    expect(paths).toEqual(['src/index.ts', 'src/lib/util.ts']);
+  });
+
+  it('maxDepth 應該限制走訪深度', async () => {
+    expect(await collect(vfs.walk('/project', { maxDepth: 0 }))).toEqual(['package.json', 'src', 'node_modules']);
+    expect(await collect(vfs.walk('/project/src', { maxDepth: 1 }))).toEqual(['index.ts', 'lib', 'lib/util.ts']);
+  });
+
+  it('應該可以提早結束而不走訪其餘項目', () => {
+    const visited: string[] = [];
+
+    for (const entry of vfs.walkSync('/project', { filter: e => (visited.push(e.name), true) })) {
+      if (entry.name === 'src') {
+        break;
+      }
+    }
+
+    expect(visited).toEqual(['package.json', 'src']);
+  });
+
+  it('followSymlinks 應該進入連結的目錄，且不會因循環連結無限遞迴', async () => {
+    await vfs.createSymlink('/project/src', '/project/src/lib/loop');
+    await vfs.createSymlink('/project/src/lib', '/project/lib-link');
+
+    const plain = await collect(vfs.walk('/project'));
+    const followed = await collect(vfs.walk('/project', { followSymlinks: true }));
+
+    expect(plain).not.toContain('lib-link/util.ts');
+    expect(followed).toContain('lib-link/util.ts');
+    expect(followed).toContain('src/lib/loop');
+    expect(followed).not.toContain('src/lib/loop/index.ts');
+  });
+
+  it('起始路徑不存在或不是目錄時應該立即拋出錯誤', async () => {
+    expect(() => vfs.walkSync('/missing')).toThrow(DirectoryNotFoundError);
+    expect(() => vfs.walkSync('/project/package.json')).toThrow(NotADirectoryError);
+    await expect(collect(vfs.walk('/missing'))).rejects.toMatchObject({ syscall: 'scandir' });
+  });
+
+  it('走訪到無法讀取的子目錄時應該拋出 PermissionError', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.writeFile('/top/private/secret.txt', 'x');
+    await restricted.chmod('/top/private', 0o311);
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    const entries: DirectoryEntry[] = [];
+    expect(() => {
+      for (const entry of restricted.walkSync('/top')) {
+        entries.push(entry);
+      }
+    }).toThrow(PermissionError);
+    expect(entries.map(e => e.name)).toEqual(['private']);
+
+    expect([...restricted.walkSync('/top', { descend: () => false })]).toHaveLength(1);
+  });
+});
@@ -35,6 +35,11 @@ describe('路徑正規化', () => {
       expect(normalizePath('a\\b\\c')).toBe('a/b/c');
     });
 
+    it('literalBackslash 時應該保留反斜線為名稱的一部分', () => {
+      expect(normalizePath('a\\b\\c', { literalBackslash: true })).toBe('a\\b\\c');
+      expect(normalizePath('/x/a\\b/../c', { literalBackslash: true })).toBe('/x/c');
+    });
+
     it('應該移除連續斜線', () => {
       expect(normalizePath('a//b///c')).toBe('a/b/c');
     });
@@ -0,0 +1,197 @@
+/**
+ * 權限模型單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, createFsPromises, VirtualFileSystem, AccessMode } from '../../src/index.js';
+import { FileNotFoundError, PermissionError } from '../../src/errors/file-system-errors.js';
+
+const ALICE = { uid: 1000, gid: 1000 };
+const BOB = { uid: 1001, gid: 1001, groups: [2000] };
+
+describe('權限', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS({ enforcePermissions: true });
+  });
+
+  /** 以 root 建立節點後切換身分 */
+  const as = (credentials: { uid: number; gid: number; groups?: number[] }): void => {
+    vfs.setCredentials(credentials);
+  };
+
+  describe('chmod 與 chown', () => {
+    it('應該變更模式與擁有者', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      await vfs.chmod('/a.txt', 0o600);
+      await vfs.chown('/a.txt', 1000, 1000);
+
+      const stats = await vfs.getStats('/a.txt');
+      expect(stats.mode).toBe(0o600);
+      expect(stats.uid).toBe(1000);
+      expect(stats.gid).toBe(1000);
+    });
+
+    it('非擁有者不能 chmod，非 root 不能轉移擁有權', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      await vfs.chown('/a.txt', ALICE.uid, ALICE.gid);
+
+      as(BOB);
+      await expect(vfs.chmod('/a.txt', 0o777)).rejects.toThrow(PermissionError);
+
+      as(ALICE);
+      await vfs.chmod('/a.txt', 0o640);
+      await expect(vfs.chown('/a.txt', BOB.uid, -1)).rejects.toThrow(PermissionError);
+      await expect(vfs.chown('/a.txt', -1, 2000)).rejects.toThrow(PermissionError);
+    });
+
+    it('擁有者可以將群組改為自己所屬的群組', async () => {
+      await vfs.writeFile('/b.txt', 'b');
+      await vfs.chown('/b.txt', BOB.uid, BOB.gid);
+
+      as(BOB);
+      await vfs.chown('/b.txt', -1, 2000);
+      expect((await vfs.getStats('/b.txt')).gid).toBe(2000);
+    });
+
+    it('lchown 應該變更符號連結本身', async () => {
+      await vfs.writeFile('/target.txt', 't');
+      await vfs.createSymlink('/target.txt', '/link');
+      await vfs.lchown('/link', 1000, 1000);
+
+      expect((await vfs.getLinkStats('/link')).uid).toBe(1000);
+      expect((await vfs.getStats('/target.txt')).uid).toBe(0);
+    });
+  });
+
+  describe('access', () => {
+    it('應該依擁有者、群組與其他人的位元判斷', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      await vfs.chown('/a.txt', ALICE.uid, 2000);
+      await vfs.chmod('/a.txt', 0o640);
+
+      as(ALICE);
+      await expect(vfs.access('/a.txt', AccessMode.Read | AccessMode.Write)).resolves.toBeUndefined();
+      await expect(vfs.access('/a.txt', AccessMode.Execute)).rejects.toThrow(PermissionError);
+
+      as(BOB);
+      await expect(vfs.access('/a.txt', AccessMode.Read)).resolves.toBeUndefined();
+      await expect(vfs.access('/a.txt', AccessMode.Write)).rejects.toThrow(PermissionError);
+
+      as({ uid: 3000, gid: 3000 });
+      expect(() => vfs.accessSync('/a.txt', AccessMode.Read)).toThrow(PermissionError);
+      expect(() => vfs.accessSync('/missing')).toThrow(FileNotFoundError);
+    });
+
+    it('root 執行檔案仍需要執行位元', async () => {
+      await vfs.writeFile('/script.sh', 'echo');
+      await expect(vfs.access('/script.sh', AccessMode.Execute)).rejects.toThrow(PermissionError);
+      await vfs.chmod('/script.sh', 0o744);
+      await expect(vfs.access('/script.sh', AccessMode.Execute)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('強制檢查', () => {
+    beforeEach(async () => {
+      await vfs.createDirectory('/home/alice', true);
+      await vfs.chown('/home/alice', ALICE.uid, ALICE.gid);
+      await vfs.chmod('/home/alice', 0o700);
+      await vfs.writeFile('/shared.txt', 'shared');
+      await vfs.chmod('/shared.txt', 0o644);
+    });
+
+    it('新建節點應該屬於目前身分', async () => {
+      as(ALICE);
+      await vfs.writeFile('/home/alice/notes.txt', 'hi');
+      const stats = await vfs.getStats('/home/alice/notes.txt');
+      expect(stats.uid).toBe(ALICE.uid);
+      expect(stats.gid).toBe(ALICE.gid);
+    });
+
+    it('應該拒絕沒有讀取或寫入權限的檔案操作', async () => {
+      as(BOB);
+      expect(await vfs.readFile('/shared.txt', 'utf-8')).toBe('shared');
+      await expect(vfs.writeFile('/shared.txt', 'x')).rejects.toThrow(PermissionError);
+      await expect(vfs.appendFile('/shared.txt', 'x')).rejects.toThrow(PermissionError);
+      expect(() => vfs.openSync('/shared.txt', 'r+')).toThrow(PermissionError);
+
+      as(ALICE);
+      await vfs.writeFile('/home/alice/private.txt', 'secret');
+      await vfs.chmod('/home/alice/private.txt', 0o200);
+      await expect(vfs.readFile('/home/alice/private.txt')).rejects.toThrow(PermissionError);
+    });
+
+    it('應該拒絕穿越沒有執行權限的目錄', async () => {
+      as(ALICE);
+      await vfs.writeFile('/home/alice/notes.txt', 'hi');
+
+      as(BOB);
+      await expect(vfs.readFile('/home/alice/notes.txt')).rejects.toThrow(PermissionError);
+      await expect(vfs.getStats('/home/alice/notes.txt')).rejects.toThrow(PermissionError);
+      await expect(vfs.readDirectory('/home/alice')).rejects.toThrow(PermissionError);
+      await expect(vfs.deleteFile('/home/alice/notes.txt')).rejects.toThrow(PermissionError);
+      expect(await vfs.exists('/home/alice/notes.txt')).toBe(false);
+      expect(await vfs.glob('**', { onlyFiles: true })).toEqual(['/shared.txt']);
+    });
+
+    it('應該拒絕在沒有寫入權限的目錄中建立或刪除項目', async () => {
+      as(BOB);
+      await expect(vfs.writeFile('/bob.txt', 'x')).rejects.toThrow(PermissionError);
+      await expect(vfs.createDirectory('/bob')).rejects.toThrow(PermissionError);
+      await expect(vfs.createSymlink('/shared.txt', '/link')).rejects.toThrow(PermissionError);
+      await expect(vfs.deleteFile('/shared.txt')).rejects.toThrow(PermissionError);
+      await expect(vfs.rename('/shared.txt', '/tmp.txt')).rejects.toThrow(PermissionError);
+      await expect(vfs.deleteDirectory('/home', true)).rejects.toThrow(PermissionError);
+      expect(await vfs.exists('/shared.txt')).toBe(true);
+    });
+
+    it('sticky bit 目錄只允許擁有者刪除或重新命名自己的項目', async () => {
+      await vfs.createDirectory('/tmp');
+      await vfs.chmod('/tmp', 0o1777);
+
+      as(ALICE);
+      await vfs.writeFile('/tmp/alice.txt', 'a');
+      as(BOB);
+      await vfs.writeFile('/tmp/bob.txt', 'b');
+
+      await expect(vfs.deleteFile('/tmp/alice.txt')).rejects.toThrow(PermissionError);
+      await expect(vfs.rename('/tmp/bob.txt', '/tmp/alice.txt')).rejects.toThrow(PermissionError);
+      await vfs.rename('/tmp/bob.txt', '/tmp/bob2.txt');
+      await vfs.deleteFile('/tmp/bob2.txt');
+
+      as({ uid: 0, gid: 0 });
+      await vfs.deleteFile('/tmp/alice.txt');
+      expect(await vfs.readDirectory('/tmp')).toEqual([]);
+    });
+
+    it('未啟用強制檢查時不應該拒絕任何操作', async () => {
+      const open = createVFS({ credentials: BOB });
+      await open.writeFile('/a.txt', 'a');
+      await open.chmod('/a.txt', 0o000);
+      await open.chown('/a.txt', 0, 0);
+
+      expect(await open.readFile('/a.txt', 'utf-8')).toBe('a');
+      expect((await open.getStats('/a.txt')).uid).toBe(0);
+      await expect(open.access('/a.txt', AccessMode.Read)).rejects.toThrow(PermissionError);
+    });
+  });
+
+  describe('fs.promises', () => {
+    it('應該回報 EACCES 並支援 chmod、chown', async () => {
+      const fs = createFsPromises(vfs);
+      await fs.writeFile('/a.txt', 'a');
+      await fs.chmod('/a.txt', '600');
+      await fs.chown('/a.txt', ALICE.uid, ALICE.gid);
+
+      const stats = await fs.stat('/a.txt');
+      expect(stats.mode & 0o777).toBe(0o600);
+      expect(stats.uid).toBe(ALICE.uid);
+
+      as(BOB);
+      await expect(fs.readFile('/a.txt')).rejects.toMatchObject({ code: 'EACCES', syscall: 'open' });
+      await expect(fs.access('/a.txt', fs.constants.R_OK)).rejects.toMatchObject({ code: 'EACCES', syscall: 'access' });
+      await expect(fs.access('/a.txt')).resolves.toBeUndefined();
+    });
+  });
+});
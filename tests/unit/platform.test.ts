@@ -0,0 +1,177 @@
+/**
+ * 平台模擬設定單元測試
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createVFS,
+  InvalidPathError,
+  validatePath,
+  validateFileName,
+  isValidFileName,
+  resolvePathRules,
+  WIN32_PATH_RULES,
+} from '../../src/index.js';
+
+describe('平台模擬設定', () => {
+  describe('posix', () => {
+    it('預設應該允許 Windows 保留名稱與結尾句點', async () => {
+      const vfs = createVFS();
+      await vfs.writeFile('/CON', 'a');
+      await vfs.writeFile('/lpt1.txt', 'b');
+      await vfs.writeFile('/name.', 'c');
+      await vfs.writeFile('/what?.txt', 'd');
+
+      expect(await vfs.readDirectory('/')).toHaveLength(4);
+    });
+
+    it('應該允許名稱中含有反斜線', async () => {
+      const vfs = createVFS({ platform: 'posix' });
+
+      await vfs.writeFile('/dir/a\\b.txt', 'x');
+
+      expect(await vfs.readDirectory('/dir', { withFileTypes: false })).toEqual(['a\\b.txt']);
+      expect(await vfs.exists('/dir/a/b.txt')).toBe(false);
+    });
+
+    it('未指定平台時應該將反斜線視為分隔符號', async () => {
+      const vfs = createVFS();
+
+      await vfs.writeFile('dir\\a.txt', 'x');
+
+      expect(await vfs.readFile('/dir/a.txt', 'utf-8')).toBe('x');
+      expect(await vfs.readDirectory('/dir', { withFileTypes: false })).toEqual(['a.txt']);
+    });
+
+    it('pathRules 可以讓任何 posix 格式的平台保留反斜線', async () => {
+      const vfs = createVFS({ pathRules: { literalBackslash: true } });
+
+      await vfs.writeFile('/a\\b.txt', 'x');
+
+      expect(await vfs.readDirectory('/', { withFileTypes: false })).toEqual(['a\\b.txt']);
+    });
+
+    it('應該拒絕超過 255 字元的段落', async () => {
+      const vfs = createVFS({ platform: 'posix' });
+      await expect(vfs.writeFile(`/${'a'.repeat(256)}`, 'x')).rejects.toThrow(InvalidPathError);
+    });
+  });
+
+  describe('win32', () => {
+    it('應該拒絕保留名稱（不區分大小寫、忽略副檔名）', async () => {
+      const vfs = createVFS({ platform: 'win32' });
+
+      await expect(vfs.writeFile('/CON', 'x')).rejects.toThrow(InvalidPathError);
+      await expect(vfs.writeFile('/dir/nul.txt', 'x')).rejects.toThrow(InvalidPathError);
+      await expect(vfs.createDirectory('/Lpt9')).rejects.toThrow(InvalidPathError);
+      await vfs.writeFile('/CONSOLE.txt', 'ok');
+    });
+
+    it('應該拒絕禁用字元', async () => {
+      const vfs = createVFS({ platform: 'win32' });
+
+      for (const char of '<>:"|?*') {
+        await expect(vfs.writeFile(`/a${char}b`, 'x')).rejects.toThrow(InvalidPathError);
+      }
+    });
+
+    it('應該拒絕以空格或句點結尾的名稱', async () => {
+      const vfs = createVFS({ platform: 'win32' });
+
+      await expect(vfs.writeFile('/name.', 'x')).rejects.toThrow(InvalidPathError);
+      await expect(vfs.createDirectory('/dir ')).rejects.toThrow(InvalidPathError);
+    });
+
+    it('應該限制路徑長度為 260 字元', async () => {
+      const vfs = createVFS({ platform: 'win32' });
+      const dir = `/${'a'.repeat(200)}`;
+
+      await vfs.createDirectory(dir);
+      await expect(vfs.writeFile(`${dir}/${'b'.repeat(60)}`, 'x')).rejects.toThrow(InvalidPathError);
+    });
+
+    it('預設應該不區分大小寫', async () => {
+      const vfs = createVFS({ platform: 'win32' });
+      await vfs.writeFile('/Readme.md', 'hi');
+
+      expect(await vfs.readFile('/README.MD', 'utf-8')).toBe('hi');
+    });
+
+    it('明確指定的 caseSensitive 應該優先於平台預設值', async () => {
+      const vfs = createVFS({ platform: 'win32', caseSensitive: true });
+      await vfs.writeFile('/Readme.md', 'hi');
+
+      expect(await vfs.exists('/README.MD')).toBe(false);
+    });
+  });
+
+  describe('darwin', () => {
+    it('預設應該不區分大小寫且忽略正規化差異', async () => {
+      const vfs = createVFS({ platform: 'darwin' });
+      await vfs.writeFile('/Café.txt', 'x');
+
+      expect(await vfs.readFile('/CAFE\u0301.TXT', 'utf-8')).toBe('x');
+      expect((await vfs.readDirectory('/'))[0].name).toBe('Café.txt');
+    });
+
+    it('應該允許 Windows 保留名稱', async () => {
+      const vfs = createVFS({ platform: 'darwin' });
+      await vfs.writeFile('/aux.txt', 'x');
+
+      expect(await vfs.exists('/AUX.TXT')).toBe(true);
+    });
+
+    it('應該限制路徑長度為 1024 字元', async () => {
+      const vfs = createVFS({ platform: 'darwin' });
+      const longPath = `/${'a'.repeat(200)}`.repeat(6);
+
+      await expect(vfs.createDirectory(longPath, true)).rejects.toThrow(InvalidPathError);
+    });
+  });
+
+  describe('custom', () => {
+    it('應該以 posix 規則為基礎套用自訂規則', async () => {
+      const vfs = createVFS({
+        platform: 'custom',
+        pathRules: { maxSegmentLength: 8, reservedNames: ['secret'], forbiddenCharacters: '#' },
+      });
+
+      await vfs.writeFile('/ok.txt', 'x');
+      await expect(vfs.writeFile('/too-long.txt', 'x')).rejects.toThrow(InvalidPathError);
+      await expect(vfs.writeFile('/SECRET.md', 'x')).rejects.toThrow(InvalidPathError);
+      await expect(vfs.writeFile('/a#b', 'x')).rejects.toThrow(InvalidPathError);
+      expect(await vfs.exists('/OK.TXT')).toBe(false);
+    });
+
+    it('pathRules 應該可以覆寫其他平台的規則', async () => {
+      const vfs = createVFS({ platform: 'win32', pathRules: { maxPathLength: 32767 } });
+
+      await vfs.createDirectory(`/${'a'.repeat(200)}/${'b'.repeat(200)}`, true);
+      await expect(vfs.writeFile('/CON', 'x')).rejects.toThrow(InvalidPathError);
+    });
+  });
+
+  it('應該拒絕未知的平台', () => {
+    expect(() => createVFS({ platform: 'beos' as never })).toThrow(TypeError);
+  });
+
+  describe('驗證函式', () => {
+    it('未指定規則時應該使用 posix 規則', () => {
+      expect(() => validatePath('/CON/name.')).not.toThrow();
+      expect(isValidFileName('a\\b')).toBe(true);
+    });
+
+    it('應該依傳入的規則驗證', () => {
+      expect(() => validatePath('/CON', WIN32_PATH_RULES)).toThrow(InvalidPathError);
+      expect(() => validateFileName('a\\b', WIN32_PATH_RULES)).toThrow(InvalidPathError);
+      expect(isValidFileName('a\\b', resolvePathRules('win32'))).toBe(false);
+    });
+
+    it('resolvePathRules 應該合併覆寫', () => {
+      const rules = resolvePathRules('win32', { maxPathLength: 1000 });
+
+      expect(rules.maxPathLength).toBe(1000);
+      expect(rules.reservedNames).toBe(WIN32_PATH_RULES.reservedNames);
+    });
+  });
+});
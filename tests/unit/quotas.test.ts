@@ -0,0 +1,271 @@
+/**
+ * 儲存空間限制單元測試
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createVFS,
+  createFsPromises,
+  NoSpaceError,
+  FileTooLargeError,
+  DirectoryNotFoundError,
+} from '../../src/index.js';
+
+describe('儲存空間限制', () => {
+  describe('maxTotalBytes', () => {
+    it('超過總容量時寫入應該拋出 NoSpaceError 且不變更內容', async () => {
+      const vfs = createVFS({ maxTotalBytes: 10 });
+      await vfs.writeFile('/a.txt', '123456');
+
+      await expect(vfs.writeFile('/b.txt', '12345')).rejects.toThrow(NoSpaceError);
+      await expect(vfs.appendFile('/a.txt', '12345')).rejects.toMatchObject({ posixCode: 'ENOSPC', syscall: 'open' });
+
+      expect(await vfs.exists('/b.txt')).toBe(false);
+      expect(await vfs.readFile('/a.txt', 'utf-8')).toBe('123456');
+    });
+
+    it('覆寫檔案時應該只計算增加的大小', async () => {
+      const vfs = createVFS({ maxTotalBytes: 10 });
+      await vfs.writeFile('/a.txt', '1234567890');
+
+      await vfs.writeFile('/a.txt', 'abcdefghij');
+      await vfs.writeFile('/a.txt', 'x');
+      await vfs.writeFile('/b.txt', '123456789');
+
+      expect((await vfs.statfs()).usedBytes).toBe(10);
+    });
+
+    it('刪除檔案後應該釋放空間', async () => {
+      const vfs = createVFS({ maxTotalBytes: 10 });
+      await vfs.writeFile('/a.txt', '1234567890');
+      await vfs.deleteFile('/a.txt');
+
+      await vfs.writeFile('/b.txt', '1234567890');
+      expect(await vfs.readFile('/b.txt', 'utf-8')).toBe('1234567890');
+    });
+
+    it('硬連結不應該重複計算大小', async () => {
+      const vfs = createVFS({ maxTotalBytes: 10 });
+      await vfs.writeFile('/a.txt', '12345');
+      await vfs.link('/a.txt', '/b.txt');
+
+      await vfs.writeFile('/c.txt', '12345');
+      expect((await vfs.statfs()).usedBytes).toBe(10);
+    });
+
+    it('空間不足時不應該留下自動建立的上層目錄', async () => {
+      const vfs = createVFS({ maxTotalBytes: 4 });
+
+      await expect(vfs.writeFile('/a/b/c.txt', '12345')).rejects.toThrow(NoSpaceError);
+
+      expect(await vfs.exists('/a')).toBe(false);
+    });
+
+    it('複製超過容量時不應該留下自動建立的上層目錄', async () => {
+      const vfs = createVFS({ maxTotalBytes: 8 });
+      await vfs.writeFile('/src.txt', '12345');
+
+      await expect(vfs.copy('/src.txt', '/out/dir/copy.txt')).rejects.toThrow(NoSpaceError);
+      expect(await vfs.exists('/out')).toBe(false);
+    });
+
+    it('檔案描述符寫入與截斷應該受限制', async () => {
+      const vfs = createVFS({ maxTotalBytes: 8 });
+      const fd = await vfs.open('/a.bin', 'w');
+
+      expect(await vfs.write(fd, '12345678')).toBe(8);
+      await expect(vfs.write(fd, '9')).rejects.toMatchObject({ posixCode: 'ENOSPC', syscall: 'write' });
+      await vfs.write(fd, 'x', 0);
+      await expect(vfs.ftruncate(fd, 9)).rejects.toMatchObject({ posixCode: 'ENOSPC', syscall: 'ftruncate' });
+      await vfs.ftruncate(fd, 4);
+      await vfs.close(fd);
+
+      expect(await vfs.readFile('/a.bin', 'utf-8')).toBe('x234');
+    });
+
+    it('寫入串流應該在空間不足時發出錯誤', async () => {
+      const vfs = createVFS({ maxTotalBytes: 4 });
+      const stream = vfs.createWriteStream('/out.log');
+
+      const error = await new Promise<Error>(resolve => {
+        stream.on('error', resolve);
+        stream.write('1234');
+        stream.end('5');
+      });
+
+      expect(error).toBeInstanceOf(NoSpaceError);
+    });
+
+    it('複製應該以來源大小檢查空間', async () => {
+      const vfs = createVFS({ maxTotalBytes: 10 });
+      await vfs.writeFile('/src/a.txt', '123');
+      await vfs.writeFile('/src/b.txt', '123');
+
+      await expect(vfs.copy('/src', '/dest', { recursive: true })).rejects.toMatchObject({
+        posixCode: 'ENOSPC',
+        syscall: 'cp',
+        dest: '/dest',
+      });
+      await expect(vfs.copyFile('/src/a.txt', '/c.txt')).resolves.toBeUndefined();
+      expect(await vfs.exists('/dest')).toBe(false);
+    });
+
+    it('fs 轉接層應該回傳 ENOSPC', async () => {
+      const vfs = createVFS({ maxTotalBytes: 2 });
+      const fs = createFsPromises(vfs);
+
+      await expect(fs.writeFile('/a.txt', 'abc')).rejects.toMatchObject({ code: 'ENOSPC', syscall: 'open' });
+    });
+  });
+
+  describe('maxInodes', () => {
+    it('超過 inode 數量時建立檔案、目錄與符號連結應該拋出 NoSpaceError', async () => {
+      // 根目錄本身佔用一個 inode
+      const vfs = createVFS({ maxInodes: 3 });
+      await vfs.createDirectory('/dir');
+      await vfs.writeFile('/dir/a.txt', '');
+
+      await expect(vfs.writeFile('/b.txt', '')).rejects.toThrow(NoSpaceError);
+      await expect(vfs.createDirectory('/other')).rejects.toThrow(NoSpaceError);
+      await expect(vfs.createSymlink('/dir', '/link')).rejects.toThrow(NoSpaceError);
+      await expect(vfs.open('/c.txt', 'w')).rejects.toThrow(NoSpaceError);
+
+      // 硬連結不佔用新的 inode，覆寫既有檔案也不需要
+      await vfs.link('/dir/a.txt', '/hard.txt');
+      await vfs.writeFile('/dir/a.txt', 'content');
+    });
+
+    it('遞迴建立目錄時應該在用盡時停止', async () => {
+      const vfs = createVFS({ maxInodes: 3 });
+
+      await expect(vfs.createDirectory('/a/b/c', true)).rejects.toThrow(NoSpaceError);
+      expect(await vfs.isDirectory('/a/b')).toBe(true);
+      expect(await vfs.exists('/a/b/c')).toBe(false);
+    });
+  });
+
+  describe('maxFileSize', () => {
+    it('超過單一檔案大小時應該拋出 FileTooLargeError', async () => {
+      const vfs = createVFS({ maxFileSize: 4 });
+      await vfs.writeFile('/a.txt', '1234');
+
+      await expect(vfs.writeFile('/b.txt', '12345')).rejects.toThrow(FileTooLargeError);
+      await expect(vfs.appendFile('/a.txt', '5')).rejects.toMatchObject({ posixCode: 'EFBIG' });
+
+      const fd = await vfs.open('/a.txt', 'r+');
+      await expect(vfs.write(fd, 'x', 4)).rejects.toThrow(FileTooLargeError);
+      await vfs.close(fd);
+    });
+
+    it('多位元組字元應該以 UTF-8 位元組計算', async () => {
+      const vfs = createVFS({ maxFileSize: 4 });
+
+      await expect(vfs.writeFile('/a.txt', '中文')).rejects.toThrow(FileTooLargeError);
+    });
+  });
+
+  describe('目錄配額', () => {
+    it('應該限制目錄子樹的大小與 inode 數量', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/tmp');
+      await vfs.createDirectory('/home');
+      vfs.setQuota('/tmp', { maxBytes: 5, maxInodes: 3 });
+
+      await vfs.writeFile('/tmp/a.txt', '12345');
+      await expect(vfs.writeFile('/tmp/b.txt', '1')).rejects.toThrow(NoSpaceError);
+      await vfs.createDirectory('/tmp/sub');
+      await expect(vfs.createDirectory('/tmp/sub/deeper')).rejects.toThrow(NoSpaceError);
+
+      // 配額之外不受影響
+      await vfs.writeFile('/home/big.txt', '1234567890');
+    });
+
+    it('巢狀配額都應該套用', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/a/b', true);
+      vfs.setQuota('/a', { maxBytes: 10 });
+      vfs.setQuota('/a/b', { maxBytes: 100 });
+
+      await vfs.writeFile('/a/b/x.txt', '12345');
+      await expect(vfs.writeFile('/a/b/y.txt', '123456')).rejects.toThrow(NoSpaceError);
+    });
+
+    it('透過符號連結寫入時應該套用目標所在目錄的配額', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/limited');
+      await vfs.createSymlink('/limited', '/link');
+      vfs.setQuota('/link', { maxBytes: 3 });
+
+      expect(vfs.getQuota('/limited')).toEqual({ maxBytes: 3 });
+      await expect(vfs.writeFile('/link/a.txt', '1234')).rejects.toThrow(NoSpaceError);
+    });
+
+    it('缺少的上層目錄應該計入配額', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/tmp');
+      vfs.setQuota('/tmp', { maxInodes: 3 });
+
+      await expect(vfs.writeFile('/tmp/a/b/c.txt', '1')).rejects.toThrow(NoSpaceError);
+      expect(await vfs.readDirectory('/tmp')).toEqual([]);
+      await vfs.writeFile('/tmp/a/c.txt', '1');
+    });
+
+    it('移動含硬連結的目錄後應該依實際位置計算', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/tmp');
+      await vfs.writeFile('/data/a.txt', '12345');
+      await vfs.link('/data/a.txt', '/data/b.txt');
+      vfs.setQuota('/tmp', { maxBytes: 9 });
+
+      await vfs.rename('/data', '/tmp/data');
+      await vfs.writeFile('/tmp/c.txt', '1234');
+      await expect(vfs.writeFile('/tmp/d.txt', '1')).rejects.toThrow(NoSpaceError);
+
+      await vfs.rename('/tmp/data/b.txt', '/b.txt');
+      await expect(vfs.writeFile('/tmp/d.txt', '1')).rejects.toThrow(NoSpaceError);
+      await vfs.deleteFile('/tmp/data/a.txt');
+      await vfs.writeFile('/tmp/d.txt', '12345');
+      expect((await vfs.statfs()).usedBytes).toBe(14);
+    });
+
+    it('移除配額後應該不再限制', async () => {
+      const vfs = createVFS();
+      await vfs.createDirectory('/tmp');
+      vfs.setQuota('/tmp', { maxBytes: 1 });
+      vfs.setQuota('/tmp', null);
+
+      expect(vfs.getQuota('/tmp')).toBeUndefined();
+      await vfs.writeFile('/tmp/a.txt', '1234');
+    });
+
+    it('不存在的目錄不能設定配額', () => {
+      const vfs = createVFS();
+
+      expect(() => vfs.setQuota('/missing', { maxBytes: 1 })).toThrow(DirectoryNotFoundError);
+    });
+  });
+
+  describe('statfs', () => {
+    it('應該回報已使用與剩餘的空間', async () => {
+      const vfs = createVFS({ maxTotalBytes: 100, maxInodes: 10, maxFileSize: 50 });
+      await vfs.writeFile('/dir/a.txt', '12345');
+
+      expect(await vfs.statfs()).toEqual({
+        totalBytes: 100,
+        usedBytes: 5,
+        freeBytes: 95,
+        totalInodes: 10,
+        usedInodes: 3,
+        freeInodes: 7,
+        maxFileSize: 50,
+      });
+    });
+
+    it('未設定上限時容量與剩餘應該為 Infinity', async () => {
+      const vfs = createVFS();
+      await vfs.writeFile('/a.txt', '123');
+
+      expect(vfs.statfsSync()).toMatchObject({ totalBytes: Infinity, usedBytes: 3, freeBytes: Infinity });
+    });
+  });
+});
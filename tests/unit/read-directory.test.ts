@@ -0,0 +1,112 @@
+/**
+ * readDirectory 選項單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, VirtualFileSystem, PermissionError } from '../../src/index.js';
+
+describe('readDirectory 選項', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/root/b.txt', 'b');
+    await vfs.writeFile('/root/sub/c.txt', 'c');
+    await vfs.writeFile('/root/a.txt', 'aa');
+  });
+
+  it('沒有選項時應該維持原本的單層 DirectoryEntry 輸出', async () => {
+    const entries = await vfs.readDirectory('/root');
+
+    expect(entries.map(e => e.name)).toEqual(['b.txt', 'sub', 'a.txt']);
+    expect(entries[0]).toMatchObject({ path: '/root/b.txt', isFile: true, isDirectory: false, isSymlink: false, size: 1 });
+  });
+
+  it('recursive 應該在每個目錄之後列出其內容', async () => {
+    const entries = await vfs.readDirectory('/root', { recursive: true });
+
+    expect(entries.map(e => e.path)).toEqual(['/root/b.txt', '/root/sub', '/root/sub/c.txt', '/root/a.txt']);
+  });
+
+  it('withFileTypes 為 false 時應該只回傳名稱，遞迴時為相對路徑', async () => {
+    expect(await vfs.readDirectory('/root', { withFileTypes: false })).toEqual(['b.txt', 'sub', 'a.txt']);
+    expect(vfs.readDirectorySync('/root', { withFileTypes: false, recursive: true })).toEqual([
+      'b.txt',
+      'sub',
+      'sub/c.txt',
+      'a.txt',
+    ]);
+  });
+
+  it('sort 應該決定每一層的順序', async () => {
+    await vfs.writeFile('/names/file10', '');
+    await vfs.writeFile('/names/File2', '');
+    await vfs.writeFile('/names/file2', '');
+    await vfs.writeFile('/names/file1', '');
+    await vfs.writeFile('/names/file02', '');
+
+    expect(await vfs.readDirectory('/names', { withFileTypes: false, sort: 'insertion' }))
+      .toEqual(['file10', 'File2', 'file2', 'file1', 'file02']);
+    expect(await vfs.readDirectory('/names', { withFileTypes: false, sort: 'alphabetical' }))
+      .toEqual(['File2', 'file02', 'file1', 'file10', 'file2']);
+    expect(await vfs.readDirectory('/names', { withFileTypes: false, sort: 'natural' }))
+      .toEqual(['File2', 'file1', 'file02', 'file2', 'file10']);
+    expect(await vfs.readDirectory('/root', { withFileTypes: false, recursive: true, sort: 'alphabetical' }))
+      .toEqual(['a.txt', 'b.txt', 'sub', 'sub/c.txt']);
+  });
+
+  it('filter 只決定是否回傳項目，遞迴時仍會進入被過濾的目錄', async () => {
+    const files = await vfs.readDirectory('/root', { recursive: true, filter: entry => entry.isFile });
+    const names = await vfs.readDirectory('/root', {
+      recursive: true,
+      withFileTypes: false,
+      filter: entry => entry.name.startsWith('c'),
+    });
+
+    expect(files.map(e => e.path)).toEqual(['/root/b.txt', '/root/sub/c.txt', '/root/a.txt']);
+    expect(names).toEqual(['sub/c.txt']);
+  });
+
+  it('followSymlinks 應該回報目標類型並進入連結的目錄', async () => {
+    await vfs.createSymlink('/root/sub', '/root/link');
+    await vfs.createSymlink('/missing', '/root/broken');
+
+    const plain = await vfs.readDirectory('/root', { recursive: true });
+    const followed = await vfs.readDirectory('/root', { recursive: true, followSymlinks: true });
+
+    expect(plain.find(e => e.name === 'link')).toMatchObject({ isSymlink: true, isDirectory: false });
+    expect(plain.map(e => e.path)).not.toContain('/root/link/c.txt');
+    expect(followed.find(e => e.name === 'link')).toMatchObject({ isSymlink: true, isDirectory: true });
+    expect(followed.map(e => e.path)).toContain('/root/link/c.txt');
+    expect(followed.find(e => e.name === 'broken')).toMatchObject({ isSymlink: true, isFile: false, isDirectory: false });
+  });
+
+  it('followSymlinks 遇到指向祖先目錄的連結時不應該無限遞迴', async () => {
+    await vfs.createSymlink('/root', '/root/sub/up');
+
+    const names = await vfs.readDirectory('/root', { recursive: true, followSymlinks: true, withFileTypes: false });
+
+    expect(names).toEqual(['b.txt', 'sub', 'sub/c.txt', 'sub/up', 'a.txt']);
+  });
+
+  it('遞迴時無法讀取的子目錄應該拋出 PermissionError', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.writeFile('/top/private/secret.txt', 'x');
+    await restricted.chmod('/top/private', 0o311);
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    expect(await restricted.readDirectory('/top', { withFileTypes: false })).toEqual(['private']);
+    await expect(restricted.readDirectory('/top', { recursive: true })).rejects.toThrow(PermissionError);
+  });
+
+  it('win32 路徑格式應該以反斜線組合相對路徑', async () => {
+    const win = createVFS({ platform: 'win32' });
+    await win.writeFile('C:\\dir\\sub\\a.txt', 'a');
+
+    expect(await win.readDirectory('C:\\dir', { recursive: true, withFileTypes: false })).toEqual(['sub', 'sub\\a.txt']);
+    expect((await win.readDirectory('C:\\dir', { recursive: true })).map(e => e.path)).toEqual([
+      'C:\\dir\\sub',
+      'C:\\dir\\sub\\a.txt',
+    ]);
+  });
+});
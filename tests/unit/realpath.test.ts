@@ -0,0 +1,127 @@
+/**
+ * realpath 單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createVFS,
+  createFsPromises,
+  VirtualFileSystem,
+  FileNotFoundError,
+  NotADirectoryError,
+  SymlinkLoopError,
+} from '../../src/index.js';
+
+describe('realpath', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  it('沒有符號連結時應該回傳正規化的絕對路徑', async () => {
+    await vfs.writeFile('/a/b/c.txt', 'x');
+
+    expect(await vfs.realpath('/a/./b/../b//c.txt')).toBe('/a/b/c.txt');
+    expect(await vfs.realpath('/')).toBe('/');
+  });
+
+  it('應該解析路徑中每一段的符號連結', async () => {
+    await vfs.writeFile('/real/dir/file.txt', 'x');
+    await vfs.createSymlink('/real', '/abs');
+    await vfs.createSymlink('dir', '/real/rel');
+    await vfs.createSymlink('/abs/rel/file.txt', '/final');
+
+    expect(await vfs.realpath('/abs/rel/file.txt')).toBe('/real/dir/file.txt');
+    expect(await vfs.realpath('/final')).toBe('/real/dir/file.txt');
+  });
+
+  it('相對目標應該以連結所在目錄為基準', async () => {
+    await vfs.writeFile('/a/target.txt', 'x');
+    await vfs.createDirectory('/b/c', true);
+    await vfs.createSymlink('../../a/target.txt', '/b/c/link');
+    await vfs.createSymlink('c/link', '/b/chain');
+
+    expect(await vfs.realpath('/b/chain')).toBe('/a/target.txt');
+  });
+
+  it('透過不同連結到達的同一檔案應該得到相同路徑', async () => {
+    await vfs.writeFile('/pkg/index.js', 'x');
+    await vfs.createSymlink('/pkg', '/node_modules/pkg');
+    await vfs.createSymlink('../pkg', '/app/pkg');
+
+    expect(await vfs.realpath('/node_modules/pkg/index.js')).toBe(await vfs.realpath('/app/pkg/index.js'));
+  });
+
+  it('相對路徑應該以工作目錄為基準', async () => {
+    await vfs.writeFile('/real/a.txt', 'x');
+    await vfs.createSymlink('/real', '/work/link');
+    vfs.chdir('/work');
+
+    expect(vfs.realpathSync('link/a.txt')).toBe('/real/a.txt');
+  });
+
+  it('路徑不存在、斷開的連結或經過檔案時應該拋出錯誤', async () => {
+    await vfs.writeFile('/file.txt', 'x');
+    await vfs.createSymlink('/missing', '/broken');
+
+    await expect(vfs.realpath('/nope')).rejects.toThrow(FileNotFoundError);
+    await expect(vfs.realpath('/broken')).rejects.toMatchObject({ posixCode: 'ENOENT', syscall: 'realpath' });
+    await expect(vfs.realpath('/file.txt/x')).rejects.toThrow(NotADirectoryError);
+  });
+
+  it('循環連結與超過 maxSymlinkDepth 的連結鏈應該拋出 SymlinkLoopError', async () => {
+    await vfs.createSymlink('/loop-b', '/loop-a');
+    await vfs.createSymlink('/loop-a', '/loop-b');
+
+    await expect(vfs.realpath('/loop-a')).rejects.toThrow(SymlinkLoopError);
+
+    const shallow = createVFS({ maxSymlinkDepth: 2 });
+    await shallow.writeFile('/target', 'x');
+    await shallow.createSymlink('/target', '/l1');
+    await shallow.createSymlink('/l1', '/l2');
+    await shallow.createSymlink('/l2', '/l3');
+
+    expect(await shallow.realpath('/l2')).toBe('/target');
+    await expect(shallow.realpath('/l3')).rejects.toThrow(SymlinkLoopError);
+  });
+
+  describe('realpathNative', () => {
+    it('應該套用實際儲存的名稱', async () => {
+      const insensitive = createVFS({ caseSensitive: false });
+      await insensitive.writeFile('/Project/Src/Main.ts', 'x');
+      await insensitive.createSymlink('/PROJECT/SRC', '/link');
+
+      expect(await insensitive.realpath('/project/src/main.ts')).toBe('/project/src/main.ts');
+      expect(await insensitive.realpathNative('/project/src/main.ts')).toBe('/Project/Src/Main.ts');
+      expect(await insensitive.realpath('/link/MAIN.TS')).toBe('/PROJECT/SRC/MAIN.TS');
+      expect(insensitive.realpathNativeSync('/link/MAIN.TS')).toBe('/Project/Src/Main.ts');
+    });
+
+    it('應該套用實際儲存的 Unicode 形式', async () => {
+      const darwin = createVFS({ platform: 'darwin' });
+      await darwin.writeFile('/caf\u00e9.txt', 'x');
+
+      expect(await darwin.realpathNative('/cafe\u0301.txt')).toBe('/caf\u00e9.txt');
+    });
+  });
+
+  it('win32 路徑格式應該回傳 Windows 路徑', async () => {
+    const win = createVFS({ platform: 'win32', win32Roots: ['C:\\', 'D:\\'] });
+    await win.writeFile('D:\\Data\\Value.txt', 'x');
+    await win.createSymlink('D:\\Data', 'C:\\link');
+
+    expect(await win.realpath('c:\\LINK\\value.txt')).toBe('D:\\Data\\value.txt');
+    expect(await win.realpathNative('c:\\LINK\\value.txt')).toBe('D:\\Data\\Value.txt');
+  });
+
+  it('fs 轉接層的 realpath 應該與 realpathNative 相同', async () => {
+    const insensitive = createVFS({ caseSensitive: false });
+    const fs = createFsPromises(insensitive);
+    await insensitive.writeFile('/Real/File.txt', 'x');
+    await insensitive.createSymlink('/real', '/link');
+
+    expect(await fs.realpath('/LINK/file.txt')).toBe('/Real/File.txt');
+    await expect(fs.realpath('/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'realpath' });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * rename 單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, VirtualFileSystem } from '../../src/index.js';
+import {
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  DirectoryNotEmptyError,
+  FileAlreadyExistsError,
+  InvalidPathError,
+  NotAFileError,
+  NotADirectoryError,
+} from '../../src/errors/file-system-errors.js';
+
+describe('rename', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  it('應該移動檔案並保留中繼資料', async () => {
+    const fd = vfs.openSync('/a.txt', 'w', 0o600);
+    vfs.writeSync(fd, 'content');
+    vfs.closeSync(fd);
+    await vfs.createDirectory('/dest');
+
+    const before = await vfs.getStats('/a.txt');
+    await vfs.rename('/a.txt', '/dest/b.txt');
+    const after = await vfs.getStats('/dest/b.txt');
+
+    expect(await vfs.exists('/a.txt')).toBe(false);
+    expect(await vfs.readFile('/dest/b.txt', 'utf-8')).toBe('content');
+    expect(after.mode).toBe(0o600);
+    expect(after.createdTime).toEqual(before.createdTime);
+    expect(after.modifiedTime).toEqual(before.modifiedTime);
+  });
+
+  it('應該移動整個目錄', async () => {
+    await vfs.writeFile('/src/lib/index.ts', 'export {}');
+    await vfs.rename('/src', '/packages');
+
+    expect(await vfs.exists('/src')).toBe(false);
+    expect(await vfs.readFile('/packages/lib/index.ts', 'utf-8')).toBe('export {}');
+  });
+
+  it('應該移動符號連結本身而非目標', async () => {
+    await vfs.writeFile('/target.txt', 'target');
+    await vfs.createSymlink('/target.txt', '/link');
+    await vfs.rename('/link', '/moved-link');
+
+    expect(await vfs.isSymlink('/moved-link')).toBe(true);
+    expect(await vfs.readSymlink('/moved-link')).toBe('/target.txt');
+    expect(await vfs.readFile('/target.txt', 'utf-8')).toBe('target');
+  });
+
+  it('預設應該覆寫既有檔案，overwrite: false 時應該失敗', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.writeFile('/b.txt', 'b');
+    await vfs.writeFile('/c.txt', 'c');
+
+    await vfs.rename('/a.txt', '/b.txt');
+    expect(await vfs.readFile('/b.txt', 'utf-8')).toBe('a');
+
+    await expect(vfs.rename('/c.txt', '/b.txt', { overwrite: false })).rejects.toThrow(FileAlreadyExistsError);
+  });
+
+  it('目錄可以覆寫空目錄，但不能覆寫非空目錄', async () => {
+    await vfs.writeFile('/a/file.txt', 'a');
+    await vfs.createDirectory('/empty');
+    await vfs.writeFile('/full/file.txt', 'f');
+
+    await vfs.rename('/a', '/empty');
+    expect(await vfs.readFile('/empty/file.txt', 'utf-8')).toBe('a');
+    await expect(vfs.rename('/empty', '/full')).rejects.toThrow(DirectoryNotEmptyError);
+  });
+
+  it('檔案與目錄互相覆寫應該失敗', async () => {
+    await vfs.writeFile('/file.txt', 'f');
+    await vfs.createDirectory('/dir');
+
+    expect(() => vfs.renameSync('/file.txt', '/dir')).toThrow(NotAFileError);
+    expect(() => vfs.renameSync('/dir', '/file.txt')).toThrow(NotADirectoryError);
+  });
+
+  it('移動目錄到自身子目錄應該失敗', async () => {
+    await vfs.createDirectory('/a/b', true);
+    await expect(vfs.rename('/a', '/a/b/c')).rejects.toThrow(InvalidPathError);
+  });
+
+  it('來源或目的父目錄不存在應該失敗', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await expect(vfs.rename('/missing.txt', '/b.txt')).rejects.toThrow(FileNotFoundError);
+    await expect(vfs.rename('/a.txt', '/missing/b.txt')).rejects.toThrow(DirectoryNotFoundError);
+  });
+
+  it('重新命名為相同路徑應該不做任何事', async () => {
+    await vfs.writeFile('/a.txt', 'a');
+    await vfs.rename('/a.txt', '/a.txt');
+    expect(await vfs.readFile('/a.txt', 'utf-8')).toBe('a');
+  });
+
+  it('已開啟的描述符在重新命名後仍然有效', async () => {
+    await vfs.writeFile('/a.txt', 'abc');
+    const fd = vfs.openSync('/a.txt', 'r+');
+
+    await vfs.rename('/a.txt', '/b.txt');
+    vfs.writeSync(fd, 'X', 0);
+    vfs.closeSync(fd);
+
+    expect(await vfs.readFile('/b.txt', 'utf-8')).toBe('Xbc');
+  });
+});
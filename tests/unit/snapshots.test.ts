@@ -0,0 +1,222 @@
+/**
+ * 寫入時複製快照單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, VirtualFileSystem, VFSDirectory, VFSFile, DiffType } from '../../src/index.js';
+
+describe('寫入時複製快照', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/src/index.ts', 'index');
+    await vfs.writeFile('/src/lib/util.ts', 'util');
+    await vfs.writeFile('/assets/logo.png', Buffer.alloc(1024, 1));
+  });
+
+  describe('凍結節點', () => {
+    it('未變更的節點重複凍結應該回傳同一個物件', () => {
+      const dir = new VFSDirectory('dir');
+      dir.addChild(new VFSFile('a.txt', 'a'));
+
+      expect(dir.freeze()).toBe(dir.freeze());
+    });
+
+    it('變更子節點時應該只重建變更路徑上的節點', () => {
+      const root = new VFSDirectory('');
+      const changed = new VFSDirectory('changed');
+      const untouched = new VFSDirectory('untouched');
+      const file = new VFSFile('a.txt', 'a');
+      root.addChild(changed);
+      root.addChild(untouched);
+      changed.addChild(file);
+      untouched.addChild(new VFSFile('b.txt', 'b'));
+
+      const before = root.freeze();
+      file.write('changed');
+      const after = root.freeze();
+
+      expect(after).not.toBe(before);
+      expect(after.children!.get('changed')).not.toBe(before.children!.get('changed'));
+      expect(after.children!.get('untouched')).toBe(before.children!.get('untouched'));
+    });
+
+    it('凍結的內容應該與檔案共享緩衝區，之後的寫入不影響凍結的內容', () => {
+      const file = new VFSFile('a.txt', 'abcdef');
+      const frozen = file.freeze();
+
+      expect(frozen.inode.content!.buffer).toBe(file.inode.content.buffer);
+
+      file.writeAt(Buffer.from('XY'), 0);
+      file.truncate(2);
+      file.truncate(4);
+
+      expect(frozen.inode.content!.toString()).toBe('abcdef');
+      expect(file.read('utf-8')).toBe('XY\0\0');
+    });
+
+    it('clone 應該共享內容直到任一方修改', () => {
+      const file = new VFSFile('a.txt', 'abc');
+      const cloned = file.clone();
+
+      expect(cloned.inode.content.buffer).toBe(file.inode.content.buffer);
+
+      cloned.append('d');
+      file.writeAt(Buffer.from('X'), 0);
+
+      expect(file.read('utf-8')).toBe('Xbc');
+      expect(cloned.read('utf-8')).toBe('abcd');
+    });
+
+    it('存取時間的變更不應該讓凍結的狀態失效', () => {
+      const file = new VFSFile('a.txt', 'a');
+      const frozen = file.freeze();
+      file.read();
+
+      expect(file.freeze()).toBe(frozen);
+    });
+
+    it('權限的變更應該讓凍結的狀態失效', () => {
+      const file = new VFSFile('a.txt', 'a');
+      const frozen = file.freeze();
+      file.mode = 0o600;
+
+      expect(file.freeze()).not.toBe(frozen);
+      expect(file.freeze().inode.mode).toBe(0o600);
+    });
+  });
+
+  describe('建立快照', () => {
+    it('沒有變更時連續的快照應該共享相同的內容', async () => {
+      const first = vfs.createSnapshot();
+      const second = vfs.createSnapshot();
+      await vfs.writeFile('/src/index.ts', 'changed');
+      const third = vfs.createSnapshot();
+
+      expect(vfs.diff(first, second)).toEqual([]);
+      expect(vfs.diff(second, third).map(d => d.path)).toEqual(['/src/index.ts']);
+    });
+
+    it('透過硬連結修改時應該反映在另一個連結所在的目錄', async () => {
+      await vfs.link('/src/lib/util.ts', '/assets/util.ts');
+      const id = vfs.createSnapshot();
+      await vfs.appendFile('/assets/util.ts', '!');
+
+      expect(vfs.diff(id).map(d => d.path).sort()).toEqual(['/assets/util.ts', '/src/lib/util.ts']);
+    });
+
+    it('快照資訊應該反映目前的統計', async () => {
+      vfs.createSnapshot();
+      await vfs.writeFile('/src/new.ts', '12345');
+      const id = vfs.createSnapshot();
+
+      expect(vfs.getSnapshotInfo(id)).toMatchObject({ fileCount: 4, directoryCount: 4, totalSize: 1024 + 5 + 4 + 5 });
+    });
+
+    it('快照之後的就地寫入不應該影響快照內容', async () => {
+      const id = vfs.createSnapshot();
+      const fd = await vfs.open('/assets/logo.png', 'r+');
+      await vfs.write(fd, Buffer.alloc(16, 2), 0);
+      await vfs.ftruncate(fd, 8);
+      await vfs.ftruncate(fd, 2048);
+      await vfs.close(fd);
+
+      vfs.restoreSnapshot(id);
+
+      expect(await vfs.readFile('/assets/logo.png')).toEqual(Buffer.alloc(1024, 1));
+    });
+  });
+
+  describe('還原快照', () => {
+    it('未變更的檔案應該保留 inode 與已開啟的描述符', async () => {
+      const ino = (await vfs.getStats('/assets/logo.png')).ino;
+      const id = vfs.createSnapshot();
+      await vfs.writeFile('/src/index.ts', 'changed');
+      const fd = await vfs.open('/assets/logo.png', 'r');
+
+      vfs.restoreSnapshot(id);
+
+      expect((await vfs.getStats('/assets/logo.png')).ino).toBe(ino);
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('index');
+      expect((await vfs.fstat(fd)).ino).toBe(ino);
+      await vfs.close(fd);
+    });
+
+    it('應該還原新增、刪除、重新命名與類型變更', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.rename('/src/lib', '/src/LIB');
+      await vfs.deleteFile('/src/index.ts');
+      await vfs.createDirectory('/src/index.ts');
+      await vfs.writeFile('/extra.txt', 'extra');
+      await vfs.createSymlink('/src', '/link');
+
+      vfs.restoreSnapshot(id);
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('index');
+      expect(await vfs.readFile('/src/lib/util.ts', 'utf-8')).toBe('util');
+      expect((await vfs.readDirectory('/', { withFileTypes: false })).sort()).toEqual(['assets', 'src']);
+      expect((await vfs.readDirectory('/src', { withFileTypes: false })).sort()).toEqual(['index.ts', 'lib']);
+    });
+
+    it('應該還原中繼資料與延伸屬性', async () => {
+      const before = await vfs.getStats('/src');
+      const id = vfs.createSnapshot();
+      await vfs.chmod('/src', 0o700);
+      await vfs.setxattr('/src/index.ts', 'user.tag', 'x');
+
+      vfs.restoreSnapshot(id);
+
+      expect((await vfs.getStats('/src')).mode).toBe(before.mode);
+      expect(await vfs.listxattr('/src/index.ts')).toEqual([]);
+    });
+
+    it('還原後修改再還原應該正確', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.writeFile('/src/lib/util.ts', 'v2');
+      vfs.restoreSnapshot(id);
+      await vfs.appendFile('/src/lib/util.ts', '+more');
+
+      expect(await vfs.readFile('/src/lib/util.ts', 'utf-8')).toBe('util+more');
+      expect(vfs.diff(id).map(d => [d.type, d.path])).toEqual([[DiffType.Modified, '/src/lib/util.ts']]);
+
+      vfs.restoreSnapshot(id);
+      expect(await vfs.readFile('/src/lib/util.ts', 'utf-8')).toBe('util');
+    });
+
+    it('還原的檔案修改後不應該影響快照', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.deleteDirectory('/assets', true);
+      vfs.restoreSnapshot(id);
+
+      const fd = await vfs.open('/assets/logo.png', 'r+');
+      await vfs.write(fd, 'changed', 0);
+      await vfs.close(fd);
+      vfs.restoreSnapshot(id);
+
+      expect(await vfs.readFile('/assets/logo.png')).toEqual(Buffer.alloc(1024, 1));
+    });
+
+    it('還原後的下一個快照應該與原快照沒有差異', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.deleteDirectory('/src', true);
+      vfs.restoreSnapshot(id);
+
+      expect(vfs.diff(id, vfs.createSnapshot())).toEqual([]);
+    });
+  });
+
+  describe('大小寫不敏感', () => {
+    it('應該還原只變更大小寫的目錄名稱', async () => {
+      const insensitive = createVFS({ caseSensitive: false });
+      await insensitive.writeFile('/Docs/a.txt', 'a');
+      const id = insensitive.createSnapshot();
+      await insensitive.rename('/Docs', '/docs');
+
+      insensitive.restoreSnapshot(id);
+
+      expect(await insensitive.readDirectory('/', { withFileTypes: false })).toEqual(['Docs']);
+      expect(await insensitive.readFile('/docs/a.txt', 'utf-8')).toBe('a');
+    });
+  });
+});
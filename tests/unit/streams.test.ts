@@ -0,0 +1,149 @@
+/**
+ * 檔案串流單元測試
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
+import { createVFS, VirtualFileSystem, FileChangeType } from '../../src/index.js';
+import { FileNotFoundError, NotAFileError } from '../../src/errors/file-system-errors.js';
+
+/** 讀取整個串流 */
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('檔案串流', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  describe('createReadStream', () => {
+    it('應該依 highWaterMark 分段讀取完整內容', async () => {
+      const content = Buffer.alloc(10_000, 'x');
+      await vfs.writeFile('/big.bin', content);
+
+      const stream = vfs.createReadStream('/big.bin', { highWaterMark: 1024 });
+      const chunks: Buffer[] = [];
+      await new Promise<void>((resolve, reject) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', resolve);
+        stream.on('error', reject);
+      });
+
+      const sizes = chunks.map(chunk => chunk.length);
+      expect(Buffer.concat(chunks)).toEqual(content);
+      expect(Math.max(...sizes)).toBeLessThanOrEqual(1024);
+      expect(stream.bytesRead).toBe(10_000);
+    });
+
+    it('應該支援 start 與 end（含）範圍', async () => {
+      await vfs.writeFile('/a.txt', '0123456789');
+      const result = await collect(vfs.createReadStream('/a.txt', { start: 2, end: 5 }));
+      expect(result.toString()).toBe('2345');
+    });
+
+    it('不存在的檔案應該發出 FileNotFoundError', async () => {
+      await expect(collect(vfs.createReadStream('/missing.txt'))).rejects.toThrow(FileNotFoundError);
+    });
+
+    it('目錄應該發出 NotAFileError', async () => {
+      await vfs.createDirectory('/dir');
+      await expect(collect(vfs.createReadStream('/dir'))).rejects.toThrow(NotAFileError);
+    });
+  });
+
+  describe('createWriteStream', () => {
+    it('應該寫入所有區塊', async () => {
+      await vfs.createDirectory('/out');
+      await pipeline(Readable.from(['hello ', 'stream ', 'world']), vfs.createWriteStream('/out/a.txt'));
+      expect(await vfs.readFile('/out/a.txt', 'utf-8')).toBe('hello stream world');
+    });
+
+    it('應該支援 r+ 旗標與 start 位置', async () => {
+      await vfs.writeFile('/a.txt', 'hello world');
+      const stream = vfs.createWriteStream('/a.txt', { flags: 'r+', start: 6 });
+      await pipeline(Readable.from(['WORLD']), stream);
+
+      expect(await vfs.readFile('/a.txt', 'utf-8')).toBe('hello WORLD');
+      expect(stream.bytesWritten).toBe(5);
+    });
+
+    it('應該支援追加模式', async () => {
+      await vfs.writeFile('/log.txt', 'a');
+      await pipeline(Readable.from(['b', 'c']), vfs.createWriteStream('/log.txt', { flags: 'a' }));
+      expect(await vfs.readFile('/log.txt', 'utf-8')).toBe('abc');
+    });
+
+    it('父目錄不存在時應該發出錯誤', async () => {
+      await expect(pipeline(Readable.from(['x']), vfs.createWriteStream('/missing/a.txt'))).rejects.toThrow();
+    });
+
+    it('寫入目錄應該發出 NotAFileError', async () => {
+      await vfs.createDirectory('/dir');
+      await expect(pipeline(Readable.from(['x']), vfs.createWriteStream('/dir'))).rejects.toThrow(NotAFileError);
+    });
+
+    it('應該可以在串流之間複製', async () => {
+      const content = Buffer.alloc(200_000);
+      for (let i = 0; i < content.length; i++) {
+        content[i] = i % 251;
+      }
+      await vfs.writeFile('/src.bin', content);
+
+      await pipeline(vfs.createReadStream('/src.bin'), vfs.createWriteStream('/dest.bin'));
+      expect(await vfs.readFile('/dest.bin')).toEqual(content);
+    });
+  });
+
+  describe('監聽', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('寫入串流完成時才發送事件', async () => {
+      await vfs.writeFile('/a.txt', 'old');
+
+      const watcher = vfs.watch('/');
+      const handler = vi.fn();
+      watcher.on('all', handler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      const stream = vfs.createWriteStream('/a.txt');
+      stream.write('new ');
+      await vi.advanceTimersByTimeAsync(150);
+      expect(handler).not.toHaveBeenCalled();
+
+      await new Promise<void>(resolve => stream.end('content', resolve));
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toMatchObject({ type: FileChangeType.Change, path: '/a.txt' });
+      watcher.close();
+    });
+
+    it('新建檔案完成時應該發送 add 事件', async () => {
+      const watcher = vfs.watch('/');
+      const handler = vi.fn();
+      watcher.on('all', handler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await pipeline(Readable.from(['x']), vfs.createWriteStream('/new.txt'));
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0]).toMatchObject({ type: FileChangeType.Add, path: '/new.txt' });
+      watcher.close();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 同步 API 單元測試
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { createVFS, VirtualFileSystem, FileChangeType } from '../../src/index.js';
+import {
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  DirectoryNotEmptyError,
+  NotAFileError,
+  NotASymlinkError,
+  SymlinkLoopError,
+  FileAlreadyExistsError,
+} from '../../src/errors/file-system-errors.js';
+
+describe('VirtualFileSystem 同步 API', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vfs = createVFS();
+  });
+
+  describe('檔案操作', () => {
+    it('應該同步寫入、追加並讀取檔案', () => {
+      vfs.writeFileSync('/a/b.txt', 'Hello');
+      vfs.appendFileSync('/a/b.txt', ', World!');
+      expect(vfs.readFileSync('/a/b.txt', 'utf-8')).toBe('Hello, World!');
+      expect(Buffer.isBuffer(vfs.readFileSync('/a/b.txt'))).toBe(true);
+    });
+
+    it('應該支援原子寫入選項', () => {
+      vfs.writeFileSync('/a.txt', 'data', { tempSuffix: '.tmp' });
+      expect(vfs.readFileSync('/a.txt', 'utf-8')).toBe('data');
+      expect(vfs.existsSync('/a.txt.tmp')).toBe(false);
+    });
+
+    it('應該拋出與非同步版本相同的錯誤類別', () => {
+      vfs.createDirectorySync('/dir');
+      expect(() => vfs.readFileSync('/missing')).toThrow(FileNotFoundError);
+      expect(() => vfs.readFileSync('/dir')).toThrow(NotAFileError);
+      expect(() => vfs.deleteFileSync('/missing')).toThrow(FileNotFoundError);
+      expect(() => vfs.deleteFileSync('/dir')).toThrow(NotAFileError);
+    });
+
+    it('應該同步刪除檔案', () => {
+      vfs.writeFileSync('/a.txt', 'a');
+      vfs.deleteFileSync('/a.txt');
+      expect(vfs.existsSync('/a.txt')).toBe(false);
+    });
+  });
+
+  describe('目錄操作', () => {
+    it('應該同步建立、讀取並刪除目錄', () => {
+      vfs.createDirectorySync('/x/y/z', true);
+      vfs.writeFileSync('/x/file.txt', 'f');
+
+      const names = vfs.readDirectorySync('/x').map(e => e.name).sort();
+      expect(names).toEqual(['file.txt', 'y']);
+
+      expect(() => vfs.deleteDirectorySync('/x')).toThrow(DirectoryNotEmptyError);
+      vfs.deleteDirectorySync('/x', true);
+      expect(vfs.existsSync('/x')).toBe(false);
+    });
+
+    it('非遞迴模式下建立深層目錄應該失敗', () => {
+      expect(() => vfs.createDirectorySync('/a/b/c')).toThrow(DirectoryNotFoundError);
+    });
+  });
+
+  describe('狀態查詢', () => {
+    it('應該同步查詢類型與統計', () => {
+      vfs.writeFileSync('/file.txt', 'hello');
+      vfs.createSymlinkSync('/file.txt', '/link');
+
+      expect(vfs.isFileSync('/file.txt')).toBe(true);
+      expect(vfs.isDirectorySync('/')).toBe(true);
+      expect(vfs.isSymlinkSync('/link')).toBe(true);
+      expect(vfs.getStatsSync('/link').isFile).toBe(true);
+      expect(vfs.getLinkStatsSync('/link').isSymlink).toBe(true);
+      expect(() => vfs.getStatsSync('/missing')).toThrow(FileNotFoundError);
+    });
+  });
+
+  describe('複製與移動', () => {
+    it('應該同步複製與移動檔案', () => {
+      vfs.writeFileSync('/a.txt', 'content');
+      vfs.copyFileSync('/a.txt', '/b.txt');
+      vfs.moveFileSync('/b.txt', '/c.txt');
+
+      expect(vfs.readFileSync('/a.txt', 'utf-8')).toBe('content');
+      expect(vfs.existsSync('/b.txt')).toBe(false);
+      expect(vfs.readFileSync('/c.txt', 'utf-8')).toBe('content');
+    });
+  });
+
+  describe('符號連結', () => {
+    it('應該同步建立與讀取符號連結', () => {
+      vfs.writeFileSync('/target.txt', 'x');
+      vfs.createSymlinkSync('/target.txt', '/link');
+
+      expect(vfs.readSymlinkSync('/link')).toBe('/target.txt');
+      expect(() => vfs.createSymlinkSync('/target.txt', '/link')).toThrow(FileAlreadyExistsError);
+      expect(() => vfs.readSymlinkSync('/target.txt')).toThrow(NotASymlinkError);
+    });
+
+    it('應該偵測符號連結循環', () => {
+      vfs.createSymlinkSync('/b', '/a');
+      vfs.createSymlinkSync('/a', '/b');
+      expect(() => vfs.readFileSync('/a')).toThrow(SymlinkLoopError);
+    });
+  });
+
+  describe('Glob 與 JSON', () => {
+    it('globSync 應該與 glob 結果一致', async () => {
+      vfs.fromJSONSync({
+        src: { 'index.ts': '', 'util.ts': '', lib: { 'deep.ts': '' } },
+        'README.md': '',
+      });
+
+      const syncResult = vfs.globSync('**/*.ts');
+      expect(syncResult).toEqual(['/src/index.ts', '/src/lib/deep.ts', '/src/util.ts']);
+      expect(await vfs.glob('**/*.ts')).toEqual(syncResult);
+    });
+  });
+
+  describe('監聽', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('同步寫入應該通知 watcher', async () => {
+      const watcher = vfs.watch('/');
+      const addHandler = vi.fn();
+      watcher.on('add', addHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      vfs.writeFileSync('/sync.txt', 'x');
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(addHandler).toHaveBeenCalledWith(expect.objectContaining({ type: FileChangeType.Add, path: '/sync.txt' }));
+      watcher.close();
+    });
+  });
+});
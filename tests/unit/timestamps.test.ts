@@ -0,0 +1,140 @@
+/**
+ * 時間戳記單元測試
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVFS, createFsPromises, VirtualFileSystem } from '../../src/index.js';
+import { FileNotFoundError, PermissionError } from '../../src/errors/file-system-errors.js';
+
+const T0 = new Date('2024-01-01T00:00:00Z');
+const T1 = new Date('2024-01-01T00:00:10Z');
+
+describe('時間戳記', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: T0 });
+    vfs = createVFS();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('utimes', () => {
+    it('應該設定存取與修改時間並更新 ctime', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      vi.setSystemTime(T1);
+
+      await vfs.utimes('/a.txt', new Date('2020-01-01T00:00:00Z'), 1577923200.5);
+      const stats = await vfs.getStats('/a.txt');
+
+      expect(stats.accessedTime).toEqual(new Date('2020-01-01T00:00:00Z'));
+      expect(stats.modifiedTimeNs).toBe(1577923200500000000n);
+      expect(stats.modifiedTimeMs).toBe(1577923200500);
+      expect(stats.changedTime).toEqual(T1);
+    });
+
+    it('lutimes 應該只變更符號連結本身', async () => {
+      await vfs.writeFile('/target.txt', 't');
+      await vfs.createSymlink('/target.txt', '/link');
+
+      await vfs.lutimes('/link', 0, 0);
+
+      expect((await vfs.getLinkStats('/link')).modifiedTimeMs).toBe(0);
+      expect((await vfs.getStats('/target.txt')).modifiedTime).toEqual(T0);
+    });
+
+    it('futimes 應該透過描述符設定時間', async () => {
+      const fd = vfs.openSync('/a.txt', 'w');
+      vfs.futimesSync(fd, '100', '200');
+      expect(vfs.fstatSync(fd).modifiedTimeMs).toBe(200_000);
+      vfs.closeSync(fd);
+    });
+
+    it('應該拒絕不存在的路徑與非擁有者', async () => {
+      await expect(vfs.utimes('/missing', 0, 0)).rejects.toThrow(FileNotFoundError);
+
+      const strict = createVFS({ enforcePermissions: true });
+      await strict.writeFile('/a.txt', 'a');
+      strict.setCredentials({ uid: 1000, gid: 1000 });
+      expect(() => strict.utimesSync('/a.txt', 0, 0)).toThrow(PermissionError);
+      expect(() => vfs.utimesSync('/', 0, Number.NaN)).toThrow(TypeError);
+    });
+  });
+
+  describe('ctime', () => {
+    it('中繼資料變更應該只更新 ctime', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+
+      for (const change of [
+        () => vfs.chmodSync('/a.txt', 0o600),
+        () => vfs.chownSync('/a.txt', 1, 1),
+        () => vfs.linkSync('/a.txt', '/b.txt'),
+        () => vfs.renameSync('/b.txt', '/c.txt'),
+        () => vfs.deleteFileSync('/c.txt'),
+      ]) {
+        const before = vfs.getStatsSync('/a.txt');
+        change();
+        const after = vfs.getStatsSync('/a.txt');
+
+        expect(after.changedTimeNs).toBeGreaterThan(before.changedTimeNs);
+        expect(after.modifiedTimeNs).toBe(before.modifiedTimeNs);
+      }
+    });
+
+    it('寫入應該更新 mtime 與 ctime 而不更新 atime', async () => {
+      await vfs.writeFile('/a.txt', 'a');
+      vi.setSystemTime(T1);
+      await vfs.writeFile('/a.txt', 'b');
+
+      const stats = await vfs.getStats('/a.txt');
+      expect(stats.modifiedTime).toEqual(T1);
+      expect(stats.changedTime).toEqual(T1);
+      expect(stats.accessedTime).toEqual(T0);
+    });
+  });
+
+  describe('目錄修改時間', () => {
+    it('經由巢狀路徑新增項目時應該更新每個父目錄', async () => {
+      await vfs.createDirectory('/a');
+      vi.setSystemTime(T1);
+
+      await vfs.writeFile('/a/b/c/file.txt', 'x');
+
+      expect((await vfs.getStats('/a')).modifiedTime).toEqual(T1);
+      expect((await vfs.getStats('/a/b')).modifiedTime).toEqual(T1);
+      expect((await vfs.getStats('/a/b/c')).modifiedTime).toEqual(T1);
+    });
+
+    it('同一毫秒內的連續變更應該有遞增的時間', async () => {
+      await vfs.writeFile('/a.txt', '1');
+      const first = (await vfs.getStats('/a.txt')).modifiedTimeNs;
+      await vfs.writeFile('/a.txt', '2');
+      const second = (await vfs.getStats('/a.txt')).modifiedTimeNs;
+
+      expect(second).toBeGreaterThan(first);
+      expect((await vfs.getStats('/a.txt')).modifiedTime).toEqual(T0);
+    });
+  });
+
+  describe('fs.promises', () => {
+    it('Stats 應該帶有 ctime 並支援 utimes', async () => {
+      const fs = createFsPromises(vfs);
+      await fs.writeFile('/a.txt', 'a');
+      vi.setSystemTime(T1);
+
+      await fs.utimes('/a.txt', 1, 2);
+      const stats = await fs.stat('/a.txt');
+
+      expect(stats.mtimeMs).toBe(2000);
+      expect(stats.ctime).toEqual(T1);
+      expect(stats.birthtime).toEqual(T0);
+
+      const handle = await fs.open('/a.txt', 'r');
+      await handle.utimes(3, 4);
+      expect((await handle.stat()).atimeMs).toBe(3000);
+      await handle.close();
+    });
+  });
+});
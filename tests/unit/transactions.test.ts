@@ -0,0 +1,276 @@
+/**
+ * 交易單元測試
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVFS, VirtualFileSystem, TransactionConflictError, NoSpaceError } from '../../src/index.js';
+import type { FileChangeEvent } from '../../src/index.js';
+
+describe('交易', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/src/index.ts', 'v1');
+    await vfs.writeFile('/src/old.ts', 'old');
+  });
+
+  it('提交前交易外看不到變更，提交後全部可見', async () => {
+    const result = await vfs.transaction(async tx => {
+      await tx.writeFile('/src/index.ts', 'v2');
+      await tx.writeFile('/src/gen/a.ts', 'a');
+      await tx.deleteFile('/src/old.ts');
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+      expect(await vfs.exists('/src/gen')).toBe(false);
+      expect(await tx.readFile('/src/gen/a.ts', 'utf-8')).toBe('a');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+    expect(await vfs.readFile('/src/gen/a.ts', 'utf-8')).toBe('a');
+    expect(await vfs.exists('/src/old.ts')).toBe(false);
+  });
+
+  it('callback 拋出錯誤時應該捨棄所有變更並重新拋出', async () => {
+    await expect(
+      vfs.transaction(async tx => {
+        for (let i = 0; i < 50; i++) {
+          await tx.writeFile(`/out/file-${i}.ts`, `${i}`);
+        }
+        await tx.writeFile('/src/index.ts', 'broken');
+        throw new Error('generator failed');
+      })
+    ).rejects.toThrow('generator failed');
+
+    expect(await vfs.exists('/out')).toBe(false);
+    expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v1');
+  });
+
+  describe('watcher', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('應該只在提交後收到事件', async () => {
+      const events: FileChangeEvent[] = [];
+      const watcher = vfs.watch('/');
+      watcher.on('all', event => events.push(event));
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.transaction(async tx => {
+        await tx.writeFile('/src/index.ts', 'v2');
+        await tx.writeFile('/src/gen/a.ts', 'a');
+        await tx.deleteFile('/src/old.ts');
+        await vi.advanceTimersByTimeAsync(150);
+
+        expect(events).toEqual([]);
+      });
+
+      await vi.advanceTimersByTimeAsync(150);
+      watcher.close();
+
+      expect(events.map(e => [e.type, e.path]).sort()).toEqual(
+        [
+          ['addDir', '/src/gen'],
+          ['add', '/src/gen/a.ts'],
+          ['change', '/src/index.ts'],
+          ['unlink', '/src/old.ts'],
+        ].sort()
+      );
+    });
+
+    it('拋出錯誤的交易不應該發出任何事件', async () => {
+      const events: FileChangeEvent[] = [];
+      const watcher = vfs.watch('/');
+      watcher.on('all', event => events.push(event));
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(
+        vfs.transaction(async tx => {
+          await tx.writeFile('/src/index.ts', 'v2');
+          throw new Error('abort');
+        })
+      ).rejects.toThrow('abort');
+
+      await vi.advanceTimersByTimeAsync(150);
+      watcher.close();
+      expect(events).toEqual([]);
+    });
+  });
+
+  it('修改檔案應該保留 inode 與硬連結，並保留中繼資料變更', async () => {
+    await vfs.link('/src/index.ts', '/src/alias.ts');
+    const ino = (await vfs.getStats('/src/index.ts')).ino;
+
+    await vfs.transaction(async tx => {
+      await tx.writeFile('/src/index.ts', 'v2');
+      await tx.chmod('/src/index.ts', 0o600);
+      await tx.setxattr('/src', 'user.generated', 'yes');
+    });
+
+    const stats = await vfs.getStats('/src/index.ts');
+    expect(stats.ino).toBe(ino);
+    expect(stats.mode & 0o777).toBe(0o600);
+    expect(await vfs.readFile('/src/alias.ts', 'utf-8')).toBe('v2');
+    expect(await vfs.getxattr('/src', 'user.generated', 'utf-8')).toBe('yes');
+  });
+
+  it('已開啟的描述符應該看到提交後的內容', async () => {
+    const fd = await vfs.open('/src/index.ts', 'r');
+
+    await vfs.transaction(tx => tx.writeFile('/src/index.ts', 'committed'));
+
+    const buffer = Buffer.alloc(9);
+    await vfs.read(fd, buffer, 0, 9, 0);
+    expect(buffer.toString()).toBe('committed');
+    await vfs.close(fd);
+  });
+
+  it('重新命名與符號連結應該正確套用', async () => {
+    await vfs.transaction(async tx => {
+      await tx.rename('/src', '/lib');
+      await tx.createSymlink('/lib', '/src');
+    });
+
+    expect(await vfs.readFile('/lib/index.ts', 'utf-8')).toBe('v1');
+    expect(await vfs.isSymlink('/src')).toBe(true);
+    expect(await vfs.readFile('/src/old.ts', 'utf-8')).toBe('old');
+  });
+
+  it('交易應該沿用工作目錄與執行身分', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.writeFile('/home/a.txt', 'a');
+    restricted.chdir('/home');
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    await expect(restricted.transaction(tx => tx.writeFile('b.txt', 'b'))).rejects.toMatchObject({
+      name: 'PermissionError',
+    });
+    expect(await restricted.exists('/home/b.txt')).toBe(false);
+  });
+
+  it('交易中應該套用儲存空間限制', async () => {
+    const limited = createVFS({ maxTotalBytes: 4 });
+
+    await expect(limited.transaction(tx => tx.writeFile('/a.txt', '12345'))).rejects.toThrow(NoSpaceError);
+  });
+
+  it('交易中的儲存空間統計應該與交易外相同，並正確計算硬連結', async () => {
+    await vfs.writeFile('/data/a/x.txt', '1234');
+    await vfs.createDirectory('/data/b/deep/er', true);
+    await vfs.link('/data/a/x.txt', '/data/b/y.txt');
+    await vfs.writeFile('/data/b/deep/er/z.txt', '56');
+    const before = vfs.statfsSync();
+
+    await vfs.transaction(async tx => {
+      expect(tx.statfsSync()).toEqual(before);
+
+      await tx.deleteFile('/data/a/x.txt');
+      expect(tx.statfsSync().usedBytes).toBe(before.usedBytes);
+      expect(tx.statfsSync().usedInodes).toBe(before.usedInodes);
+
+      await tx.deleteFile('/data/b/y.txt');
+      expect(tx.statfsSync().usedBytes).toBe(before.usedBytes - 4);
+      expect(tx.statfsSync().usedInodes).toBe(before.usedInodes - 1);
+    });
+
+    expect(vfs.statfsSync().usedBytes).toBe(before.usedBytes - 4);
+    expect(await vfs.readFile('/data/b/deep/er/z.txt', 'utf-8')).toBe('56');
+  });
+
+  it('交易未存取的目錄與檔案應該保留原本的 inode', async () => {
+    await vfs.writeFile('/other/deep/file.txt', 'keep');
+    const ino = (await vfs.getStats('/other/deep/file.txt')).ino;
+
+    await vfs.transaction(async tx => {
+      await tx.writeFile('/src/index.ts', 'v2');
+      expect(await tx.readFile('/other/deep/file.txt', 'utf-8')).toBe('keep');
+    });
+
+    expect((await vfs.getStats('/other/deep/file.txt')).ino).toBe(ino);
+    expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('v2');
+  });
+
+  it('transactionSync 應該同步提交', () => {
+    const count = vfs.transactionSync(tx => {
+      tx.writeFileSync('/src/a.ts', 'a');
+      tx.writeFileSync('/src/b.ts', 'b');
+      return tx.readDirectorySync('/src').length;
+    });
+
+    expect(count).toBe(4);
+    expect(vfs.readFileSync('/src/b.ts', 'utf-8')).toBe('b');
+  });
+
+  describe('衝突偵測', () => {
+    it('交易外修改了交易變更的檔案時應該拋出 TransactionConflictError 且不套用任何變更', async () => {
+      const promise = vfs.transaction(
+        async tx => {
+          await tx.writeFile('/src/new.ts', 'new');
+          await tx.writeFile('/src/index.ts', 'from tx');
+          await vfs.writeFile('/src/index.ts', 'from outside');
+        },
+        { detectConflicts: true }
+      );
+
+      await expect(promise).rejects.toThrow(TransactionConflictError);
+      await expect(promise).rejects.toMatchObject({ posixCode: 'EBUSY', path: '/src/index.ts' });
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('from outside');
+      expect(await vfs.exists('/src/new.ts')).toBe(false);
+    });
+
+    it('交易外新增了交易也新增的路徑時應該視為衝突', async () => {
+      await expect(
+        vfs.transaction(
+          async tx => {
+            await tx.writeFile('/src/new.ts', 'tx');
+            await vfs.writeFile('/src/new.ts', 'outside');
+          },
+          { detectConflicts: true }
+        )
+      ).rejects.toThrow(TransactionConflictError);
+    });
+
+    it('交易刪除的目錄在交易外被修改時應該視為衝突', async () => {
+      await expect(
+        vfs.transaction(
+          async tx => {
+            await tx.deleteDirectory('/src', true);
+            await vfs.writeFile('/src/late.ts', 'late');
+          },
+          { detectConflicts: true }
+        )
+      ).rejects.toThrow(TransactionConflictError);
+    });
+
+    it('交易外變更其他路徑不應該視為衝突，且兩邊的變更都保留', async () => {
+      await vfs.transaction(
+        async tx => {
+          await tx.writeFile('/src/index.ts', 'from tx');
+          await vfs.writeFile('/src/other.ts', 'outside');
+          await vfs.readFile('/src/index.ts');
+        },
+        { detectConflicts: true }
+      );
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('from tx');
+      expect(await vfs.readFile('/src/other.ts', 'utf-8')).toBe('outside');
+    });
+
+    it('未啟用偵測時交易的變更應該覆寫交易外的變更', async () => {
+      await vfs.transaction(async tx => {
+        await tx.writeFile('/src/index.ts', 'from tx');
+        await vfs.writeFile('/src/index.ts', 'from outside');
+        await vfs.deleteDirectory('/src', true);
+      });
+
+      expect(await vfs.readFile('/src/index.ts', 'utf-8')).toBe('from tx');
+    });
+  });
+});
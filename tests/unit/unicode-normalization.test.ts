@@ -0,0 +1,87 @@
+/**
+ * Unicode 正規化單元測試
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createVFS, FileChangeType } from '../../src/index.js';
+
+const NFC = 'café.txt';
+const NFD = 'café.txt';
+
+describe('unicodeNormalization', () => {
+  it('none 應該將 NFC 與 NFD 視為不同檔案', async () => {
+    const vfs = createVFS();
+    await vfs.writeFile(`/${NFC}`, 'nfc');
+    await vfs.writeFile(`/${NFD}`, 'nfd');
+
+    expect(await vfs.readDirectory('/')).toHaveLength(2);
+  });
+
+  it('nfd 應該以 NFD 儲存並接受任一形式查找', async () => {
+    const vfs = createVFS({ unicodeNormalization: 'nfd' });
+    await vfs.writeFile(`/${NFC}`, 'one');
+    await vfs.writeFile(`/${NFD}`, 'two');
+
+    const entries = await vfs.readDirectory('/');
+    expect(entries.map(e => e.name)).toEqual([NFD]);
+    expect(entries[0].path).toBe(`/${NFD}`);
+    expect(await vfs.readFile(`/${NFC}`, 'utf-8')).toBe('two');
+  });
+
+  it('nfc 應該以 NFC 儲存', async () => {
+    const vfs = createVFS({ unicodeNormalization: 'nfc' });
+    await vfs.createDirectory(`/${NFD}-dir`);
+    await vfs.writeFile(`/${NFD}-dir/${NFD}`, 'x');
+
+    expect(await vfs.glob('**', { onlyFiles: true })).toEqual([`/${NFC}-dir/${NFC}`]);
+  });
+
+  it('insensitive 應該保留原名稱並忽略正規化差異', async () => {
+    const vfs = createVFS({ unicodeNormalization: 'insensitive' });
+    await vfs.writeFile(`/${NFD}`, 'one');
+    await vfs.writeFile(`/${NFC}`, 'two');
+
+    expect((await vfs.readDirectory('/')).map(e => e.name)).toEqual([NFD]);
+    expect(await vfs.readFile(`/${NFC}`, 'utf-8')).toBe('two');
+
+    await vfs.rename(`/${NFD}`, `/${NFC}`);
+    expect((await vfs.readDirectory('/')).map(e => e.name)).toEqual([NFC]);
+  });
+
+  it('應該可與 caseSensitive: false 組合', async () => {
+    const vfs = createVFS({ unicodeNormalization: 'insensitive', caseSensitive: false });
+    await vfs.writeFile(`/${NFC}`, 'x');
+
+    expect(await vfs.exists('/CAFÉ.TXT')).toBe(true);
+  });
+
+  it('glob 應該忽略 pattern 與名稱的正規化差異', async () => {
+    const vfs = createVFS({ unicodeNormalization: 'nfd' });
+    await vfs.writeFile(`/docs/${NFC}`, 'x');
+    await vfs.writeFile('/docs/other.txt', 'x');
+
+    expect(await vfs.glob(`docs/café*`)).toEqual([`/docs/${NFD}`]);
+    expect(await vfs.glob('docs/*', { ignore: [NFC] })).toEqual(['/docs/other.txt']);
+  });
+
+  describe('監聽', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('事件路徑應該使用儲存形式', async () => {
+      vi.useFakeTimers();
+      const vfs = createVFS({ unicodeNormalization: 'nfd' });
+      const watcher = vfs.watch('/');
+      const allHandler = vi.fn();
+      watcher.on('all', allHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.writeFile(`/${NFC}`, 'x');
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(allHandler).toHaveBeenCalledWith(expect.objectContaining({ type: FileChangeType.Add, path: `/${NFD}` }));
+      watcher.close();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * 使用量統計單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createVFS, VirtualFileSystem, FileNotFoundError, PermissionError } from '../../src/index.js';
+
+describe('usage', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/dist/index.js', '12345');
+    await vfs.writeFile('/dist/index.js.map', '1234567890');
+    await vfs.writeFile('/dist/assets/logo.svg', '123');
+    await vfs.writeFile('/dist/assets/app.js', '12');
+    await vfs.writeFile('/dist/LICENSE', '1');
+  });
+
+  it('應該統計總大小與各類型數量（計入路徑本身）', async () => {
+    const usage = await vfs.usage('/dist', { depth: 0 });
+
+    expect(usage).toEqual({
+      path: '/dist',
+      size: 21,
+      fileCount: 5,
+      directoryCount: 2,
+      symlinkCount: 0,
+    });
+  });
+
+  it('預設應該包含一層子項目明細', async () => {
+    const usage = vfs.usageSync('/dist');
+
+    expect(usage.children?.map(c => [c.path, c.size, c.fileCount])).toEqual([
+      ['/dist/index.js', 5, 1],
+      ['/dist/index.js.map', 10, 1],
+      ['/dist/assets', 5, 2],
+      ['/dist/LICENSE', 1, 1],
+    ]);
+    expect(usage.children?.[2].children).toBeUndefined();
+  });
+
+  it('depth 應該決定明細的層數', async () => {
+    const usage = await vfs.usage('/', { depth: 3 });
+    const dist = usage.children?.[0];
+    const assets = dist?.children?.find(c => c.path === '/dist/assets');
+
+    expect(usage.size).toBe(21);
+    expect(assets?.children?.map(c => c.path)).toEqual(['/dist/assets/logo.svg', '/dist/assets/app.js']);
+    expect(assets?.children?.[0].children).toBeUndefined();
+  });
+
+  it('byExtension 應該依副檔名分組統計', async () => {
+    const usage = await vfs.usage('/dist', { byExtension: true });
+
+    expect(usage.byExtension).toEqual({
+      '.js': { size: 7, fileCount: 2 },
+      '.map': { size: 10, fileCount: 1 },
+      '.svg': { size: 3, fileCount: 1 },
+      '': { size: 1, fileCount: 1 },
+    });
+    expect(usage.children?.find(c => c.path === '/dist/assets')?.byExtension).toEqual({
+      '.svg': { size: 3, fileCount: 1 },
+      '.js': { size: 2, fileCount: 1 },
+    });
+  });
+
+  it('單一檔案應該回傳該檔案的統計', async () => {
+    expect(await vfs.usage('/dist/index.js')).toEqual({
+      path: '/dist/index.js',
+      size: 5,
+      fileCount: 1,
+      directoryCount: 0,
+      symlinkCount: 0,
+    });
+  });
+
+  it('硬連結只應該計算一次大小', async () => {
+    await vfs.link('/dist/index.js.map', '/dist/copy.map');
+
+    const usage = await vfs.usage('/dist');
+
+    expect(usage.size).toBe(21);
+    expect(usage.fileCount).toBe(6);
+  });
+
+  it('預設不跟隨符號連結，followSymlinks 時計入目標', async () => {
+    await vfs.writeFile('/shared/big.bin', '0123456789');
+    await vfs.createSymlink('/shared', '/dist/shared');
+
+    const plain = await vfs.usage('/dist');
+    const followed = await vfs.usage('/dist', { followSymlinks: true });
+
+    expect(plain).toMatchObject({ size: 21, symlinkCount: 1, directoryCount: 2 });
+    expect(followed).toMatchObject({ size: 31, symlinkCount: 0, directoryCount: 3, fileCount: 6 });
+  });
+
+  it('followSymlinks 時斷開或循環的連結應該計為符號連結', async () => {
+    await vfs.createSymlink('/missing', '/dist/broken');
+    await vfs.createSymlink('/dist', '/dist/assets/up');
+
+    const usage = await vfs.usage('/dist', { followSymlinks: true });
+
+    expect(usage).toMatchObject({ size: 21, symlinkCount: 2, directoryCount: 2 });
+  });
+
+  it('路徑不存在時應該拋出 FileNotFoundError', async () => {
+    await expect(vfs.usage('/missing')).rejects.toThrow(FileNotFoundError);
+  });
+
+  it('無法讀取的目錄應該拋出 PermissionError', async () => {
+    const restricted = createVFS({ enforcePermissions: true });
+    await restricted.writeFile('/top/private/a.txt', 'x');
+    await restricted.chmod('/top/private', 0o311);
+    restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+    await expect(restricted.usage('/top')).rejects.toThrow(PermissionError);
+  });
+
+  it('win32 路徑格式應該回傳 Windows 路徑', async () => {
+    const win = createVFS({ platform: 'win32' });
+    await win.writeFile('C:\\out\\a.txt', 'abc');
+
+    const usage = await win.usage('C:\\out');
+
+    expect(usage.path).toBe('C:\\out');
+    expect(usage.children?.[0].path).toBe('C:\\out\\a.txt');
+  });
+});
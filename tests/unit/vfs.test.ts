@@ -257,6 +257,14 @@ describe('VirtualFileSystem', () => {
       await vfs.writeFile('/file.txt', 'content');
       await expect(vfs.readSymlink('/file.txt')).rejects.toThrow(NotASymlinkError);
     });
+
+    it('相對目標應該以連結所在目錄為基準', async () => {
+      await vfs.writeFile('/dir/target.txt', 'nested');
+      await vfs.writeFile('/target.txt', 'root');
+      await vfs.createSymlink('target.txt', '/dir/link.txt');
+
+      expect(await vfs.readFile('/dir/link.txt', 'utf-8')).toBe('nested');
+    });
   });
 
   // ============================================================
@@ -306,6 +314,11 @@ describe('VirtualFileSystem', () => {
       expect(dirs).not.toContain('/README.md');
     });
 
+    it('應該從根目錄匹配含目錄前綴的 pattern', async () => {
+      expect(await vfs.glob('src/*.ts')).toEqual(['/src/index.ts']);
+      expect(await vfs.glob('*.md', { absolute: false })).toEqual(['README.md']);
+    });
+
     it('應該支援忽略規則', async () => {
       const files = await vfs.glob('**/*.ts', { ignore: ['**/tests/**'] });
       expect(files).not.toContain('/tests/index.test.ts');
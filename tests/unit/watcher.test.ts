@@ -271,4 +271,72 @@ describe('VFSWatcher', () => {
       watcher.close();
     });
   });
+
+  describe('重新命名', () => {
+    it('應該發送包含原路徑的 rename 事件', async () => {
+      await vfs.writeFile('/old.txt', 'content');
+
+      const watcher = vfs.watch('/');
+      const renameHandler = vi.fn();
+      const allHandler = vi.fn();
+
+      watcher.on('rename', renameHandler);
+      watcher.on('all', allHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.rename('/old.txt', '/new.txt');
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(allHandler).toHaveBeenCalledTimes(1);
+      const event = renameHandler.mock.calls[0][0];
+      expect(event.type).toBe(FileChangeType.Rename);
+      expect(event.path).toBe('/new.txt');
+      expect(event.oldPath).toBe('/old.txt');
+
+      watcher.close();
+    });
+
+    it('移出監聽範圍應該視為刪除，移入應該視為新增', async () => {
+      await vfs.writeFile('/watched/a.txt', 'a');
+      await vfs.writeFile('/outside/b.txt', 'b');
+
+      const watcher = vfs.watch('/watched');
+      const allHandler = vi.fn();
+
+      watcher.on('all', allHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.rename('/watched/a.txt', '/outside/a.txt');
+      await vfs.rename('/outside/b.txt', '/watched/b.txt');
+      await vi.advanceTimersByTimeAsync(150);
+
+      const events = allHandler.mock.calls.map(call => [call[0].type, call[0].path]);
+      expect(events).toEqual([
+        [FileChangeType.Unlink, '/watched/a.txt'],
+        [FileChangeType.Add, '/watched/b.txt'],
+      ]);
+
+      watcher.close();
+    });
+
+    it('重新命名目錄後，子路徑的後續修改應該視為 change', async () => {
+      await vfs.writeFile('/dir/file.txt', 'v1');
+
+      const watcher = vfs.watch('/');
+      const changeHandler = vi.fn();
+
+      watcher.on('change', changeHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await vfs.rename('/dir', '/renamed');
+      await vi.advanceTimersByTimeAsync(150);
+      await vfs.writeFile('/renamed/file.txt', 'v2');
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(changeHandler).toHaveBeenCalledTimes(1);
+      expect(changeHandler.mock.calls[0][0].path).toBe('/renamed/file.txt');
+
+      watcher.close();
+    });
+  });
 });
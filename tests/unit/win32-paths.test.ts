@@ -0,0 +1,227 @@
+/**
+ * Windows 路徑格式單元測試
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createVFS,
+  createFsPromises,
+  win32Path,
+  posixPath,
+  createPathModule,
+  DirectoryNotFoundError,
+  InvalidPathError,
+  DirectoryNotEmptyError,
+  FileChangeType,
+} from '../../src/index.js';
+import type { WatcherEvent } from '../../src/index.js';
+
+describe('win32Path', () => {
+  it('normalize 應該處理分隔符號、. 與 ..，且不超出根目錄', () => {
+    expect(win32Path.normalize('C:/a//b/./c/..')).toBe('C:\\a\\b');
+    expect(win32Path.normalize('C:\\..\\x')).toBe('C:\\x');
+    expect(win32Path.normalize('\\\\server\\share\\..\\a')).toBe('\\\\server\\share\\a');
+    expect(win32Path.normalize('a\\..\\..\\b')).toBe('..\\b');
+  });
+
+  it('isAbsolute 與 root 應該辨識磁碟機與 UNC 根目錄', () => {
+    expect(win32Path.isAbsolute('C:\\a')).toBe(true);
+    expect(win32Path.isAbsolute('\\a')).toBe(true);
+    expect(win32Path.isAbsolute('C:a')).toBe(false);
+    expect(win32Path.isAbsolute('a\\b')).toBe(false);
+    expect(win32Path.root('\\\\server\\share\\dir')).toBe('\\\\server\\share\\');
+    expect(win32Path.root('D:relative')).toBe('D:');
+  });
+
+  it('dirname 與 basename 應該保留根目錄', () => {
+    expect(win32Path.dirname('C:\\a\\b.txt')).toBe('C:\\a');
+    expect(win32Path.dirname('C:\\a')).toBe('C:\\');
+    expect(win32Path.dirname('C:\\')).toBe('C:\\');
+    expect(win32Path.dirname('\\\\server\\share\\a')).toBe('\\\\server\\share\\');
+    expect(win32Path.basename('C:\\a\\b.txt', '.txt')).toBe('b');
+    expect(win32Path.basename('C:\\')).toBe('');
+  });
+
+  it('join 應該以反斜線組合', () => {
+    expect(win32Path.join('C:\\a', 'b/c', '..', 'd')).toBe('C:\\a\\b\\d');
+    expect(win32Path.join('\\\\server\\share', 'x')).toBe('\\\\server\\share\\x');
+    expect(win32Path.join()).toBe('.');
+  });
+
+  it('resolve 應該由右至左組合並補上預設磁碟機', () => {
+    expect(win32Path.resolve('a\\b')).toBe('C:\\a\\b');
+    expect(win32Path.resolve('D:\\x', 'y')).toBe('D:\\x\\y');
+    expect(win32Path.resolve('D:\\x', '\\y')).toBe('D:\\y');
+    expect(win32Path.resolve('D:\\x', 'E:\\z', '..\\w')).toBe('E:\\w');
+    expect(win32Path.resolve('\\\\server\\share\\a', '..\\..\\b')).toBe('\\\\server\\share\\b');
+    expect(createPathModule('win32', 'D:\\').resolve('x')).toBe('D:\\x');
+  });
+
+  it('relative 應該不區分大小寫，且跨根目錄時回傳絕對路徑', () => {
+    expect(win32Path.relative('C:\\a\\b', 'c:\\A\\c\\d')).toBe('..\\c\\d');
+    expect(win32Path.relative('C:\\a', 'C:\\A')).toBe('');
+    expect(win32Path.relative('C:\\a', 'D:\\b')).toBe('D:\\b');
+  });
+
+  it('posixPath 應該維持 POSIX 行為', () => {
+    expect(posixPath.sep).toBe('/');
+    expect(posixPath.resolve('a', '../b')).toBe('/b');
+    expect(posixPath.root('/a')).toBe('/');
+    expect(posixPath.root('a')).toBe('');
+  });
+});
+
+describe('win32 路徑格式', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('應該接受磁碟機路徑並以 Windows 格式回傳', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+    await vfs.writeFile('C:\\Users\\me\\notes.txt', 'hi');
+
+    expect(await vfs.readFile('c:/users/ME/notes.txt', 'utf-8')).toBe('hi');
+    expect((await vfs.readDirectory('C:\\Users')).map(e => e.path)).toEqual(['C:\\Users\\me']);
+    expect(await vfs.glob('**/*.txt')).toEqual(['C:\\Users\\me\\notes.txt']);
+    expect(await vfs.glob('**/*.txt', { cwd: 'C:\\Users', absolute: false })).toEqual(['me\\notes.txt']);
+  });
+
+  it('沒有磁碟機的路徑應該使用第一個根目錄', async () => {
+    const vfs = createVFS({ pathStyle: 'win32', win32Roots: ['D:\\', 'C:\\'] });
+    await vfs.writeFile('\\app\\a.txt', 'a');
+    await vfs.writeFile('b.txt', 'b');
+
+    expect(await vfs.readFile('D:\\app\\a.txt', 'utf-8')).toBe('a');
+    expect(await vfs.exists('D:\\b.txt')).toBe(true);
+    expect(await vfs.exists('C:\\app\\a.txt')).toBe(false);
+    expect(vfs.path.resolve('x')).toBe('D:\\x');
+  });
+
+  it('各磁碟機應該互相獨立，未設定的磁碟機不存在', async () => {
+    const vfs = createVFS({ platform: 'win32', win32Roots: ['C:\\', 'D:\\'] });
+    await vfs.writeFile('C:\\same.txt', 'c');
+    await vfs.writeFile('D:\\same.txt', 'd');
+
+    expect(await vfs.readFile('D:\\same.txt', 'utf-8')).toBe('d');
+    await expect(vfs.writeFile('Z:\\a.txt', 'x')).rejects.toThrow(DirectoryNotFoundError);
+    await expect(vfs.createDirectory('Z:\\a\\b', true)).rejects.toThrow(DirectoryNotFoundError);
+    expect(await vfs.exists('Z:\\')).toBe(false);
+  });
+
+  it('應該支援 UNC 共用資料夾根目錄', async () => {
+    const vfs = createVFS({ platform: 'win32', win32Roots: ['C:\\', '\\\\server\\share'] });
+    await vfs.writeFile('\\\\server\\share\\docs\\a.txt', 'unc');
+
+    expect(await vfs.readFile('//SERVER/share/docs/../docs/a.txt', 'utf-8')).toBe('unc');
+    expect((await vfs.readDirectory('\\\\server\\share\\docs'))[0].path).toBe('\\\\server\\share\\docs\\a.txt');
+    expect(await vfs.exists('C:\\server\\share\\docs\\a.txt')).toBe(false);
+  });
+
+  it('.. 不應該超出磁碟機根目錄', async () => {
+    const vfs = createVFS({ platform: 'win32', win32Roots: ['C:\\', 'D:\\'] });
+    await vfs.writeFile('C:\\..\\..\\a.txt', 'a');
+
+    expect(await vfs.readFile('C:\\a.txt', 'utf-8')).toBe('a');
+  });
+
+  it('磁碟機名稱不應該受路徑規則限制，其餘部分仍然驗證', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+
+    await expect(vfs.writeFile('C:\\a:b.txt', 'x')).rejects.toThrow(InvalidPathError);
+    await expect(vfs.writeFile('C:\\dir\\CON', 'x')).rejects.toThrow(InvalidPathError);
+  });
+
+  it('刪除磁碟機根目錄應該只清空內容', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+    await vfs.writeFile('C:\\a\\b.txt', 'x');
+
+    await expect(vfs.deleteDirectory('C:\\')).rejects.toThrow(DirectoryNotEmptyError);
+    await vfs.deleteDirectory('C:\\', true);
+
+    expect(await vfs.readDirectory('C:\\')).toEqual([]);
+    expect(await vfs.isDirectory('C:\\')).toBe(true);
+    await expect(vfs.rename('C:\\', 'C:\\x')).rejects.toThrow(InvalidPathError);
+  });
+
+  it('reset 應該保留磁碟機根目錄', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+    await vfs.writeFile('C:\\a.txt', 'x');
+    vfs.reset();
+
+    await vfs.writeFile('C:\\b.txt', 'y');
+    expect(await vfs.glob('*')).toEqual(['C:\\b.txt']);
+  });
+
+  it('符號連結應該接受 Windows 絕對與相對目標', async () => {
+    const vfs = createVFS({ platform: 'win32', win32Roots: ['C:\\', 'D:\\'] });
+    await vfs.writeFile('D:\\data\\value.txt', 'd');
+    await vfs.writeFile('C:\\app\\local.txt', 'c');
+    await vfs.createSymlink('D:\\data', 'C:\\app\\data');
+    await vfs.createSymlink('..\\app\\local.txt', 'C:\\app\\rel.txt');
+
+    expect(await vfs.readFile('C:\\app\\data\\value.txt', 'utf-8')).toBe('d');
+    expect(await vfs.readFile('C:\\app\\rel.txt', 'utf-8')).toBe('c');
+  });
+
+  it('watcher 事件應該回傳 Windows 路徑', async () => {
+    vi.useFakeTimers();
+    const vfs = createVFS({ platform: 'win32' });
+    await vfs.createDirectory('C:\\src');
+
+    const events: WatcherEvent[] = [];
+    const watcher = vfs.watch('c:\\SRC', { debounce: 0, ignoreInitial: true });
+    watcher.on('all', event => events.push(event as WatcherEvent));
+
+    await vfs.writeFile('C:\\src\\a.ts', 'x');
+    await vi.runAllTimersAsync();
+    await vfs.rename('C:\\src\\a.ts', 'C:\\src\\b.ts');
+    await vi.runAllTimersAsync();
+
+    expect(watcher.path).toBe('C:\\src');
+    expect(events.map(e => [e.type, e.path, e.oldPath])).toEqual([
+      [FileChangeType.Add, 'C:\\src\\a.ts', undefined],
+      [FileChangeType.Rename, 'C:\\src\\b.ts', 'C:\\src\\a.ts'],
+    ]);
+    watcher.close();
+  });
+
+  it('toJSON 與 diff 應該使用 Windows 路徑', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+    const snapshot = vfs.createSnapshot();
+    await vfs.writeFile('C:\\a\\b.txt', 'x');
+
+    expect(vfs.toJSON('C:\\', { flatten: true })).toEqual({ 'C:\\a\\b.txt': 'x' });
+    expect(vfs.diff(snapshot).map(d => d.path)).toEqual(['C:\\a\\b.txt']);
+
+    const copy = createVFS({ platform: 'win32' });
+    copy.fromJSONSync(vfs.toJSON('C:\\', { flatten: true }));
+    expect(await copy.readFile('C:\\a\\b.txt', 'utf-8')).toBe('x');
+  });
+
+  it('fs 轉接層應該回傳 Windows 路徑', async () => {
+    const vfs = createVFS({ platform: 'win32' });
+    const fs = createFsPromises(vfs);
+    await vfs.writeFile('C:\\real\\dir\\file.txt', 'x');
+    await vfs.createSymlink('C:\\real', 'C:\\abs');
+    await vfs.createSymlink('dir', 'C:\\real\\rel');
+
+    expect(await fs.realpath('c:/abs/rel/file.txt')).toBe('C:\\real\\dir\\file.txt');
+    expect(await fs.readdir('C:\\real\\dir', { recursive: false })).toEqual(['file.txt']);
+    expect(await fs.readdir('C:\\real', { recursive: true })).toContain('dir\\file.txt');
+    expect(await fs.mkdir('C:\\x\\y\\z', { recursive: true })).toBe('C:\\x');
+  });
+
+  it('posix 平台也可以明確使用 win32 路徑格式', async () => {
+    const vfs = createVFS({ pathStyle: 'win32' });
+    await vfs.writeFile('C:\\CON', 'x');
+    await vfs.writeFile('C:\\Case.txt', 'a');
+    await vfs.writeFile('C:\\case.txt', 'b');
+
+    expect(await vfs.readDirectory('C:\\')).toHaveLength(3);
+  });
+
+  it('無效的根目錄設定應該拋出錯誤', () => {
+    expect(() => createVFS({ pathStyle: 'win32', win32Roots: ['C:\\dir'] })).toThrow(InvalidPathError);
+    expect(() => createVFS({ pathStyle: 'win32', win32Roots: ['relative'] })).toThrow(InvalidPathError);
+  });
+});
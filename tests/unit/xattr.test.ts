@@ -0,0 +1,220 @@
+/**
+ * 延伸屬性單元測試
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createVFS,
+  VirtualFileSystem,
+  VFSDirectory,
+  VFSFile,
+  FileNotFoundError,
+  PermissionError,
+  XattrNotFoundError,
+  XattrAlreadyExistsError,
+  XattrTooLargeError,
+} from '../../src/index.js';
+
+describe('延伸屬性', () => {
+  let vfs: VirtualFileSystem;
+
+  beforeEach(async () => {
+    vfs = createVFS();
+    await vfs.writeFile('/data/a.txt', 'hello');
+  });
+
+  describe('基本操作', () => {
+    it('應該可以設定、讀取、列出與移除屬性', async () => {
+      await vfs.setxattr('/data/a.txt', 'user.checksum', 'abc123');
+      await vfs.setxattr('/data/a.txt', 'user.raw', Buffer.from([0, 255, 1]));
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.checksum', 'utf-8')).toBe('abc123');
+      expect(await vfs.getxattr('/data/a.txt', 'user.raw')).toEqual(Buffer.from([0, 255, 1]));
+      expect(await vfs.listxattr('/data/a.txt')).toEqual(['user.checksum', 'user.raw']);
+
+      await vfs.removexattr('/data/a.txt', 'user.checksum');
+      expect(vfs.listxattrSync('/data/a.txt')).toEqual(['user.raw']);
+    });
+
+    it('目錄也應該可以設定屬性', () => {
+      vfs.setxattrSync('/data', 'user.owner', 'team');
+
+      expect(vfs.getxattrSync('/data', 'user.owner', 'utf-8')).toBe('team');
+    });
+
+    it('回傳的值應該是複本', async () => {
+      const value = Buffer.from('abc');
+      await vfs.setxattr('/data/a.txt', 'user.v', value);
+      value[0] = 0x7a;
+
+      const read = (await vfs.getxattr('/data/a.txt', 'user.v')) as Buffer;
+      read[1] = 0x7a;
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('abc');
+    });
+
+    it('設定與移除屬性應該更新 ctime 而不更新 mtime', async () => {
+      const before = await vfs.getStats('/data/a.txt');
+      await vfs.setxattr('/data/a.txt', 'user.v', 'x');
+      const after = await vfs.getStats('/data/a.txt');
+
+      expect(after.changedTimeNs).toBeGreaterThan(before.changedTimeNs);
+      expect(after.modifiedTimeNs).toBe(before.modifiedTimeNs);
+    });
+
+    it('應該跟隨符號連結', async () => {
+      await vfs.createSymlink('/data/a.txt', '/link');
+      await vfs.setxattr('/link', 'user.v', 'x');
+
+      expect(await vfs.listxattr('/data/a.txt')).toEqual(['user.v']);
+    });
+
+    it('硬連結應該共享屬性', async () => {
+      await vfs.link('/data/a.txt', '/data/b.txt');
+      await vfs.setxattr('/data/b.txt', 'user.v', 'x');
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('x');
+    });
+  });
+
+  describe('錯誤處理', () => {
+    it('讀取或移除不存在的屬性應該拋出 XattrNotFoundError（ENODATA）', async () => {
+      await expect(vfs.getxattr('/data/a.txt', 'user.none')).rejects.toThrow(XattrNotFoundError);
+      await expect(vfs.removexattr('/data/a.txt', 'user.none')).rejects.toMatchObject({
+        posixCode: 'ENODATA',
+        syscall: 'removexattr',
+      });
+    });
+
+    it('flag 應該限制建立或取代', async () => {
+      await expect(vfs.setxattr('/data/a.txt', 'user.v', 'x', { flag: 'replace' })).rejects.toThrow(XattrNotFoundError);
+      await vfs.setxattr('/data/a.txt', 'user.v', 'x', { flag: 'create' });
+      await expect(vfs.setxattr('/data/a.txt', 'user.v', 'y', { flag: 'create' })).rejects.toThrow(
+        XattrAlreadyExistsError
+      );
+      await vfs.setxattr('/data/a.txt', 'user.v', 'y', { flag: 'replace' });
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('y');
+    });
+
+    it('超過 maxXattrSize 時應該拋出 XattrTooLargeError（E2BIG）', async () => {
+      const limited = createVFS({ maxXattrSize: 4 });
+      await limited.writeFile('/a.txt', '');
+      await limited.setxattr('/a.txt', 'user.v', '1234');
+
+      await expect(limited.setxattr('/a.txt', 'user.v', '12345')).rejects.toThrow(XattrTooLargeError);
+      await expect(limited.setxattr('/a.txt', 'user.v', '中文')).rejects.toMatchObject({ posixCode: 'E2BIG' });
+      expect(await limited.getxattr('/a.txt', 'user.v', 'utf-8')).toBe('1234');
+    });
+
+    it('預設上限應該為 64 KiB', async () => {
+      await vfs.setxattr('/data/a.txt', 'user.v', Buffer.alloc(65536));
+
+      await expect(vfs.setxattr('/data/a.txt', 'user.v', Buffer.alloc(65537))).rejects.toThrow(XattrTooLargeError);
+    });
+
+    it('路徑不存在時應該拋出 FileNotFoundError', async () => {
+      await expect(vfs.listxattr('/missing')).rejects.toThrow(FileNotFoundError);
+    });
+
+    it('空白的屬性名稱應該拋出 TypeError', async () => {
+      expect(() => vfs.setxattrSync('/data/a.txt', '', 'x')).toThrow(TypeError);
+    });
+
+    it('應該依權限限制讀取與寫入', async () => {
+      const restricted = createVFS({ enforcePermissions: true });
+      await restricted.writeFile('/a.txt', 'x');
+      await restricted.setxattr('/a.txt', 'user.v', 'x');
+      await restricted.chmod('/a.txt', 0o600);
+      restricted.setCredentials({ uid: 1000, gid: 1000 });
+
+      await expect(restricted.getxattr('/a.txt', 'user.v')).rejects.toThrow(PermissionError);
+      await expect(restricted.setxattr('/a.txt', 'user.v', 'y')).rejects.toThrow(PermissionError);
+      expect(await restricted.listxattr('/a.txt')).toEqual(['user.v']);
+    });
+  });
+
+  describe('保留屬性', () => {
+    beforeEach(async () => {
+      await vfs.setxattr('/data/a.txt', 'user.v', 'file');
+      await vfs.setxattr('/data', 'user.v', 'dir');
+    });
+
+    it('rename 應該保留屬性', async () => {
+      await vfs.rename('/data', '/moved');
+
+      expect(await vfs.getxattr('/moved/a.txt', 'user.v', 'utf-8')).toBe('file');
+      expect(await vfs.getxattr('/moved', 'user.v', 'utf-8')).toBe('dir');
+    });
+
+    it('copy 應該複製屬性，且複本與來源互不影響', async () => {
+      await vfs.copy('/data', '/copy', { recursive: true });
+      await vfs.copy('/data', '/filtered', { recursive: true, filter: () => true });
+      await vfs.setxattr('/copy/a.txt', 'user.v', 'changed');
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('file');
+      expect(await vfs.getxattr('/copy', 'user.v', 'utf-8')).toBe('dir');
+      expect(await vfs.getxattr('/filtered', 'user.v', 'utf-8')).toBe('dir');
+      expect(await vfs.getxattr('/filtered/a.txt', 'user.v', 'utf-8')).toBe('file');
+    });
+
+    it('快照還原應該恢復屬性', async () => {
+      const id = vfs.createSnapshot();
+      await vfs.setxattr('/data/a.txt', 'user.v', 'changed');
+      await vfs.setxattr('/data/a.txt', 'user.new', 'x');
+
+      vfs.restoreSnapshot(id);
+
+      expect(await vfs.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('file');
+      expect(await vfs.listxattr('/data/a.txt')).toEqual(['user.v']);
+    });
+
+    it('節點 clone 應該複製屬性，且複本與來源互不影響', () => {
+      const dir = new VFSDirectory('dir');
+      const file = new VFSFile('a.txt', 'x');
+      dir.addChild(file);
+      dir.inode.xattrs.set('user.v', Buffer.from('dir'));
+      file.inode.xattrs.set('user.v', Buffer.from('file'));
+
+      const cloned = dir.clone();
+      const clonedFile = cloned.getChild('a.txt') as VFSFile;
+      clonedFile.inode.xattrs.get('user.v')![0] = 0x78;
+
+      expect(cloned.inode.xattrs.get('user.v')?.toString()).toBe('dir');
+      expect(file.inode.xattrs.get('user.v')?.toString()).toBe('file');
+    });
+  });
+
+  describe('JSON 匯出', () => {
+    it('預設不應該包含屬性', async () => {
+      await vfs.setxattr('/data/a.txt', 'user.v', 'x');
+
+      expect(vfs.toJSON('/', { flatten: true })).toEqual({ '/data/a.txt': 'hello' });
+    });
+
+    it('xattrs 選項應該輸出屬性並可再匯入', async () => {
+      await vfs.setxattr('/data/a.txt', 'user.v', 'x');
+      await vfs.setxattr('/data', 'user.bin', Buffer.from([1, 2, 3]));
+      await vfs.writeFile('/data/plain.txt', 'plain');
+
+      const json = vfs.toJSON('/', { flatten: true, xattrs: true });
+
+      expect(json).toEqual({
+        '/data': { content: null, xattrs: { 'user.bin': 'AQID' } },
+        '/data/a.txt': { content: 'hello', xattrs: { 'user.v': 'eA==' } },
+        '/data/plain.txt': 'plain',
+      });
+
+      const restored = createVFS();
+      await restored.fromJSON(json);
+
+      expect(await restored.readFile('/data/a.txt', 'utf-8')).toBe('hello');
+      expect(await restored.getxattr('/data/a.txt', 'user.v', 'utf-8')).toBe('x');
+      expect(await restored.getxattr('/data', 'user.bin')).toEqual(Buffer.from([1, 2, 3]));
+    });
+
+    it('非平面格式輸出屬性應該拋出 TypeError', () => {
+      expect(() => vfs.toJSON('/', { xattrs: true })).toThrow(TypeError);
+    });
+  });
+});